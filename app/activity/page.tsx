@@ -0,0 +1,237 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import toast, { Toaster } from "react-hot-toast";
+import {
+  BOOKING_EVENT_COLUMNS,
+  bookingEventLabel,
+  describeBookingChanges,
+  type BookingEvent,
+} from "@/lib/bookingEvents";
+
+type House = { id: number; name: string };
+
+const PAGE_SIZE = 50;
+
+export default function ActivityPage() {
+  const [loading, setLoading] = useState(true);
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+  const [houses, setHouses] = useState<House[]>([]);
+  const [houseFilter, setHouseFilter] = useState<number | "all">("all");
+
+  const [events, setEvents] = useState<BookingEvent[]>([]);
+  const [namesById, setNamesById] = useState<Map<string, string>>(new Map());
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+
+  useEffect(() => {
+    const checkAdmin = async () => {
+      const { data: authData } = await supabase.auth.getUser();
+      if (!authData.user) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const { data: profile, error: profErr } = await supabase
+        .from("profiles")
+        .select("is_admin")
+        .eq("id", authData.user.id)
+        .maybeSingle();
+
+      if (profErr || !profile?.is_admin) {
+        if (profErr) toast.error(profErr.message);
+        setIsAdmin(false);
+        setLoading(false);
+        return;
+      }
+
+      const { data: houseRows } = await supabase
+        .from("houses")
+        .select("id,name")
+        .order("name", { ascending: true });
+
+      setHouses((houseRows ?? []) as House[]);
+      setIsAdmin(true);
+    };
+
+    checkAdmin();
+  }, []);
+
+  // -------------------------------
+  // LOAD A PAGE OF EVENTS
+  // -------------------------------
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const loadEvents = async () => {
+      let query = supabase
+        .from("booking_events")
+        .select(BOOKING_EVENT_COLUMNS)
+        .order("created_at", { ascending: false })
+        .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+      if (houseFilter !== "all") query = query.eq("house_id", houseFilter);
+
+      const { data, error } = await query;
+      if (error) {
+        toast.error(error.message);
+        setLoading(false);
+        return;
+      }
+
+      const rows = (data ?? []) as BookingEvent[];
+
+      // Actors plus booking owners, so "Edited by Ann (Bob's stay)" reads right
+      const userIds = new Set<string>();
+      rows.forEach((e) => {
+        if (e.actor_id) userIds.add(e.actor_id);
+        const owner = (e.after ?? e.before)?.created_by;
+        if (owner) userIds.add(owner);
+      });
+
+      const names = new Map<string, string>();
+      if (userIds.size) {
+        const { data: profileRows } = await supabase
+          .from("profiles")
+          .select("id,name,email")
+          .in("id", Array.from(userIds));
+        (profileRows ?? []).forEach((p) => names.set(p.id, p.name || p.email || "Unknown"));
+      }
+
+      setNamesById((prev) => new Map([...prev, ...names]));
+      setEvents((prev) => (page === 0 ? rows : [...prev, ...rows]));
+      setHasMore(rows.length === PAGE_SIZE);
+      setLoading(false);
+    };
+
+    loadEvents();
+  }, [isAdmin, houseFilter, page]);
+
+  const houseName = (houseId: number | null) =>
+    houses.find((h) => h.id === houseId)?.name ?? "House";
+
+  if (loading) {
+    return (
+      <main className="min-h-screen p-6 bg-white">
+        <Toaster />
+        <div className="max-w-4xl mx-auto">
+          <p className="text-slate-700">Loading activity…</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (isAdmin === false) {
+    return (
+      <main className="min-h-screen p-6 bg-white">
+        <Toaster />
+        <div className="max-w-4xl mx-auto">
+          <h1 className="text-2xl font-bold text-slate-900">Activity (admin only)</h1>
+          <p className="mt-2 text-slate-700">You must be an admin to view booking activity.</p>
+          <div className="mt-4">
+            <Link
+              href="/calendar"
+              className="text-sm font-semibold text-[#064789] hover:underline"
+            >
+              Back to calendar
+            </Link>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-6 bg-white">
+      <Toaster />
+      <div className="max-w-4xl mx-auto">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-4">
+          <div>
+            <h1 className="text-3xl font-extrabold tracking-tight text-slate-900">Activity</h1>
+            <p className="mt-2 text-sm text-slate-600">
+              Every booking created, edited, cancelled, reviewed, archived or restored, newest first.
+            </p>
+          </div>
+
+          <div className="w-full sm:w-72 space-y-2">
+            <select
+              className="w-full rounded-lg border border-slate-200 bg-white p-3 text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+              value={houseFilter}
+              onChange={(e) => {
+                setHouseFilter(e.target.value === "all" ? "all" : Number(e.target.value));
+                setPage(0);
+              }}
+            >
+              <option value="all">All houses</option>
+              {houses.map((h) => (
+                <option key={h.id} value={h.id}>
+                  {h.name}
+                </option>
+              ))}
+            </select>
+            <div className="flex justify-end">
+              <Link
+                href="/calendar"
+                className="text-sm font-semibold text-[#064789] hover:underline"
+              >
+                Back to calendar
+              </Link>
+            </div>
+          </div>
+        </div>
+
+        <div className="surface p-6">
+          {events.length === 0 ? (
+            <p className="text-sm text-slate-700">No booking activity yet.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {events.map((e) => {
+                const actor = (e.actor_id && namesById.get(e.actor_id)) || "Someone";
+                const ownerId = (e.after ?? e.before)?.created_by;
+                const owner = ownerId ? namesById.get(ownerId) : null;
+
+                return (
+                  <li key={e.id} className="py-3 text-sm">
+                    <div className="flex flex-col sm:flex-row sm:justify-between gap-1">
+                      <div className="text-slate-900">
+                        <span className="font-semibold">{bookingEventLabel(e.action)}</span> by{" "}
+                        {actor}
+                        {owner && ownerId !== e.actor_id && (
+                          <span className="text-slate-600"> · {owner}&apos;s stay</span>
+                        )}
+                        <span className="text-slate-600"> · {houseName(e.house_id)}</span>
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        {new Date(e.created_at).toLocaleString("en-US", {
+                          dateStyle: "medium",
+                          timeStyle: "short",
+                        })}
+                      </div>
+                    </div>
+                    {describeBookingChanges(e).map((line) => (
+                      <div key={line} className="text-xs text-slate-600">
+                        {line}
+                      </div>
+                    ))}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {hasMore && (
+            <div className="mt-4 flex justify-center">
+              <button
+                className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-50"
+                onClick={() => setPage((p) => p + 1)}
+              >
+                Load more
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,44 +1,119 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
-
-function supabaseServerClient(accessToken: string) {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-  return createClient(supabaseUrl, supabaseAnonKey, {
-    global: { headers: { Authorization: `Bearer ${accessToken}` } },
-  });
-}
+import {
+  getHouseName,
+  getMemberName,
+  notifyAfterWrite,
+  notifyDirect,
+  notifyParticipants,
+} from "@/lib/bookingEmails";
+import {
+  callerDisplayName,
+  getCaller,
+  supabaseAdminClient,
+  supabaseServerClient,
+} from "@/lib/supabaseServer";
+import { recordBookingEvent } from "@/lib/bookingEvents";
+import { offerFreedDates } from "@/lib/waitlist";
 
+// Admin "delete": archives the booking so it can be restored from the trash.
+// Archived rows are purged later by /api/bookings/purge.
 export async function POST(req: Request) {
   try {
-    const { accessToken, bookingId } = (await req.json()) ?? {};
+    const { accessToken, bookingId, reason } = (await req.json()) ?? {};
     if (!accessToken || !bookingId) {
       return NextResponse.json({ error: "Missing fields" }, { status: 400 });
     }
 
+    const reasonClean = (reason ?? "").toString().trim();
+    if (!reasonClean) {
+      return NextResponse.json({ error: "Please give a reason." }, { status: 400 });
+    }
+
     const supabase = supabaseServerClient(accessToken);
 
-    // Who is calling?
-    const { data: auth } = await supabase.auth.getUser();
-    const userId = auth.user?.id;
-    if (!userId) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    // Who is calling? Are they admin?
+    const caller = await getCaller(supabase);
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    if (!caller.isAdmin) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+    const admin = supabaseAdminClient();
 
-    // Are they admin?
-    const { data: prof, error: profErr } = await supabase
-      .from("profiles")
-      .select("is_admin")
-      .eq("id", userId)
+    const { data: row, error: fetchErr } = await admin
+      .from("bookings")
+      .select("id,house_id,created_by,status,guest_count,start_date,end_date,note")
+      .eq("id", bookingId)
       .maybeSingle();
 
-    if (profErr) return NextResponse.json({ error: profErr.message }, { status: 500 });
-    if (!prof?.is_admin) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 });
+    if (!row) return NextResponse.json({ error: "Booking not found." }, { status: 404 });
+    if (row.status === "archived") {
+      return NextResponse.json({ error: "This booking is already archived." }, { status: 409 });
+    }
+
+    const { error: updateErr } = await admin
+      .from("bookings")
+      .update({
+        status: "archived",
+        archived_at: new Date().toISOString(),
+        archived_by: caller.userId,
+        archive_reason: reasonClean,
+        archived_from_status: row.status,
+      })
+      .eq("id", bookingId);
+
+    if (updateErr) return NextResponse.json({ error: updateErr.message }, { status: 500 });
 
-    // Hard delete
-    const { error: delErr } = await supabase.from("bookings").delete().eq("id", bookingId);
-    if (delErr) return NextResponse.json({ error: delErr.message }, { status: 500 });
+    await recordBookingEvent(admin, {
+      bookingId: row.id,
+      houseId: row.house_id,
+      actorId: caller.userId,
+      action: "archived",
+      before: row,
+      after: { ...row, status: "archived" },
+    });
+
+    const details = {
+      houseId: row.house_id,
+      houseName: await getHouseName(admin, row.house_id),
+      startDate: row.start_date,
+      endDate: row.end_date,
+      guestCount: row.guest_count,
+      actorName: callerDisplayName(caller),
+      reason: reasonClean,
+      note: row.note,
+    };
+
+    // Cancelled stays were already announced
+    if (row.status === "active") {
+      await notifyAfterWrite({ kind: "deleted", ...details });
+      await offerFreedDates(admin, row.house_id, row.start_date, row.end_date);
+    }
+
+    // The member whose stay (or request) it was hears it from the admin directly
+    if (
+      row.created_by !== caller.userId &&
+      (row.status === "active" || row.status === "pending")
+    ) {
+      await notifyDirect([row.created_by], {
+        kind: "on_behalf",
+        action: "cancelled",
+        ...details,
+      });
+    }
+
+    if (row.status === "active" || row.status === "pending") {
+      await notifyParticipants(row, {
+        action: "cancelled",
+        ...details,
+        actorName: await getMemberName(admin, row.created_by),
+      });
+    }
 
     return NextResponse.json({ ok: true });
-  } catch (e: any) {
-    return NextResponse.json({ error: e?.message ?? "Unknown error" }, { status: 500 });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
   }
 }
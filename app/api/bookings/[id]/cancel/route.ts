@@ -0,0 +1,194 @@
+import { NextResponse } from "next/server";
+import {
+  getHouseName,
+  getMemberName,
+  notifyAfterWrite,
+  notifyDirect,
+  notifyParticipants,
+} from "@/lib/bookingEmails";
+import { recordBookingEvent } from "@/lib/bookingEvents";
+import { offerFreedDates } from "@/lib/waitlist";
+import {
+  callerDisplayName,
+  getCaller,
+  supabaseAdminClient,
+  supabaseServerClient,
+} from "@/lib/supabaseServer";
+
+// Cancel (soft) a booking. The member it belongs to can cancel it, and so
+// can an admin acting for them (the member is emailed directly). For a
+// recurring stay, scope "following" also cancels every later occurrence;
+// scope "reservation" cancels every house booked together with this one.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const bookingId = Number(id);
+    const { accessToken, scope } = (await req.json()) ?? {};
+
+    if (!accessToken) {
+      return NextResponse.json({ error: "Missing accessToken" }, { status: 400 });
+    }
+    if (!Number.isInteger(bookingId)) {
+      return NextResponse.json({ error: "Invalid booking id" }, { status: 400 });
+    }
+
+    const supabase = supabaseServerClient(accessToken);
+    const caller = await getCaller(supabase);
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const admin = supabaseAdminClient();
+
+    const { data: row, error: fetchErr } = await admin
+      .from("bookings")
+      .select(
+        "id,house_id,created_by,status,guest_count,start_date,end_date,note,series_id,reservation_id"
+      )
+      .eq("id", bookingId)
+      .maybeSingle();
+
+    if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 });
+    if (!row) return NextResponse.json({ error: "Booking not found." }, { status: 404 });
+    const onBehalf = row.created_by !== caller.userId;
+    if (onBehalf && !caller.isAdmin) {
+      return NextResponse.json(
+        { error: "You can only cancel your own booking." },
+        { status: 403 }
+      );
+    }
+    if (row.status !== "active" && row.status !== "pending") {
+      return NextResponse.json(
+        { error: "This booking is already cancelled." },
+        { status: 409 }
+      );
+    }
+
+    let rows = [row];
+    if (scope === "following" && row.series_id) {
+      const { data: later, error: laterErr } = await admin
+        .from("bookings")
+        .select(
+          "id,house_id,created_by,status,guest_count,start_date,end_date,note,series_id,reservation_id"
+        )
+        .eq("series_id", row.series_id)
+        .gt("start_date", row.start_date)
+        .in("status", ["active", "pending"])
+        .order("start_date", { ascending: true });
+      if (laterErr) return NextResponse.json({ error: laterErr.message }, { status: 500 });
+      rows = [row, ...(later ?? [])];
+    } else if (scope === "reservation" && row.reservation_id) {
+      const { data: together, error: togetherErr } = await admin
+        .from("bookings")
+        .select(
+          "id,house_id,created_by,status,guest_count,start_date,end_date,note,series_id,reservation_id"
+        )
+        .eq("reservation_id", row.reservation_id)
+        .neq("id", row.id)
+        .in("status", ["active", "pending"]);
+      if (togetherErr) return NextResponse.json({ error: togetherErr.message }, { status: 500 });
+      rows = [row, ...(together ?? [])];
+    }
+    const wholeReservation = scope === "reservation" && rows.length > 1;
+
+    const { error: updateErr } = await admin
+      .from("bookings")
+      .update({
+        status: "cancelled",
+        cancelled_at: new Date().toISOString(),
+        cancelled_by: onBehalf ? caller.userId : null,
+      })
+      .in("id", rows.map((r) => r.id));
+
+    if (updateErr) return NextResponse.json({ error: updateErr.message }, { status: 500 });
+
+    for (const r of rows) {
+      await recordBookingEvent(admin, {
+        bookingId: r.id,
+        houseId: r.house_id,
+        actorId: caller.userId,
+        action: "cancelled",
+        before: r,
+        after: { ...r, status: "cancelled" },
+      });
+    }
+
+    const houseNames = new Map<number, string>();
+    for (const r of rows) {
+      if (!houseNames.has(r.house_id)) {
+        houseNames.set(r.house_id, await getHouseName(admin, r.house_id));
+      }
+    }
+
+    const later = wholeReservation ? 0 : rows.length - 1;
+    const details = {
+      houseId: row.house_id,
+      houseName: houseNames.get(row.house_id) ?? "House",
+      startDate: row.start_date,
+      endDate: row.end_date,
+      guestCount: row.guest_count,
+      actorName: callerDisplayName(caller),
+      memberName: onBehalf ? await getMemberName(admin, row.created_by) : null,
+      repeats: later ? `This stay and ${later} later one${later === 1 ? "" : "s"}` : null,
+      reservation: wholeReservation
+        ? rows.map((r) => houseNames.get(r.house_id)).join(" + ")
+        : null,
+      note: row.note,
+    };
+
+    // Pending requests were never announced to the family
+    const active = rows.filter((r) => r.status === "active");
+    if (wholeReservation) {
+      // One email per house so per-house preferences still apply
+      for (const r of active) {
+        await notifyAfterWrite({
+          kind: "cancelled",
+          ...details,
+          houseId: r.house_id,
+          houseName: houseNames.get(r.house_id) ?? "House",
+          guestCount: r.guest_count,
+        });
+      }
+    } else if (active.length) {
+      await notifyAfterWrite({
+        kind: "cancelled",
+        ...details,
+        startDate: active[0].start_date,
+        endDate: active[0].end_date,
+      });
+    }
+    for (const r of rows) {
+      await notifyParticipants(r, {
+        action: "cancelled",
+        ...details,
+        houseId: r.house_id,
+        houseName: houseNames.get(r.house_id) ?? "House",
+        startDate: r.start_date,
+        endDate: r.end_date,
+        guestCount: r.guest_count,
+        actorName: details.memberName ?? details.actorName,
+        repeats: null,
+        reservation: null,
+      });
+    }
+    for (const r of active) {
+      await offerFreedDates(admin, r.house_id, r.start_date, r.end_date);
+    }
+    if (onBehalf) {
+      await notifyDirect([row.created_by], {
+        kind: "on_behalf",
+        action: "cancelled",
+        ...details,
+        ...(wholeReservation ? { houseId: null, houseName: details.reservation ?? "" } : {}),
+      });
+    }
+
+    return NextResponse.json({ ok: true, cancelled: rows.length });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server";
+import { getHouseName, getMemberName, notifyDirect } from "@/lib/bookingEmails";
+import { loadGuestList, parseGuestList } from "@/lib/bookingGuests";
+import { getCaller, supabaseAdminClient, supabaseServerClient } from "@/lib/supabaseServer";
+
+// Replace a booking's guest list (an empty list clears it). Owner or admin
+// only. Family members newly linked on the list get an email.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const bookingId = Number(id);
+    const { accessToken, guests } = (await req.json()) ?? {};
+
+    if (!accessToken) {
+      return NextResponse.json({ error: "Missing accessToken" }, { status: 400 });
+    }
+    if (!Number.isInteger(bookingId)) {
+      return NextResponse.json({ error: "Invalid booking id" }, { status: 400 });
+    }
+
+    const supabase = supabaseServerClient(accessToken);
+    const caller = await getCaller(supabase);
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const admin = supabaseAdminClient();
+
+    const { data: row, error: fetchErr } = await admin
+      .from("bookings")
+      .select("id,house_id,created_by,status,guest_count,start_date,end_date,note")
+      .eq("id", bookingId)
+      .maybeSingle();
+
+    if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 });
+    if (!row) return NextResponse.json({ error: "Booking not found." }, { status: 404 });
+    if (row.created_by !== caller.userId && !caller.isAdmin) {
+      return NextResponse.json(
+        { error: "You can only edit the guest list of your own booking." },
+        { status: 403 }
+      );
+    }
+    if (row.status !== "active" && row.status !== "pending") {
+      return NextResponse.json({ error: "This booking is cancelled." }, { status: 409 });
+    }
+
+    const parsed = parseGuestList(guests, row.guest_count);
+    if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 422 });
+
+    const linked = parsed.guests.map((g) => g.profile_id).filter((p): p is string => !!p);
+    if (linked.length) {
+      const { data: members, error: memberErr } = await admin
+        .from("profiles")
+        .select("id")
+        .in("id", linked);
+      if (memberErr) return NextResponse.json({ error: memberErr.message }, { status: 500 });
+      if ((members ?? []).length !== linked.length) {
+        return NextResponse.json(
+          { error: "A linked family member no longer exists." },
+          { status: 422 }
+        );
+      }
+    }
+
+    const before = await loadGuestList(admin, bookingId);
+
+    // Write the new list before removing the old one, so a failed write
+    // leaves the stay with the list it had
+    let insertedIds: number[] = [];
+    if (parsed.guests.length) {
+      const { data: inserted, error: insertErr } = await admin
+        .from("booking_guests")
+        .insert(parsed.guests.map((g) => ({ ...g, booking_id: bookingId })))
+        .select("id");
+      if (insertErr) return NextResponse.json({ error: insertErr.message }, { status: 500 });
+      insertedIds = (inserted ?? []).map((g) => g.id as number);
+    }
+
+    if (before.length) {
+      const { error: clearErr } = await admin
+        .from("booking_guests")
+        .delete()
+        .in("id", before.map((g) => g.id));
+      if (clearErr) {
+        if (insertedIds.length) {
+          const { error: undoErr } = await admin
+            .from("booking_guests")
+            .delete()
+            .in("id", insertedIds);
+          if (undoErr) console.error(`Failed to undo guest list of booking ${bookingId}:`, undoErr);
+        }
+        return NextResponse.json({ error: clearErr.message }, { status: 500 });
+      }
+    }
+
+    const added = linked.filter(
+      (p) => p !== row.created_by && !before.some((g) => g.profile_id === p)
+    );
+    if (added.length) {
+      await notifyDirect(added, {
+        kind: "participant",
+        action: "added",
+        houseId: row.house_id,
+        houseName: await getHouseName(admin, row.house_id),
+        startDate: row.start_date,
+        endDate: row.end_date,
+        guestCount: row.guest_count,
+        actorName: await getMemberName(admin, row.created_by),
+        note: row.note,
+      });
+    }
+
+    return NextResponse.json({ ok: true, guests: parsed.guests });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
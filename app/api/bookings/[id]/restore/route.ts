@@ -0,0 +1,202 @@
+import { NextResponse } from "next/server";
+import {
+  getHouseName,
+  getMemberName,
+  notifyAfterWrite,
+  notifyDirect,
+  notifyParticipants,
+} from "@/lib/bookingEmails";
+import { recordBookingEvent } from "@/lib/bookingEvents";
+import { restoredStatus, validateBooking } from "@/lib/bookingRules";
+import { loadPolicyContext } from "@/lib/housePolicies";
+import { checkRoomClaims } from "@/lib/houseRooms";
+import { findPeakPeriod } from "@/lib/peakPeriods";
+import { dailyHeadcount } from "@/lib/usage";
+import {
+  callerDisplayName,
+  getCaller,
+  supabaseAdminClient,
+  supabaseServerClient,
+} from "@/lib/supabaseServer";
+
+// Put an archived or cancelled booking back on the calendar. Admin only.
+// The stay is re-checked against the owner's policy like a new booking;
+// going over the house's capacity needs `force` (the admin confirmed).
+// An archived stay gets back the status it had, except that a rejected one
+// comes back as a request; a cancelled one is a request on peak dates.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const bookingId = Number(id);
+    const { accessToken, force } = (await req.json()) ?? {};
+
+    if (!accessToken) {
+      return NextResponse.json({ error: "Missing accessToken" }, { status: 400 });
+    }
+    if (!Number.isInteger(bookingId)) {
+      return NextResponse.json({ error: "Invalid booking id" }, { status: 400 });
+    }
+
+    const supabase = supabaseServerClient(accessToken);
+    const caller = await getCaller(supabase);
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    if (!caller.isAdmin) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+    const admin = supabaseAdminClient();
+
+    const { data: row, error: fetchErr } = await admin
+      .from("bookings")
+      .select(
+        "id,house_id,created_by,status,guest_count,start_date,end_date,note,archived_from_status"
+      )
+      .eq("id", bookingId)
+      .maybeSingle();
+
+    if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 });
+    if (!row) return NextResponse.json({ error: "Booking not found." }, { status: 404 });
+    if (row.status !== "archived" && row.status !== "cancelled") {
+      return NextResponse.json(
+        { error: "Only archived or cancelled bookings can be restored." },
+        { status: 409 }
+      );
+    }
+
+    const violation = validateBooking(
+      { startDate: row.start_date, endDate: row.end_date, guestCount: row.guest_count },
+      await loadPolicyContext(admin, row.house_id, row.created_by, bookingId)
+    );
+    if (violation) {
+      return NextResponse.json(
+        { error: violation.message, code: violation.code, field: violation.field },
+        { status: 422 }
+      );
+    }
+
+    if (!force) {
+      const [{ data: house }, { data: others, error: othersErr }] = await Promise.all([
+        admin.from("houses").select("max_guests").eq("id", row.house_id).maybeSingle(),
+        admin
+          .from("bookings")
+          .select("start_date,end_date,guest_count")
+          .eq("house_id", row.house_id)
+          .eq("status", "active")
+          .lt("start_date", row.end_date)
+          .gt("end_date", row.start_date),
+      ]);
+      if (othersErr) return NextResponse.json({ error: othersErr.message }, { status: 500 });
+
+      const maxGuests = house?.max_guests;
+      if (maxGuests) {
+        const headcount = dailyHeadcount(
+          [...(others ?? []), row],
+          row.start_date,
+          row.end_date
+        );
+        const nightsOver = Array.from(headcount.values()).filter((n) => n > maxGuests).length;
+        if (nightsOver) {
+          return NextResponse.json(
+            {
+              error: `Restoring puts the house over ${maxGuests} guests on ${nightsOver} night${
+                nightsOver === 1 ? "" : "s"
+              }.`,
+              code: "over_capacity",
+            },
+            { status: 409 }
+          );
+        }
+      }
+    }
+
+    // Its rooms may have gone to another stay since; it comes back without
+    // them. Released while it's still off the calendar, so the restored stay
+    // never holds a clashing room.
+    const roomProblem = await checkRoomClaims(admin, {
+      bookingId,
+      houseId: row.house_id,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      guestCount: row.guest_count,
+    });
+    if (roomProblem) {
+      const { error: roomsErr } = await admin
+        .from("booking_rooms")
+        .delete()
+        .eq("booking_id", bookingId);
+      if (roomsErr) return NextResponse.json({ error: roomsErr.message }, { status: 500 });
+    }
+
+    const previous = row.status === "archived" ? row.archived_from_status : null;
+    const peak = await findPeakPeriod(admin, row.house_id, row.start_date, row.end_date);
+    const status = restoredStatus(previous, !!peak);
+
+    const { data: updated, error: updateErr } = await admin
+      .from("bookings")
+      .update({
+        status,
+        cancelled_at: null,
+        archived_at: null,
+        archived_by: null,
+        archive_reason: null,
+        archived_from_status: null,
+      })
+      .eq("id", bookingId)
+      .eq("status", row.status)
+      .select("id");
+
+    if (updateErr) return NextResponse.json({ error: updateErr.message }, { status: 500 });
+    // Restored or purged by someone else between our read and write
+    if (!updated?.length) {
+      return NextResponse.json(
+        { error: "This booking changed while you were restoring it." },
+        { status: 409 }
+      );
+    }
+
+    await recordBookingEvent(admin, {
+      bookingId,
+      houseId: row.house_id,
+      actorId: caller.userId,
+      action: "restored",
+      before: row,
+      after: { ...row, status },
+    });
+
+    const details = {
+      houseId: row.house_id,
+      houseName: await getHouseName(admin, row.house_id),
+      startDate: row.start_date,
+      endDate: row.end_date,
+      guestCount: row.guest_count,
+      actorName: callerDisplayName(caller),
+      note: row.note,
+    };
+
+    if (status === "pending") {
+      // Back in the approval queue; the family hears once it's approved
+      await notifyDirect("admins", {
+        kind: "pending",
+        peakLabel:
+          peak?.label ?? (previous === "rejected" ? "None (restored after a rejection)" : "Peak dates"),
+        ...details,
+      });
+    } else {
+      await notifyAfterWrite({ kind: "booked", ...details });
+    }
+
+    await notifyParticipants(row, {
+      action: "restored",
+      ...details,
+      actorName: await getMemberName(admin, row.created_by),
+    });
+
+    return NextResponse.json({ ok: true, status });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server";
+import { getHouseName, notifyAfterWrite, notifyDirect } from "@/lib/bookingEmails";
+import { recordBookingEvent } from "@/lib/bookingEvents";
+import { findPeakPeriod } from "@/lib/peakPeriods";
+import {
+  callerDisplayName,
+  getCaller,
+  supabaseAdminClient,
+  supabaseServerClient,
+} from "@/lib/supabaseServer";
+
+// Approve or reject a pending (peak-date) booking. Admin only.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const bookingId = Number(id);
+    const { accessToken, decision, note } = (await req.json()) ?? {};
+
+    if (!accessToken) {
+      return NextResponse.json({ error: "Missing accessToken" }, { status: 400 });
+    }
+    if (!Number.isInteger(bookingId)) {
+      return NextResponse.json({ error: "Invalid booking id" }, { status: 400 });
+    }
+    if (decision !== "approve" && decision !== "reject") {
+      return NextResponse.json({ error: "decision must be approve or reject" }, { status: 400 });
+    }
+
+    const supabase = supabaseServerClient(accessToken);
+    const caller = await getCaller(supabase);
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    if (!caller.isAdmin) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+    const admin = supabaseAdminClient();
+
+    const { data: row, error: fetchErr } = await admin
+      .from("bookings")
+      .select("id,house_id,created_by,status,guest_count,start_date,end_date,note")
+      .eq("id", bookingId)
+      .maybeSingle();
+
+    if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 });
+    if (!row) return NextResponse.json({ error: "Booking not found." }, { status: 404 });
+    if (row.status !== "pending") {
+      return NextResponse.json(
+        { error: "This booking is no longer waiting for approval." },
+        { status: 409 }
+      );
+    }
+
+    const reviewNote = (note ?? "").toString().trim() || null;
+    const status = decision === "approve" ? "active" : "rejected";
+
+    const { data: updated, error: updateErr } = await admin
+      .from("bookings")
+      .update({
+        status,
+        reviewed_by: caller.userId,
+        reviewed_at: new Date().toISOString(),
+        review_note: reviewNote,
+      })
+      .eq("id", bookingId)
+      .eq("status", "pending")
+      .select("id");
+
+    if (updateErr) return NextResponse.json({ error: updateErr.message }, { status: 500 });
+    // Another admin reviewed it between our read and write
+    if (!updated?.length) {
+      return NextResponse.json(
+        { error: "This booking is no longer waiting for approval." },
+        { status: 409 }
+      );
+    }
+
+    await recordBookingEvent(admin, {
+      bookingId,
+      houseId: row.house_id,
+      actorId: caller.userId,
+      action: decision === "approve" ? "approved" : "rejected",
+      before: row,
+      after: { ...row, status },
+    });
+
+    const { data: requester } = await admin
+      .from("profiles")
+      .select("name,email")
+      .eq("id", row.created_by)
+      .maybeSingle();
+
+    const peak = await findPeakPeriod(admin, row.house_id, row.start_date, row.end_date);
+    const details = {
+      houseId: row.house_id,
+      houseName: await getHouseName(admin, row.house_id),
+      startDate: row.start_date,
+      endDate: row.end_date,
+      guestCount: row.guest_count,
+      note: row.note,
+    };
+
+    await notifyDirect([row.created_by], {
+      kind: decision === "approve" ? "approved" : "rejected",
+      peakLabel: peak?.label ?? "Peak dates",
+      reviewNote,
+      actorName: callerDisplayName(caller),
+      ...details,
+    });
+
+    if (status === "active") {
+      await notifyAfterWrite({
+        kind: "booked",
+        actorName: requester?.name || requester?.email || "A family member",
+        ...details,
+      });
+    }
+
+    return NextResponse.json({ ok: true, status });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
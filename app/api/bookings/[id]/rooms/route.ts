@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { checkRoomClaims, loadHouseRooms } from "@/lib/houseRooms";
+import { getCaller, supabaseAdminClient, supabaseServerClient } from "@/lib/supabaseServer";
+
+// Set the rooms a booking claims for all of its nights (an empty list
+// releases them). Owner or admin only. A room another overlapping stay holds
+// is rejected, and the claimed rooms need a bed for each of the booking's guests.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const bookingId = Number(id);
+    const { accessToken, roomIds } = (await req.json()) ?? {};
+
+    if (!accessToken) {
+      return NextResponse.json({ error: "Missing accessToken" }, { status: 400 });
+    }
+    if (!Number.isInteger(bookingId)) {
+      return NextResponse.json({ error: "Invalid booking id" }, { status: 400 });
+    }
+    if (!Array.isArray(roomIds) || !roomIds.every((r) => Number.isInteger(r))) {
+      return NextResponse.json({ error: "roomIds must be a list of room ids." }, { status: 400 });
+    }
+
+    const supabase = supabaseServerClient(accessToken);
+    const caller = await getCaller(supabase);
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const admin = supabaseAdminClient();
+
+    const { data: row, error: fetchErr } = await admin
+      .from("bookings")
+      .select("id,house_id,created_by,status,guest_count,start_date,end_date")
+      .eq("id", bookingId)
+      .maybeSingle();
+
+    if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 });
+    if (!row) return NextResponse.json({ error: "Booking not found." }, { status: 404 });
+    if (row.created_by !== caller.userId && !caller.isAdmin) {
+      return NextResponse.json(
+        { error: "You can only choose rooms for your own booking." },
+        { status: 403 }
+      );
+    }
+    if (row.status !== "active" && row.status !== "pending") {
+      return NextResponse.json({ error: "This booking is cancelled." }, { status: 409 });
+    }
+
+    const wanted = Array.from(new Set(roomIds as number[]));
+    const problem = await checkRoomClaims(admin, {
+      bookingId,
+      houseId: row.house_id,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      guestCount: row.guest_count,
+      roomIds: wanted,
+    });
+    if (problem) {
+      return NextResponse.json(
+        { error: problem.message, code: problem.code },
+        { status: problem.code === "room_taken" ? 409 : 422 }
+      );
+    }
+
+    // Re-checked and written in one transaction, so a room claimed by
+    // someone else since the check above is still refused
+    const { error: claimErr } = await admin.rpc("set_booking_rooms", {
+      target_booking_id: bookingId,
+      room_ids: wanted,
+    });
+    if (claimErr?.message === "room_taken") {
+      const room = (await loadHouseRooms(admin, row.house_id)).find(
+        (r) => r.id === Number(claimErr.details)
+      );
+      return NextResponse.json(
+        {
+          error: `${room?.name ?? "That room"} is already claimed for some of these nights.`,
+          code: "room_taken",
+        },
+        { status: 409 }
+      );
+    }
+    if (claimErr) return NextResponse.json({ error: claimErr.message }, { status: 500 });
+
+    return NextResponse.json({ ok: true, roomIds: wanted });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
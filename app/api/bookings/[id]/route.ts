@@ -0,0 +1,340 @@
+import { NextResponse } from "next/server";
+import { nightsBetween, validateBooking } from "@/lib/bookingRules";
+import {
+  formatDate,
+  getHouseName,
+  getMemberName,
+  notifyAfterWrite,
+  notifyDirect,
+  notifyParticipants,
+} from "@/lib/bookingEmails";
+import { recordBookingEvent } from "@/lib/bookingEvents";
+import { countPeople, loadGuestList } from "@/lib/bookingGuests";
+import { checkOccurrences } from "@/lib/bookingSeries";
+import { BOOKING_COLUMNS, type BookingRow } from "@/lib/bookingWrites";
+import { loadPolicyContext } from "@/lib/housePolicies";
+import { checkRoomClaims } from "@/lib/houseRooms";
+import { findPeakPeriod, type PeakPeriod } from "@/lib/peakPeriods";
+import {
+  callerDisplayName,
+  getCaller,
+  supabaseAdminClient,
+  supabaseServerClient,
+} from "@/lib/supabaseServer";
+import { addDays } from "@/lib/usage";
+
+type StoredBooking = {
+  status: string;
+  guest_count: number;
+  start_date: string;
+  end_date: string;
+  note: string | null;
+  version: number;
+};
+
+// 409 for an edit made against an older version. Carries what's stored now
+// so the editor can compare it with what they loaded.
+function staleEditResponse(current: StoredBooking) {
+  return NextResponse.json(
+    {
+      error: "Someone else changed this booking since you opened it.",
+      code: "stale",
+      current: {
+        status: current.status,
+        guest_count: current.guest_count,
+        start_date: current.start_date,
+        end_date: current.end_date,
+        note: current.note,
+        version: current.version,
+      },
+    },
+    { status: 409 }
+  );
+}
+
+// Edit dates, guests or note. Owner or admin only. For a recurring stay,
+// scope "following" applies the change to every later occurrence too.
+// version is the one the editor loaded; a stale edit is rejected.
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const bookingId = Number(id);
+    const { accessToken, startDate, endDate, guestCount, note, scope, version } =
+      (await req.json()) ?? {};
+
+    if (!accessToken) {
+      return NextResponse.json({ error: "Missing accessToken" }, { status: 400 });
+    }
+    if (!Number.isInteger(bookingId)) {
+      return NextResponse.json({ error: "Invalid booking id" }, { status: 400 });
+    }
+    if (!Number.isInteger(version)) {
+      return NextResponse.json({ error: "Missing version" }, { status: 400 });
+    }
+
+    const supabase = supabaseServerClient(accessToken);
+    const caller = await getCaller(supabase);
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const admin = supabaseAdminClient();
+
+    const { data: row, error: fetchErr } = await admin
+      .from("bookings")
+      .select("id,house_id,created_by,status,guest_count,start_date,end_date,note,series_id,version")
+      .eq("id", bookingId)
+      .maybeSingle();
+
+    if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 });
+    if (!row) return NextResponse.json({ error: "Booking not found." }, { status: 404 });
+    const onBehalf = row.created_by !== caller.userId;
+    if (onBehalf && !caller.isAdmin) {
+      return NextResponse.json({ error: "You can only edit your own booking." }, { status: 403 });
+    }
+    if (row.status !== "active" && row.status !== "pending") {
+      return NextResponse.json({ error: "This booking is cancelled." }, { status: 409 });
+    }
+    // Saved by someone else after the editor loaded it
+    if (version !== row.version) {
+      return staleEditResponse(row);
+    }
+
+    // The booking owner's limits apply, even when an admin is editing
+    const input = { startDate, endDate, guestCount: Number(guestCount) };
+    const context = await loadPolicyContext(admin, row.house_id, row.created_by, bookingId);
+
+    // "This and following" on a recurring stay: later occurrences move by the
+    // same number of days and take the same guests and note
+    let later: (typeof row)[] = [];
+    if (scope === "following" && row.series_id) {
+      const { data: laterRows, error: laterErr } = await admin
+        .from("bookings")
+        .select("id,house_id,created_by,status,guest_count,start_date,end_date,note,series_id,version")
+        .eq("series_id", row.series_id)
+        .gt("start_date", row.start_date)
+        .in("status", ["active", "pending"])
+        .order("start_date", { ascending: true });
+      if (laterErr) return NextResponse.json({ error: laterErr.message }, { status: 500 });
+      later = laterRows ?? [];
+    }
+
+    const violation = validateBooking(input, context);
+    if (violation) {
+      return NextResponse.json(
+        { error: violation.message, code: violation.code, field: violation.field },
+        { status: 422 }
+      );
+    }
+
+    const startShift = nightsBetween(row.start_date, input.startDate);
+    const endShift = nightsBetween(row.end_date, input.endDate);
+    const targets = [row, ...later].map((before, i) => ({
+      before,
+      startDate: i === 0 ? input.startDate : addDays(before.start_date, startShift),
+      endDate: i === 0 ? input.endDate : addDays(before.end_date, endShift),
+    }));
+
+    if (later.length) {
+      const laterIds = new Set(later.map((l) => l.id));
+      const checks = checkOccurrences(
+        targets.map((t) => ({ start_date: t.startDate, end_date: t.endDate })),
+        input.guestCount,
+        { ...context, memberStays: context.memberStays.filter((s) => !laterIds.has(s.id)) }
+      );
+      const failed = checks.find((c) => c.violation);
+      if (failed?.violation) {
+        return NextResponse.json(
+          {
+            error: `${formatDate(failed.start_date)}: ${failed.violation.message}`,
+            code: failed.violation.code,
+            field: failed.violation.field,
+          },
+          { status: 422 }
+        );
+      }
+    }
+
+    // Claimed rooms move with the stay: the new nights must be free and the
+    // rooms must still have a bed for everyone
+    for (const [i, target] of targets.entries()) {
+      const problem = await checkRoomClaims(admin, {
+        bookingId: target.before.id,
+        houseId: row.house_id,
+        startDate: target.startDate,
+        endDate: target.endDate,
+        guestCount: input.guestCount,
+      });
+      if (problem) {
+        return NextResponse.json(
+          {
+            error: i === 0 ? problem.message : `${formatDate(target.startDate)}: ${problem.message}`,
+            code: problem.code,
+          },
+          { status: problem.code === "room_taken" ? 409 : 422 }
+        );
+      }
+    }
+
+    // A named guest list can't outgrow the stay's guests
+    for (const [i, target] of targets.entries()) {
+      const people = countPeople(await loadGuestList(admin, target.before.id));
+      if (people > input.guestCount) {
+        const message = `The guest list names ${people} people; remove some before lowering the guests.`;
+        return NextResponse.json(
+          {
+            error: i === 0 ? message : `${formatDate(target.startDate)}: ${message}`,
+            code: "guest_list",
+            field: "guestCount",
+          },
+          { status: 422 }
+        );
+      }
+    }
+
+    const noteClean = (note ?? "").toString().trim() || null;
+    const houseName = await getHouseName(admin, row.house_id);
+    const memberName = onBehalf ? await getMemberName(admin, row.created_by) : null;
+
+    const planned: { target: (typeof targets)[number]; status: string; peak: PeakPeriod | null }[] =
+      [];
+    for (const target of targets) {
+      // Members moving a stay onto peak dates go back through approval, unless
+      // they're only shortening an approved stay. Admin edits keep the status.
+      const shrinking =
+        target.startDate >= target.before.start_date && target.endDate <= target.before.end_date;
+      const peak = caller.isAdmin
+        ? null
+        : await findPeakPeriod(admin, row.house_id, target.startDate, target.endDate);
+      const status = caller.isAdmin
+        ? target.before.status
+        : peak && !(target.before.status === "active" && shrinking)
+          ? "pending"
+          : "active";
+      planned.push({ target, status, peak });
+    }
+
+    // Every occurrence is saved or none is
+    const { data: saved, error: updateErr } = await admin
+      .rpc("update_booking_occurrences", {
+        changes: planned.map(({ target, status }) => ({
+          id: target.before.id,
+          version: target.before.version,
+          start_date: target.startDate,
+          end_date: target.endDate,
+          guest_count: input.guestCount,
+          note: noteClean,
+          status,
+        })),
+      })
+      .select(BOOKING_COLUMNS);
+
+    if (updateErr?.message === "stale_bookings") {
+      // Another write landed between our read and this update
+      const staleIds = (updateErr.details ?? "").split(",").map(Number);
+      if (staleIds.includes(row.id)) {
+        const { data: current } = await admin
+          .from("bookings")
+          .select(BOOKING_COLUMNS)
+          .eq("id", row.id)
+          .maybeSingle();
+        return staleEditResponse(current ?? row);
+      }
+      const stale = later.filter((l) => staleIds.includes(l.id));
+      return NextResponse.json(
+        {
+          error: `Someone else changed ${stale
+            .map((l) => formatDate(l.start_date))
+            .join(", ")} since you opened this stay. Nothing was saved.`,
+          code: "stale_occurrences",
+          stale: stale.map((l) => ({ id: l.id, start_date: l.start_date })),
+        },
+        { status: 409 }
+      );
+    }
+    if (updateErr) return NextResponse.json({ error: updateErr.message }, { status: 500 });
+
+    const savedById = new Map(((saved ?? []) as BookingRow[]).map((b) => [b.id, b]));
+    const results: { booking: BookingRow; status: string; peak: PeakPeriod | null }[] = [];
+    for (const { target, status, peak } of planned) {
+      const booking = savedById.get(target.before.id);
+      if (!booking) continue;
+
+      await recordBookingEvent(admin, {
+        bookingId: target.before.id,
+        houseId: row.house_id,
+        actorId: caller.userId,
+        action: "updated",
+        before: target.before,
+        after: booking,
+      });
+
+      results.push({ booking, status, peak });
+    }
+
+    const details = (booking: BookingRow) => ({
+      houseId: booking.house_id,
+      houseName,
+      startDate: booking.start_date,
+      endDate: booking.end_date,
+      guestCount: booking.guest_count,
+      actorName: callerDisplayName(caller),
+      memberName,
+      repeats: later.length
+        ? `This stay and ${later.length} later one${later.length === 1 ? "" : "s"}`
+        : null,
+      note: booking.note,
+    });
+
+    const [{ booking, status, peak }, ...laterResults] = results;
+
+    if (onBehalf) {
+      await notifyDirect([row.created_by], {
+        kind: "on_behalf",
+        action: "updated",
+        ...details(booking),
+      });
+    }
+
+    await notifyParticipants(row, {
+      action: "updated",
+      ...details(booking),
+      actorName: memberName ?? callerDisplayName(caller),
+    });
+
+    for (const r of laterResults) {
+      if (r.status === "pending" && r.peak) {
+        await notifyDirect("admins", {
+          kind: "pending",
+          peakLabel: r.peak.label,
+          ...details(r.booking),
+        });
+      }
+    }
+
+    if (status === "pending" && peak) {
+      await notifyDirect("admins", { kind: "pending", peakLabel: peak.label, ...details(booking) });
+      return NextResponse.json({ ok: true, booking, pendingApproval: peak.label });
+    }
+
+    if (row.status === "pending" && status === "active") {
+      // Moved off peak dates: this is the first time the family hears of it
+      await notifyAfterWrite({ kind: "booked", ...details(booking) });
+    } else if (status === "active") {
+      await notifyAfterWrite({
+        kind: "updated",
+        previousStartDate: row.start_date,
+        previousEndDate: row.end_date,
+        ...details(booking),
+      });
+    }
+
+    return NextResponse.json({ ok: true, booking });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
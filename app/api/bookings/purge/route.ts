@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { isCronAuthorized } from "@/lib/cron";
+import { recordBookingEvent } from "@/lib/bookingEvents";
+import { supabaseAdminClient } from "@/lib/supabaseServer";
+
+const DEFAULT_RETENTION_DAYS = 90;
+
+function retentionDays() {
+  const days = Number(process.env.ARCHIVE_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+// GET /api/bookings/purge -> daily cron: permanently delete bookings that
+// have sat in the archive longer than ARCHIVE_RETENTION_DAYS
+export async function GET(req: Request) {
+  try {
+    if (!isCronAuthorized(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const admin = supabaseAdminClient();
+    const cutoff = new Date(Date.now() - retentionDays() * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data: purged, error } = await admin
+      .from("bookings")
+      .delete()
+      .eq("status", "archived")
+      .lt("archived_at", cutoff)
+      .select("id,house_id,created_by,status,guest_count,start_date,end_date,note");
+
+    if (error) throw new Error(error.message);
+
+    for (const row of purged ?? []) {
+      await recordBookingEvent(admin, {
+        bookingId: row.id,
+        houseId: row.house_id,
+        actorId: null,
+        action: "purged",
+        before: row,
+      });
+    }
+
+    return NextResponse.json({ ok: true, purged: purged?.length ?? 0 });
+  } catch (e) {
+    console.error("Error in /api/bookings/purge:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error in /api/bookings/purge" },
+      { status: 500 }
+    );
+  }
+}
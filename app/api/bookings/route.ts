@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { createBooking, failureBody } from "@/lib/bookingWrites";
+import { getCaller, supabaseAdminClient, supabaseServerClient } from "@/lib/supabaseServer";
+
+// Create a booking for the caller, or (admins) for the member in onBehalfOf
+export async function POST(req: Request) {
+  try {
+    const { accessToken, houseId, startDate, endDate, guestCount, note, onBehalfOf } =
+      (await req.json()) ?? {};
+
+    if (!accessToken) {
+      return NextResponse.json({ error: "Missing accessToken" }, { status: 400 });
+    }
+    if (!houseId) {
+      return NextResponse.json({ error: "Missing fields" }, { status: 400 });
+    }
+
+    const supabase = supabaseServerClient(accessToken);
+    const caller = await getCaller(supabase);
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const result = await createBooking(supabaseAdminClient(), caller, {
+      houseId,
+      startDate,
+      endDate,
+      guestCount,
+      note,
+      memberId: typeof onBehalfOf === "string" ? onBehalfOf : undefined,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(failureBody(result), { status: result.status });
+    }
+
+    if (result.pendingApproval) {
+      return NextResponse.json({
+        ok: true,
+        booking: result.booking,
+        pendingApproval: result.pendingApproval,
+      });
+    }
+
+    return NextResponse.json({ ok: true, booking: result.booking });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
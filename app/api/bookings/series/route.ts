@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { createSeries, failureBody } from "@/lib/bookingWrites";
+import { getCaller, supabaseAdminClient, supabaseServerClient } from "@/lib/supabaseServer";
+
+// Create a recurring series: the first stay plus how it repeats
+// (frequency, interval, and either until or count)
+export async function POST(req: Request) {
+  try {
+    const {
+      accessToken,
+      houseId,
+      startDate,
+      endDate,
+      guestCount,
+      note,
+      onBehalfOf,
+      frequency,
+      interval,
+      until,
+      count,
+    } = (await req.json()) ?? {};
+
+    if (!accessToken) {
+      return NextResponse.json({ error: "Missing accessToken" }, { status: 400 });
+    }
+    if (!houseId || !frequency) {
+      return NextResponse.json({ error: "Missing fields" }, { status: 400 });
+    }
+
+    const supabase = supabaseServerClient(accessToken);
+    const caller = await getCaller(supabase);
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const result = await createSeries(supabaseAdminClient(), caller, {
+      houseId,
+      startDate,
+      endDate,
+      guestCount,
+      note,
+      memberId: typeof onBehalfOf === "string" ? onBehalfOf : undefined,
+      rule: {
+        frequency,
+        interval: Number(interval ?? 1),
+        until: typeof until === "string" && until ? until : null,
+        count: count === undefined || count === null || count === "" ? null : Number(count),
+      },
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(failureBody(result), { status: result.status });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      seriesId: result.seriesId,
+      bookings: result.bookings,
+      pendingCount: result.pendingCount,
+    });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
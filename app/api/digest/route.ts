@@ -0,0 +1,321 @@
+import { NextResponse } from "next/server";
+import {
+  escapeHtml,
+  formatDate,
+  loadRecipients,
+  renderEmailLayout,
+  sendEmails,
+  unsubscribeUrl,
+} from "@/lib/bookingEmails";
+import {
+  BOOKING_EVENT_COLUMNS,
+  describeBookingChanges,
+  type BookingEvent,
+} from "@/lib/bookingEvents";
+import { isCronAuthorized } from "@/lib/cron";
+import { wantsDigestChange, type NotificationEvent } from "@/lib/notificationPreferences";
+import { supabaseAdminClient } from "@/lib/supabaseServer";
+
+const DIGEST_DAYS = 14;
+// How far back a member's first digest (or the preview) looks for changes
+const CHANGES_LOOKBACK_DAYS = 7;
+
+type DigestStay = {
+  who: string;
+  startDate: string;
+  endDate: string;
+  guestCount: number;
+  note: string;
+};
+
+type DigestHouse = { id: number; name: string; stays: DigestStay[] };
+
+// A booking change that members on "digest" delivery were not emailed about
+type DigestChange = {
+  at: string;
+  event: NotificationEvent;
+  houseId: number | null;
+  houseName: string;
+  who: string;
+  startDate: string;
+  endDate: string;
+  details: string[];
+};
+
+const CHANGE_LABELS: Record<NotificationEvent, string> = {
+  booked: "Booked",
+  updated: "Edited",
+  cancelled: "Cancelled",
+};
+
+function toIsoDate(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+async function loadNames(userIds: string[]) {
+  const namesById = new Map<string, string>();
+  const ids = Array.from(new Set(userIds));
+  if (!ids.length) return namesById;
+
+  const { data: profileRows, error: profErr } = await supabaseAdminClient()
+    .from("profiles")
+    .select("id,name,email")
+    .in("id", ids);
+  if (profErr) throw new Error(profErr.message);
+  (profileRows ?? []).forEach((p) => namesById.set(p.id, p.name || p.email || "Unknown"));
+  return namesById;
+}
+
+// Which booking email a history event stood in for, if any. Pending requests
+// were never announced, so only changes to approved stays count.
+function digestEvent(e: BookingEvent): NotificationEvent | null {
+  switch (e.action) {
+    case "created":
+    case "restored":
+      return e.after?.status === "active" ? "booked" : null;
+    case "approved":
+      return "booked";
+    case "updated":
+      if (e.after?.status !== "active") return null;
+      return e.before?.status === "pending" ? "booked" : "updated";
+    case "cancelled":
+    case "deleted":
+    case "archived":
+      return e.before?.status === "active" ? "cancelled" : null;
+    default:
+      return null;
+  }
+}
+
+async function loadDigestChanges(since: string, houses: { id: number; name: string }[]) {
+  const { data, error } = await supabaseAdminClient()
+    .from("booking_events")
+    .select(BOOKING_EVENT_COLUMNS)
+    .gt("created_at", since)
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(error.message);
+
+  const events = (data ?? []) as BookingEvent[];
+  const namesById = await loadNames(
+    events.flatMap((e) => {
+      const owner = (e.after ?? e.before)?.created_by;
+      return owner ? [owner] : [];
+    })
+  );
+
+  return events.flatMap((e): DigestChange[] => {
+    const event = digestEvent(e);
+    const stay = e.after ?? e.before;
+    if (!event || !stay) return [];
+    return [
+      {
+        at: e.created_at,
+        event,
+        houseId: e.house_id,
+        houseName: houses.find((h) => h.id === e.house_id)?.name ?? "House",
+        who: (stay.created_by && namesById.get(stay.created_by)) || "Unknown",
+        startDate: stay.start_date,
+        endDate: stay.end_date,
+        details: event === "updated" ? describeBookingChanges(e) : [],
+      },
+    ];
+  });
+}
+
+async function loadDigestHouses(from: string, to: string): Promise<DigestHouse[]> {
+  const admin = supabaseAdminClient();
+
+  const { data: houseRows, error: houseErr } = await admin
+    .from("houses")
+    .select("id,name")
+    .order("name", { ascending: true });
+  if (houseErr) throw new Error(houseErr.message);
+
+  const { data: bookingRows, error: bookingErr } = await admin
+    .from("bookings")
+    .select("house_id,created_by,guest_count,start_date,end_date,note")
+    .eq("status", "active")
+    .lt("start_date", to)
+    .gt("end_date", from)
+    .order("start_date", { ascending: true });
+  if (bookingErr) throw new Error(bookingErr.message);
+
+  const namesById = await loadNames((bookingRows ?? []).map((b) => b.created_by));
+
+  return (houseRows ?? []).map((h) => ({
+    id: h.id,
+    name: h.name,
+    stays: (bookingRows ?? [])
+      .filter((b) => b.house_id === h.id)
+      .map((b) => ({
+        who: namesById.get(b.created_by) ?? "Unknown",
+        startDate: b.start_date,
+        endDate: b.end_date,
+        guestCount: b.guest_count,
+        note: (b.note ?? "").trim(),
+      })),
+  }));
+}
+
+function renderChanges(changes: DigestChange[]) {
+  if (!changes.length) return "";
+
+  const rows = changes
+    .map(
+      (c) => `
+              <tr>
+                <td style="padding: 6px 0; color:#0f172a; vertical-align:top;">
+                  <span style="font-weight:700;">${CHANGE_LABELS[c.event]}</span> · ${escapeHtml(c.houseName)}<br />
+                  <span style="color:#64748b;">${escapeHtml(c.who)}</span>
+                </td>
+                <td style="padding: 6px 0; color:#334155; text-align:right; vertical-align:top;">
+                  ${formatDate(c.startDate)} → ${formatDate(c.endDate)}${c.details
+                    .map((line) => `<br /><span style="color:#64748b;">${escapeHtml(line)}</span>`)
+                    .join("")}
+                </td>
+              </tr>`
+    )
+    .join("");
+
+  return `
+            <div style="margin-bottom:16px;">
+              <div style="font-size:16px;font-weight:800;color:#064789;">Changes since your last digest</div>
+              <table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;">
+                ${rows}
+              </table>
+            </div>`;
+}
+
+function renderDigest(
+  houses: DigestHouse[],
+  changes: DigestChange[],
+  from: string,
+  to: string,
+  unsubscribe?: string
+) {
+  const sections = houses
+    .map((h) => {
+      const stays = h.stays.length
+        ? h.stays
+            .map(
+              (s) => `
+              <tr>
+                <td style="padding: 6px 0; color:#0f172a; font-weight:700; vertical-align:top;">${escapeHtml(s.who)}</td>
+                <td style="padding: 6px 0; color:#334155; text-align:right; vertical-align:top;">
+                  ${formatDate(s.startDate)} → ${formatDate(s.endDate)}<br />
+                  ${s.guestCount} guest${s.guestCount === 1 ? "" : "s"}
+                </td>
+              </tr>${
+                s.note
+                  ? `
+              <tr>
+                <td colspan="2" style="padding: 0 0 8px; color:#64748b; white-space: pre-wrap;">${escapeHtml(s.note)}</td>
+              </tr>`
+                  : ""
+              }`
+            )
+            .join("")
+        : `
+              <tr>
+                <td style="padding: 6px 0; color:#64748b;">No stays — the house is free.</td>
+              </tr>`;
+
+      return `
+            <div style="margin-bottom:16px;">
+              <div style="font-size:16px;font-weight:800;color:#064789;">${escapeHtml(h.name)}</div>
+              <table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;">
+                ${stays}
+              </table>
+            </div>`;
+    })
+    .join("");
+
+  // `to` is exclusive, so the last day shown is the day before
+  const lastDay = toIsoDate(new Date(new Date(`${to}T00:00:00Z`).getTime() - 86400000));
+
+  return {
+    subject: `House occupancy: ${formatDate(from)} – ${formatDate(lastDay)}`,
+    html: renderEmailLayout({
+      accent: "#064789",
+      headline: `Next ${DIGEST_DAYS} days`,
+      bodyHtml: renderChanges(changes) + sections,
+      footer: "This is your weekly summary of upcoming stays.",
+      unsubscribeUrl: unsubscribe,
+    }),
+  };
+}
+
+// GET /api/digest            -> send the digest to every subscribed member
+// GET /api/digest?preview=1  -> return the rendered HTML, send nothing
+//
+// Members on "digest" delivery also get the booking changes they picked
+// (events and houses) since their last digest, since no email went out for them.
+export async function GET(req: Request) {
+  try {
+    if (!isCronAuthorized(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const preview = new URL(req.url).searchParams.get("preview") === "1";
+
+    const today = new Date();
+    const from = toIsoDate(today);
+    const to = toIsoDate(new Date(today.getTime() + DIGEST_DAYS * 86400000));
+
+    const houses = await loadDigestHouses(from, to);
+    const lookback = new Date(today.getTime() - CHANGES_LOOKBACK_DAYS * 86400000).toISOString();
+
+    if (preview) {
+      const changes = await loadDigestChanges(lookback, houses);
+      const { html } = renderDigest(houses, changes, from, to, unsubscribeUrl("preview"));
+      return new NextResponse(html, {
+        headers: { "Content-Type": "text/html; charset=utf-8" },
+      });
+    }
+
+    const admin = supabaseAdminClient();
+    const recipients = (await loadRecipients(admin)).filter((r) => !r.preferences.unsubscribed);
+
+    // Changes since the earliest last digest; each member's are cut below
+    const sinceFor = (r: (typeof recipients)[number]) => r.digestSentAt ?? lookback;
+    const digestMembers = recipients.filter((r) => r.preferences.delivery === "digest");
+    const changes = digestMembers.length
+      ? await loadDigestChanges(digestMembers.map(sinceFor).sort()[0], houses)
+      : [];
+
+    const sentAt = today.toISOString();
+    const sent = await sendEmails(
+      recipients.map((r) => {
+        const houseIds = r.preferences.house_ids;
+        const url = unsubscribeUrl(r.unsubscribeToken);
+        const since = sinceFor(r);
+        const { subject, html } = renderDigest(
+          houseIds ? houses.filter((h) => houseIds.includes(h.id)) : houses,
+          changes.filter(
+            (c) => c.at > since && wantsDigestChange(r.preferences, c.event, c.houseId)
+          ),
+          from,
+          to,
+          url
+        );
+        return { to: r.email, subject, html, unsubscribeUrl: url };
+      })
+    );
+
+    if (recipients.length) {
+      const { error: stampErr } = await admin
+        .from("notification_preferences")
+        .update({ digest_sent_at: sentAt })
+        .in("user_id", recipients.map((r) => r.userId));
+      if (stampErr) console.error("Failed to record digest send time:", stampErr);
+    }
+
+    return NextResponse.json({ ok: true, sent });
+  } catch (e) {
+    console.error("Error in /api/digest:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error in /api/digest" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import { drawIsOpen, type Draw } from "@/lib/draws";
+import { getCaller, supabaseAdminClient, supabaseServerClient } from "@/lib/supabaseServer";
+
+// Submit or replace the caller's ranked preferences while requests are open.
+// An empty slotIds list withdraws the entry.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const drawId = Number(id);
+    const { accessToken, slotIds, guestCount, note } = (await req.json()) ?? {};
+
+    if (!accessToken) {
+      return NextResponse.json({ error: "Missing accessToken" }, { status: 400 });
+    }
+    if (!Number.isInteger(drawId)) {
+      return NextResponse.json({ error: "Invalid draw id" }, { status: 400 });
+    }
+    if (!Array.isArray(slotIds)) {
+      return NextResponse.json({ error: "slotIds must be a list" }, { status: 400 });
+    }
+
+    const supabase = supabaseServerClient(accessToken);
+    const caller = await getCaller(supabase);
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const admin = supabaseAdminClient();
+
+    const { data: draw, error: drawErr } = await admin
+      .from("draws")
+      .select("*")
+      .eq("id", drawId)
+      .maybeSingle();
+
+    if (drawErr) return NextResponse.json({ error: drawErr.message }, { status: 500 });
+    if (!draw) return NextResponse.json({ error: "Draw not found." }, { status: 404 });
+    if (!drawIsOpen(draw as Draw)) {
+      return NextResponse.json({ error: "Requests for this draw are closed." }, { status: 409 });
+    }
+
+    if (slotIds.length === 0) {
+      const { error } = await admin
+        .from("draw_entries")
+        .delete()
+        .eq("draw_id", drawId)
+        .eq("user_id", caller.userId);
+      if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+      return NextResponse.json({ ok: true, withdrawn: true });
+    }
+
+    const guests = Number(guestCount);
+    if (!Number.isInteger(guests) || guests < 1) {
+      return NextResponse.json(
+        { error: "Guest count must be a whole number ≥ 1." },
+        { status: 422 }
+      );
+    }
+
+    const { data: slotRows, error: slotErr } = await admin
+      .from("draw_slots")
+      .select("id")
+      .eq("draw_id", drawId);
+    if (slotErr) return NextResponse.json({ error: slotErr.message }, { status: 500 });
+
+    const validIds = new Set((slotRows ?? []).map((s) => s.id as number));
+    const preferences = slotIds.map(Number);
+    if (
+      preferences.some((slotId) => !validIds.has(slotId)) ||
+      new Set(preferences).size !== preferences.length
+    ) {
+      return NextResponse.json(
+        { error: "Rank each of this draw's slots at most once." },
+        { status: 422 }
+      );
+    }
+
+    const { error: upsertErr } = await admin.from("draw_entries").upsert(
+      {
+        draw_id: drawId,
+        user_id: caller.userId,
+        preferences,
+        guest_count: guests,
+        note: (note ?? "").toString().trim() || null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "draw_id,user_id" }
+    );
+
+    if (upsertErr) return NextResponse.json({ error: upsertErr.message }, { status: 500 });
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { runDraw, type Draw, type DrawEntry, type DrawSlot } from "@/lib/draws";
+import {
+  getBearerToken,
+  getCaller,
+  supabaseAdminClient,
+  supabaseServerClient,
+} from "@/lib/supabaseServer";
+
+// GET /api/draws/:id/replay -> re-runs a finished draw from its stored seed,
+// entries and history, and says whether it matches the recorded result.
+// Any member can check; the caller's access token comes in the Authorization header.
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const drawId = Number(id);
+    if (!Number.isInteger(drawId)) {
+      return NextResponse.json({ error: "Invalid draw id" }, { status: 400 });
+    }
+
+    const accessToken = getBearerToken(req);
+    if (!accessToken) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    const caller = await getCaller(supabaseServerClient(accessToken));
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    // Entries are private to each member, so read them with the service role
+    const admin = supabaseAdminClient();
+
+    const { data: drawRow, error: drawErr } = await admin
+      .from("draws")
+      .select("*")
+      .eq("id", drawId)
+      .maybeSingle();
+
+    if (drawErr) return NextResponse.json({ error: drawErr.message }, { status: 500 });
+    if (!drawRow) return NextResponse.json({ error: "Draw not found." }, { status: 404 });
+
+    const draw = drawRow as Draw;
+    if (draw.status !== "drawn" || !draw.seed) {
+      return NextResponse.json({ error: "This draw hasn't been run yet." }, { status: 409 });
+    }
+
+    const [slotRes, entryRes, resultRes] = await Promise.all([
+      admin.from("draw_slots").select("id,draw_id,label,start_date,end_date").eq("draw_id", drawId),
+      admin.from("draw_entries").select("user_id,preferences,guest_count").eq("draw_id", drawId),
+      admin
+        .from("draw_results")
+        .select("user_id,position,ticket,past_wins,last_won,slot_id")
+        .eq("draw_id", drawId)
+        .order("position", { ascending: true }),
+    ]);
+    const loadErr = slotRes.error ?? entryRes.error ?? resultRes.error;
+    if (loadErr) return NextResponse.json({ error: loadErr.message }, { status: 500 });
+
+    const recorded = resultRes.data ?? [];
+    const replayed = runDraw({
+      method: draw.method,
+      seed: draw.seed,
+      slots: (slotRes.data ?? []) as DrawSlot[],
+      entries: (entryRes.data ?? []) as DrawEntry[],
+      history: recorded.map((r) => ({
+        user_id: r.user_id,
+        past_wins: r.past_wins,
+        last_won: r.last_won,
+      })),
+    });
+
+    const matches =
+      replayed.length === recorded.length &&
+      replayed.every(
+        (o, i) =>
+          o.user_id === recorded[i].user_id &&
+          o.position === recorded[i].position &&
+          o.slot_id === recorded[i].slot_id
+      );
+
+    return NextResponse.json({ seed: draw.seed, method: draw.method, matches, outcomes: replayed });
+  } catch (e) {
+    console.error("Error in /api/draws/replay:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
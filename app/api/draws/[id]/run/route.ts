@@ -0,0 +1,267 @@
+import { randomBytes } from "crypto";
+import { NextResponse } from "next/server";
+import { notifyAfterWrite } from "@/lib/bookingEmails";
+import { recordBookingEvent } from "@/lib/bookingEvents";
+import {
+  runDraw,
+  type Draw,
+  type DrawEntry,
+  type DrawHistory,
+  type DrawSlot,
+} from "@/lib/draws";
+import { getCaller, supabaseAdminClient, supabaseServerClient } from "@/lib/supabaseServer";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Past wins at this house for each entrant, from earlier draws
+async function loadHistory(
+  admin: SupabaseClient,
+  draw: Draw,
+  userIds: string[]
+): Promise<DrawHistory[]> {
+  const { data: pastDraws, error: drawErr } = await admin
+    .from("draws")
+    .select("id,window_start")
+    .eq("house_id", draw.house_id)
+    .eq("status", "drawn")
+    .lt("window_start", draw.window_start);
+  if (drawErr) throw new Error(drawErr.message);
+
+  const windowStartById = new Map((pastDraws ?? []).map((d) => [d.id, d.window_start as string]));
+  const history = new Map<string, DrawHistory>(
+    userIds.map((userId) => [userId, { user_id: userId, past_wins: 0, last_won: null }])
+  );
+
+  if (!windowStartById.size || !userIds.length) return Array.from(history.values());
+
+  const { data: wins, error: winErr } = await admin
+    .from("draw_results")
+    .select("draw_id,user_id")
+    .in("draw_id", Array.from(windowStartById.keys()))
+    .in("user_id", userIds)
+    .not("slot_id", "is", null);
+  if (winErr) throw new Error(winErr.message);
+
+  (wins ?? []).forEach((w) => {
+    const h = history.get(w.user_id)!;
+    const wonAt = windowStartById.get(w.draw_id)!;
+    h.past_wins += 1;
+    if (!h.last_won || wonAt > h.last_won) h.last_won = wonAt;
+  });
+
+  return Array.from(history.values());
+}
+
+// Run a draw once requests have closed: pick winners with a fresh seed,
+// book their slots and record everything needed to replay it. Admin only.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const drawId = Number(id);
+    const { accessToken } = (await req.json()) ?? {};
+
+    if (!accessToken) {
+      return NextResponse.json({ error: "Missing accessToken" }, { status: 400 });
+    }
+    if (!Number.isInteger(drawId)) {
+      return NextResponse.json({ error: "Invalid draw id" }, { status: 400 });
+    }
+
+    const supabase = supabaseServerClient(accessToken);
+    const caller = await getCaller(supabase);
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    if (!caller.isAdmin) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+    const admin = supabaseAdminClient();
+
+    const { data: drawRow, error: drawErr } = await admin
+      .from("draws")
+      .select("*")
+      .eq("id", drawId)
+      .maybeSingle();
+
+    if (drawErr) return NextResponse.json({ error: drawErr.message }, { status: 500 });
+    if (!drawRow) return NextResponse.json({ error: "Draw not found." }, { status: 404 });
+
+    const draw = drawRow as Draw;
+    if (draw.status !== "open") {
+      return NextResponse.json({ error: "This draw has already been run." }, { status: 409 });
+    }
+    if (new Date(draw.requests_close_at) > new Date()) {
+      return NextResponse.json(
+        { error: "Requests are still open. Run the draw after they close." },
+        { status: 409 }
+      );
+    }
+
+    const seed = randomBytes(16).toString("hex");
+
+    // Claim the draw first so two admins can't both run it
+    const { data: claimed, error: claimErr } = await admin
+      .from("draws")
+      .update({
+        status: "drawn",
+        seed,
+        drawn_at: new Date().toISOString(),
+        drawn_by: caller.userId,
+      })
+      .eq("id", drawId)
+      .eq("status", "open")
+      .select("id");
+
+    if (claimErr) return NextResponse.json({ error: claimErr.message }, { status: 500 });
+    if (!claimed?.length) {
+      return NextResponse.json({ error: "This draw has already been run." }, { status: 409 });
+    }
+
+    // Everything below must land together: if any step fails, the draw is
+    // reopened and its bookings removed so it can simply be run again
+    const insertedBookingIds: number[] = [];
+    const reopen = async () => {
+      const { error: resultErr } = await admin.from("draw_results").delete().eq("draw_id", drawId);
+      if (resultErr) console.error(`Failed to clear results of draw ${drawId}:`, resultErr);
+      if (insertedBookingIds.length) {
+        const { error: bookingErr } = await admin
+          .from("bookings")
+          .delete()
+          .in("id", insertedBookingIds);
+        if (bookingErr) console.error(`Failed to remove bookings of draw ${drawId}:`, bookingErr);
+      }
+      const { error: drawErr } = await admin
+        .from("draws")
+        .update({ status: "open", seed: null, drawn_at: null, drawn_by: null })
+        .eq("id", drawId);
+      if (drawErr) console.error(`Failed to reopen draw ${drawId}:`, drawErr);
+    };
+
+    let outcomes: ReturnType<typeof runDraw>;
+    let winners: ReturnType<typeof runDraw>;
+    let slotsById: Map<number, DrawSlot>;
+    let entriesByUser: Map<string, DrawEntry & { note: string | null }>;
+    let bookings: {
+      id: number;
+      house_id: number;
+      created_by: string;
+      guest_count: number;
+      start_date: string;
+      end_date: string;
+      status: string;
+      note: string | null;
+    }[] = [];
+    try {
+      const [slotRes, entryRes] = await Promise.all([
+        admin.from("draw_slots").select("id,draw_id,label,start_date,end_date").eq("draw_id", drawId),
+        admin.from("draw_entries").select("user_id,preferences,guest_count,note").eq("draw_id", drawId),
+      ]);
+      const loadErr = slotRes.error ?? entryRes.error;
+      if (loadErr) throw new Error(loadErr.message);
+
+      const slots = (slotRes.data ?? []) as DrawSlot[];
+      const entries = (entryRes.data ?? []) as (DrawEntry & { note: string | null })[];
+      const history = await loadHistory(
+        admin,
+        draw,
+        entries.map((e) => e.user_id)
+      );
+
+      outcomes = runDraw({ method: draw.method, seed, slots, entries, history });
+
+      slotsById = new Map(slots.map((s) => [s.id, s]));
+      entriesByUser = new Map(entries.map((e) => [e.user_id, e]));
+      winners = outcomes.filter((o) => o.slot_id !== null);
+
+      if (winners.length) {
+        const { data, error: bookingErr } = await admin
+          .from("bookings")
+          .insert(
+            winners.map((o) => {
+              const slot = slotsById.get(o.slot_id!)!;
+              const entry = entriesByUser.get(o.user_id)!;
+              return {
+                house_id: draw.house_id,
+                created_by: o.user_id,
+                guest_count: entry.guest_count,
+                start_date: slot.start_date,
+                end_date: slot.end_date,
+                status: "active",
+                note: entry.note || `${draw.label} draw — ${slot.label}`,
+              };
+            })
+          )
+          .select("id,house_id,created_by,guest_count,start_date,end_date,status,note");
+        if (bookingErr) throw new Error(bookingErr.message);
+        bookings = data ?? [];
+        insertedBookingIds.push(...bookings.map((b) => b.id));
+      }
+
+      const bookingIdByUser = new Map(bookings.map((b) => [b.created_by, b.id]));
+      if (outcomes.length) {
+        const { error: resultErr } = await admin.from("draw_results").insert(
+          outcomes.map((o) => ({
+            draw_id: drawId,
+            ...o,
+            booking_id: bookingIdByUser.get(o.user_id) ?? null,
+          }))
+        );
+        if (resultErr) throw new Error(resultErr.message);
+      }
+    } catch (e) {
+      await reopen();
+      return NextResponse.json(
+        { error: e instanceof Error ? e.message : "Unknown error" },
+        { status: 500 }
+      );
+    }
+
+    for (const b of bookings) {
+      await recordBookingEvent(admin, {
+        bookingId: b.id,
+        houseId: b.house_id,
+        actorId: caller.userId,
+        action: "created",
+        after: b,
+      });
+    }
+
+    if (winners.length) {
+      const [{ data: house }, { data: profiles }] = await Promise.all([
+        admin.from("houses").select("name").eq("id", draw.house_id).maybeSingle(),
+        admin
+          .from("profiles")
+          .select("id,name,email")
+          .in(
+            "id",
+            winners.map((o) => o.user_id)
+          ),
+      ]);
+      const namesById = new Map(
+        (profiles ?? []).map((p) => [p.id as string, (p.name || p.email) as string])
+      );
+
+      for (const o of winners) {
+        const slot = slotsById.get(o.slot_id!)!;
+        const entry = entriesByUser.get(o.user_id)!;
+        await notifyAfterWrite({
+          kind: "booked",
+          houseId: draw.house_id,
+          houseName: house?.name ?? "House",
+          startDate: slot.start_date,
+          endDate: slot.end_date,
+          guestCount: entry.guest_count,
+          actorName: namesById.get(o.user_id) || "A family member",
+          note: `Won in the ${draw.label} draw.`,
+        });
+      }
+    }
+
+    return NextResponse.json({ ok: true, seed, outcomes });
+  } catch (e) {
+    console.error("Error in /api/draws/run:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { feedTokenOwner, feedWindowStart } from "@/lib/calendarFeeds";
+import { icalResponse, renderCalendar } from "@/lib/ical";
+import { supabaseAdminClient } from "@/lib/supabaseServer";
+
+// GET /api/ical/<houseId>?token=<feed token> -> every active booking in the house
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ houseId: string }> }
+) {
+  try {
+    const { houseId } = await params;
+    const id = Number(houseId.replace(/\.ics$/, ""));
+
+    const owner = await feedTokenOwner(new URL(req.url).searchParams.get("token"));
+    if (!owner) return NextResponse.json({ error: "Invalid feed token" }, { status: 401 });
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: "Invalid house id" }, { status: 400 });
+    }
+
+    const admin = supabaseAdminClient();
+
+    const { data: house, error: houseErr } = await admin
+      .from("houses")
+      .select("id,name")
+      .eq("id", id)
+      .maybeSingle();
+    if (houseErr) return NextResponse.json({ error: houseErr.message }, { status: 500 });
+    if (!house) return NextResponse.json({ error: "House not found" }, { status: 404 });
+
+    const { data: bookingRows, error: bookingErr } = await admin
+      .from("bookings")
+      .select("id,created_by,guest_count,start_date,end_date,note")
+      .eq("house_id", id)
+      .eq("status", "active")
+      .gte("end_date", feedWindowStart())
+      .order("start_date", { ascending: true });
+    if (bookingErr) return NextResponse.json({ error: bookingErr.message }, { status: 500 });
+
+    const bookings = bookingRows ?? [];
+    const userIds = Array.from(new Set(bookings.map((b) => b.created_by)));
+    const names = new Map<string, string>();
+
+    if (userIds.length) {
+      const { data: profileRows, error: profErr } = await admin
+        .from("profiles")
+        .select("id,name,email")
+        .in("id", userIds);
+      if (profErr) return NextResponse.json({ error: profErr.message }, { status: 500 });
+      (profileRows ?? []).forEach((p) => names.set(p.id, p.name || p.email || "Unknown"));
+    }
+
+    return icalResponse(
+      `house-${house.id}.ics`,
+      renderCalendar({
+        name: house.name,
+        events: bookings.map((b) => ({
+          uid: `booking-${b.id}@bayavebearln.com`,
+          start: b.start_date,
+          end: b.end_date,
+          summary: `${names.get(b.created_by) ?? "Unknown"} — ${b.guest_count} guest${
+            b.guest_count === 1 ? "" : "s"
+          }`,
+          description: b.note,
+        })),
+      }),
+      false
+    );
+  } catch (e) {
+    console.error("Error in /api/ical/[houseId]:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { feedTokenOwner, feedWindowStart } from "@/lib/calendarFeeds";
+import { icalResponse, renderCalendar } from "@/lib/ical";
+import { supabaseAdminClient } from "@/lib/supabaseServer";
+
+// GET /api/ical/me?token=<feed token> -> the token owner's own stays, all houses
+export async function GET(req: Request) {
+  try {
+    const owner = await feedTokenOwner(new URL(req.url).searchParams.get("token"));
+    if (!owner) return NextResponse.json({ error: "Invalid feed token" }, { status: 401 });
+
+    const admin = supabaseAdminClient();
+
+    const { data: houseRows, error: houseErr } = await admin.from("houses").select("id,name");
+    if (houseErr) return NextResponse.json({ error: houseErr.message }, { status: 500 });
+
+    const { data: bookingRows, error: bookingErr } = await admin
+      .from("bookings")
+      .select("id,house_id,guest_count,start_date,end_date,note")
+      .eq("created_by", owner)
+      .eq("status", "active")
+      .gte("end_date", feedWindowStart())
+      .order("start_date", { ascending: true });
+    if (bookingErr) return NextResponse.json({ error: bookingErr.message }, { status: 500 });
+
+    const houseNames = new Map((houseRows ?? []).map((h) => [h.id, h.name as string]));
+
+    return icalResponse(
+      "my-stays.ics",
+      renderCalendar({
+        name: "My stays — Bay Ave & Bear Ln",
+        events: (bookingRows ?? []).map((b) => ({
+          uid: `booking-${b.id}@bayavebearln.com`,
+          start: b.start_date,
+          end: b.end_date,
+          summary: `${houseNames.get(b.house_id) ?? "House"} — ${b.guest_count} guest${
+            b.guest_count === 1 ? "" : "s"
+          }`,
+          description: b.note,
+        })),
+      }),
+      false
+    );
+  } catch (e) {
+    console.error("Error in /api/ical/me:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { newFeedToken } from "@/lib/calendarFeeds";
+import { getCaller, supabaseAdminClient, supabaseServerClient } from "@/lib/supabaseServer";
+
+// Creates or rotates the caller's feed token. Old feed URLs stop working.
+export async function POST(req: Request) {
+  try {
+    const { accessToken } = (await req.json()) ?? {};
+    if (!accessToken) {
+      return NextResponse.json({ error: "Missing accessToken" }, { status: 400 });
+    }
+
+    const caller = await getCaller(supabaseServerClient(accessToken));
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const token = newFeedToken();
+
+    const { error } = await supabaseAdminClient()
+      .from("calendar_feed_tokens")
+      .upsert(
+        { user_id: caller.userId, token, created_at: new Date().toISOString() },
+        { onConflict: "user_id" }
+      );
+
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+    return NextResponse.json({ ok: true, token });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { createReservation, failureBody } from "@/lib/bookingWrites";
+import { getCaller, supabaseAdminClient, supabaseServerClient } from "@/lib/supabaseServer";
+
+// Book several houses for the same dates as one reservation.
+// houses: [{ houseId, guestCount }, ...]
+export async function POST(req: Request) {
+  try {
+    const { accessToken, houses, startDate, endDate, note, onBehalfOf } =
+      (await req.json()) ?? {};
+
+    if (!accessToken) {
+      return NextResponse.json({ error: "Missing accessToken" }, { status: 400 });
+    }
+    if (!Array.isArray(houses)) {
+      return NextResponse.json({ error: "Missing fields" }, { status: 400 });
+    }
+
+    const supabase = supabaseServerClient(accessToken);
+    const caller = await getCaller(supabase);
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const result = await createReservation(supabaseAdminClient(), caller, {
+      houses,
+      startDate,
+      endDate,
+      note,
+      memberId: typeof onBehalfOf === "string" ? onBehalfOf : undefined,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(failureBody(result), { status: result.status });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      reservationId: result.reservationId,
+      bookings: result.bookings,
+      pendingCount: result.pendingCount,
+    });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { escapeHtml, renderEmailLayout, siteUrl } from "@/lib/bookingEmails";
+import { supabaseAdminClient } from "@/lib/supabaseServer";
+
+// Unsubscribe from the link in every booking email. The token is the only
+// credential, so this works without being signed in. Opening the link only
+// asks for confirmation: mail scanners and prefetchers fetch links nobody
+// clicked, so nothing changes until the form (or a mail client) POSTs.
+function isValidToken(token: string | null): token is string {
+  return !!token && /^[0-9a-f-]{36}$/i.test(token);
+}
+
+async function unsubscribe(token: string | null) {
+  if (!isValidToken(token)) return false;
+
+  const { data, error } = await supabaseAdminClient()
+    .from("notification_preferences")
+    .update({ unsubscribed: true, updated_at: new Date().toISOString() })
+    .eq("unsubscribe_token", token)
+    .select("user_id");
+
+  if (error) throw new Error(error.message);
+  return (data ?? []).length > 0;
+}
+
+function page(state: "confirm" | "done" | "invalid", token?: string) {
+  const body =
+    state === "confirm"
+      ? `<p style="color:#334155;">Stop all booking emails, including the weekly digest?</p>
+       <form method="post" action="/api/unsubscribe?token=${encodeURIComponent(token ?? "")}">
+         <input type="hidden" name="confirm" value="page" />
+         <button type="submit" style="margin-top:8px;padding:10px 16px;border:0;border-radius:8px;background:#b91c1c;color:#ffffff;font-weight:700;cursor:pointer;">Unsubscribe</button>
+       </form>
+       <p style="color:#334155;">Or pick which emails you get on your
+       <a href="${escapeHtml(siteUrl())}/profile" style="color:#064789;">profile page</a>.</p>`
+      : state === "done"
+        ? `<p style="color:#334155;">You won't get booking emails anymore.</p>
+       <p style="color:#334155;">Changed your mind? Turn them back on from your
+       <a href="${escapeHtml(siteUrl())}/profile" style="color:#064789;">profile page</a>.</p>`
+        : `<p style="color:#334155;">This unsubscribe link is invalid or has expired.</p>`;
+
+  const headlines = {
+    confirm: "Unsubscribe from booking emails?",
+    done: "Unsubscribed",
+    invalid: "Link not recognized",
+  };
+
+  return new NextResponse(
+    `<!doctype html><html><head><meta charset="utf-8"><title>Unsubscribe</title></head><body style="margin:0;">${renderEmailLayout(
+      {
+        accent: state === "invalid" ? "#b91c1c" : "#064789",
+        headline: headlines[state],
+        bodyHtml: body,
+        footer: "Bay Ave & Bear Ln Calendars",
+      }
+    )}</body></html>`,
+    {
+      status: state === "invalid" ? 404 : 200,
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    }
+  );
+}
+
+// Opening the link: confirmation page only, nothing is changed
+export async function GET(req: Request) {
+  try {
+    const token = new URL(req.url).searchParams.get("token");
+    return isValidToken(token) ? page("confirm", token) : page("invalid");
+  } catch (e) {
+    console.error("Error in /api/unsubscribe:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// RFC 8058 one-click: mail clients POST to the List-Unsubscribe URL. The
+// confirmation page's form posts here too and gets a page back.
+export async function POST(req: Request) {
+  try {
+    const token = new URL(req.url).searchParams.get("token");
+    const form = await req.formData().catch(() => null);
+    const ok = await unsubscribe(token);
+    if (form?.get("confirm") === "page") return page(ok ? "done" : "invalid");
+    return NextResponse.json({ ok }, { status: ok ? 200 : 404 });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+import { nightsBetween } from "@/lib/bookingRules";
+import { csvResponse, toCsv } from "@/lib/csv";
+import { icalResponse, icalStatus, renderCalendar } from "@/lib/ical";
+import { requireAdmin } from "@/lib/supabaseServer";
+import { parseUsageWindow } from "@/lib/usageReport";
+
+type ExportBooking = {
+  id: number;
+  house_id: number;
+  created_by: string;
+  guest_count: number;
+  start_date: string;
+  end_date: string;
+  status: string;
+  note: string | null;
+  cancelled_at: string | null;
+};
+
+// Every booking (whatever its status) that touches the range, for cost
+// sharing spreadsheets. ?format=ics returns the same rows as a calendar file.
+export async function GET(req: Request) {
+  try {
+    const auth = await requireAdmin(req);
+    if ("error" in auth) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const params = new URL(req.url).searchParams;
+    const window = parseUsageWindow(params);
+    if ("error" in window) {
+      return NextResponse.json({ error: window.error }, { status: 400 });
+    }
+
+    const format = params.get("format") ?? "csv";
+    if (format !== "csv" && format !== "ics") {
+      return NextResponse.json({ error: "format must be csv or ics" }, { status: 400 });
+    }
+
+    const { supabase } = auth;
+    const { from, to } = window;
+
+    const { data: houseRows, error: houseErr } = await supabase.from("houses").select("id,name");
+    if (houseErr) return NextResponse.json({ error: houseErr.message }, { status: 500 });
+
+    const { data: bookingRows, error: bookingErr } = await supabase
+      .from("bookings")
+      .select("id,house_id,created_by,guest_count,start_date,end_date,status,note,cancelled_at")
+      .lt("start_date", to)
+      .gt("end_date", from)
+      .order("start_date", { ascending: true });
+    if (bookingErr) return NextResponse.json({ error: bookingErr.message }, { status: 500 });
+
+    const bookings = (bookingRows ?? []) as ExportBooking[];
+    const houseNames = new Map((houseRows ?? []).map((h) => [h.id, h.name as string]));
+
+    const userIds = Array.from(new Set(bookings.map((b) => b.created_by)));
+    const memberNames = new Map<string, string>();
+    if (userIds.length) {
+      const { data: profileRows, error: profErr } = await supabase
+        .from("profiles")
+        .select("id,name,email")
+        .in("id", userIds);
+      if (profErr) return NextResponse.json({ error: profErr.message }, { status: 500 });
+      (profileRows ?? []).forEach((p) => memberNames.set(p.id, p.name || p.email || "Unknown"));
+    }
+
+    const filename = `bookings_${from}_${to}`;
+
+    if (format === "ics") {
+      return icalResponse(
+        `${filename}.ics`,
+        renderCalendar({
+          name: "Bay Ave & Bear Ln bookings",
+          events: bookings.map((b) => ({
+            uid: `booking-${b.id}@bayavebearln.com`,
+            start: b.start_date,
+            end: b.end_date,
+            summary: `${houseNames.get(b.house_id) ?? "House"}: ${
+              memberNames.get(b.created_by) ?? "Unknown"
+            } (${b.guest_count})`,
+            description: b.note,
+            status: icalStatus(b.status),
+          })),
+        })
+      );
+    }
+
+    return csvResponse(
+      `${filename}.csv`,
+      toCsv(
+        ["house", "member", "check_in", "check_out", "nights", "guests", "note", "status", "cancelled_at"],
+        bookings.map((b) => [
+          houseNames.get(b.house_id) ?? b.house_id,
+          memberNames.get(b.created_by) ?? "Unknown",
+          b.start_date,
+          b.end_date,
+          nightsBetween(b.start_date, b.end_date),
+          b.guest_count,
+          b.note,
+          b.status,
+          b.cancelled_at,
+        ])
+      )
+    );
+  } catch (e) {
+    console.error("Error in /api/usage/export/bookings:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
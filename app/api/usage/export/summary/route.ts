@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { csvResponse, toCsv } from "@/lib/csv";
+import { requireAdmin } from "@/lib/supabaseServer";
+import { buildUsageReport, parseUsageWindow } from "@/lib/usageReport";
+
+// The usage aggregates from /api/usage as CSV.
+// ?table=houses (default): one row per house per period
+// ?table=members: the per-member nights breakdown
+export async function GET(req: Request) {
+  try {
+    const auth = await requireAdmin(req);
+    if ("error" in auth) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const params = new URL(req.url).searchParams;
+    const window = parseUsageWindow(params);
+    if ("error" in window) {
+      return NextResponse.json({ error: window.error }, { status: 400 });
+    }
+
+    const table = params.get("table") ?? "houses";
+    if (table !== "houses" && table !== "members") {
+      return NextResponse.json({ error: "table must be houses or members" }, { status: 400 });
+    }
+
+    const report = await buildUsageReport(auth.supabase, window);
+    const filename = `usage_${table}_${report.from}_${report.to}.csv`;
+
+    if (table === "members") {
+      return csvResponse(
+        filename,
+        toCsv(
+          [
+            "member",
+            "house",
+            "year",
+            "nights",
+            "guest_nights",
+            "weekend_nights",
+            "holiday_nights",
+            "nights_as_guest",
+            "share",
+          ],
+          report.members.map((m) => [
+            m.memberName,
+            m.houseName,
+            m.year,
+            m.nights,
+            m.guestNights,
+            m.weekendNights,
+            m.holidayNights,
+            m.nightsAsGuest,
+            m.share.toFixed(4),
+          ])
+        )
+      );
+    }
+
+    const periodsByLabel = new Map(report.periods.map((p) => [p.label, p]));
+
+    return csvResponse(
+      filename,
+      toCsv(
+        [
+          "house",
+          "period",
+          "period_start",
+          "period_end",
+          "booked_nights",
+          "total_nights",
+          "usage_rate",
+          "peak_guests",
+          "avg_guests",
+          "max_guests",
+          "days_over_capacity",
+        ],
+        report.series.flatMap((s) =>
+          s.rows.map((r) => [
+            r.houseName,
+            r.period,
+            periodsByLabel.get(r.period)?.start,
+            periodsByLabel.get(r.period)?.end,
+            r.daysWithBookings,
+            r.totalDays,
+            r.usageRate.toFixed(4),
+            r.peakGuests,
+            r.averageGuests.toFixed(2),
+            s.maxGuests,
+            r.daysOverCapacity,
+          ])
+        )
+      )
+    );
+  } catch (e) {
+    console.error("Error in /api/usage/export/summary:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
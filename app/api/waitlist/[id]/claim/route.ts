@@ -0,0 +1,118 @@
+import { NextResponse } from "next/server";
+import { createBooking, failureBody } from "@/lib/bookingWrites";
+import { getCaller, supabaseAdminClient, supabaseServerClient } from "@/lib/supabaseServer";
+import { WAITLIST_COLUMNS, type WaitlistEntry } from "@/lib/waitlist";
+
+// Turn an open waitlist offer into a booking. Only the member it was offered to.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const entryId = Number(id);
+    const { accessToken } = (await req.json()) ?? {};
+
+    if (!accessToken) {
+      return NextResponse.json({ error: "Missing accessToken" }, { status: 400 });
+    }
+    if (!Number.isInteger(entryId)) {
+      return NextResponse.json({ error: "Invalid waitlist id" }, { status: 400 });
+    }
+
+    const supabase = supabaseServerClient(accessToken);
+    const caller = await getCaller(supabase);
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const admin = supabaseAdminClient();
+
+    const { data, error: fetchErr } = await admin
+      .from("waitlist_entries")
+      .select(WAITLIST_COLUMNS)
+      .eq("id", entryId)
+      .maybeSingle();
+
+    if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 });
+
+    const entry = data as WaitlistEntry | null;
+    if (!entry || entry.user_id !== caller.userId) {
+      return NextResponse.json({ error: "Waitlist entry not found." }, { status: 404 });
+    }
+    if (
+      entry.status !== "offered" ||
+      !entry.offer_expires_at ||
+      new Date(entry.offer_expires_at) < new Date()
+    ) {
+      return NextResponse.json(
+        { error: "There's no open offer for these dates right now." },
+        { status: 409 }
+      );
+    }
+
+    // Take the offer before booking, so a double submit or a second tab can't
+    // turn one offer into two bookings
+    const { data: claimed, error: claimErr } = await admin
+      .from("waitlist_entries")
+      .update({ status: "claimed" })
+      .eq("id", entryId)
+      .eq("status", "offered")
+      .select("id")
+      .maybeSingle();
+
+    if (claimErr) return NextResponse.json({ error: claimErr.message }, { status: 500 });
+    if (!claimed) {
+      return NextResponse.json(
+        { error: "There's no open offer for these dates right now." },
+        { status: 409 }
+      );
+    }
+
+    // Hands the offer back if the booking doesn't go through
+    const releaseClaim = async () => {
+      const { error } = await admin
+        .from("waitlist_entries")
+        .update({ status: "offered" })
+        .eq("id", entryId)
+        .eq("status", "claimed")
+        .is("booking_id", null);
+      if (error) console.error(`Failed to release waitlist claim ${entryId}:`, error);
+    };
+
+    let result: Awaited<ReturnType<typeof createBooking>>;
+    try {
+      result = await createBooking(admin, caller, {
+        houseId: entry.house_id,
+        startDate: entry.start_date,
+        endDate: entry.end_date,
+        guestCount: entry.guest_count,
+        note: entry.note,
+      });
+    } catch (e) {
+      await releaseClaim();
+      throw e;
+    }
+
+    if (!result.ok) {
+      await releaseClaim();
+      return NextResponse.json(failureBody(result), { status: result.status });
+    }
+
+    const { error: updateErr } = await admin
+      .from("waitlist_entries")
+      .update({ booking_id: result.booking.id })
+      .eq("id", entryId);
+
+    if (updateErr) return NextResponse.json({ error: updateErr.message }, { status: 500 });
+
+    return NextResponse.json({
+      ok: true,
+      booking: result.booking,
+      ...(result.pendingApproval ? { pendingApproval: result.pendingApproval } : {}),
+    });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
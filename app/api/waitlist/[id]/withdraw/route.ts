@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { getCaller, supabaseAdminClient, supabaseServerClient } from "@/lib/supabaseServer";
+import { WAITLIST_COLUMNS, offerFreedDates, type WaitlistEntry } from "@/lib/waitlist";
+
+// Leave the waitlist. Passing on an open offer hands it to the next person.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const entryId = Number(id);
+    const { accessToken } = (await req.json()) ?? {};
+
+    if (!accessToken) {
+      return NextResponse.json({ error: "Missing accessToken" }, { status: 400 });
+    }
+    if (!Number.isInteger(entryId)) {
+      return NextResponse.json({ error: "Invalid waitlist id" }, { status: 400 });
+    }
+
+    const supabase = supabaseServerClient(accessToken);
+    const caller = await getCaller(supabase);
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const admin = supabaseAdminClient();
+
+    const { data, error: fetchErr } = await admin
+      .from("waitlist_entries")
+      .select(WAITLIST_COLUMNS)
+      .eq("id", entryId)
+      .maybeSingle();
+
+    if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 });
+
+    const entry = data as WaitlistEntry | null;
+    if (!entry || entry.user_id !== caller.userId) {
+      return NextResponse.json({ error: "Waitlist entry not found." }, { status: 404 });
+    }
+    if (entry.status !== "waiting" && entry.status !== "offered") {
+      return NextResponse.json({ error: "You're no longer on this waitlist." }, { status: 409 });
+    }
+
+    const { error: updateErr } = await admin
+      .from("waitlist_entries")
+      .update({ status: "withdrawn" })
+      .eq("id", entryId);
+
+    if (updateErr) return NextResponse.json({ error: updateErr.message }, { status: 500 });
+
+    if (entry.status === "offered") {
+      await offerFreedDates(admin, entry.house_id, entry.start_date, entry.end_date);
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
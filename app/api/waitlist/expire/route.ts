@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { isCronAuthorized } from "@/lib/cron";
+import { supabaseAdminClient } from "@/lib/supabaseServer";
+import { expireOffers } from "@/lib/waitlist";
+
+// GET /api/waitlist/expire -> hourly cron: lapse unclaimed offers and pass
+// the dates to the next person in line
+export async function GET(req: Request) {
+  try {
+    if (!isCronAuthorized(req)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const expired = await expireOffers(supabaseAdminClient());
+    return NextResponse.json({ ok: true, expired });
+  } catch (e) {
+    console.error("Error in /api/waitlist/expire:", e);
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error in /api/waitlist/expire" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { validateBooking } from "@/lib/bookingRules";
+import { loadPolicyContext } from "@/lib/housePolicies";
+import { getCaller, supabaseAdminClient, supabaseServerClient } from "@/lib/supabaseServer";
+import { WAITLIST_COLUMNS } from "@/lib/waitlist";
+
+// Join the waitlist for dates at a house
+export async function POST(req: Request) {
+  try {
+    const { accessToken, houseId, startDate, endDate, guestCount, note } =
+      (await req.json()) ?? {};
+
+    if (!accessToken) {
+      return NextResponse.json({ error: "Missing accessToken" }, { status: 400 });
+    }
+    if (!houseId) {
+      return NextResponse.json({ error: "Missing fields" }, { status: 400 });
+    }
+
+    const supabase = supabaseServerClient(accessToken);
+    const caller = await getCaller(supabase);
+    if (!caller) return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+
+    const admin = supabaseAdminClient();
+
+    const { data: house, error: houseErr } = await admin
+      .from("houses")
+      .select("id")
+      .eq("id", houseId)
+      .maybeSingle();
+
+    if (houseErr) return NextResponse.json({ error: houseErr.message }, { status: 500 });
+    if (!house) return NextResponse.json({ error: "House not found" }, { status: 404 });
+
+    // Same limits as booking, so a claimed offer can't be refused later
+    const input = { startDate, endDate, guestCount: Number(guestCount) };
+    const violation = validateBooking(
+      input,
+      await loadPolicyContext(admin, house.id, caller.userId)
+    );
+    if (violation) {
+      return NextResponse.json(
+        { error: violation.message, code: violation.code, field: violation.field },
+        { status: 422 }
+      );
+    }
+
+    const { data: existing, error: existingErr } = await admin
+      .from("waitlist_entries")
+      .select("id")
+      .eq("house_id", house.id)
+      .eq("user_id", caller.userId)
+      .in("status", ["waiting", "offered"])
+      .lt("start_date", input.endDate)
+      .gt("end_date", input.startDate)
+      .limit(1);
+
+    if (existingErr) return NextResponse.json({ error: existingErr.message }, { status: 500 });
+    if (existing?.length) {
+      return NextResponse.json(
+        { error: "You're already on the waitlist for these dates." },
+        { status: 409 }
+      );
+    }
+
+    const { data: entry, error: insertErr } = await admin
+      .from("waitlist_entries")
+      .insert({
+        house_id: house.id,
+        user_id: caller.userId,
+        start_date: input.startDate,
+        end_date: input.endDate,
+        guest_count: input.guestCount,
+        note: (note ?? "").toString().trim() || null,
+      })
+      .select(WAITLIST_COLUMNS)
+      .single();
+
+    if (insertErr) return NextResponse.json({ error: insertErr.message }, { status: 500 });
+
+    return NextResponse.json({ ok: true, entry });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
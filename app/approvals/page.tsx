@@ -0,0 +1,409 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import toast, { Toaster } from "react-hot-toast";
+import { overlapsPeak, type PeakPeriod } from "@/lib/peakPeriods";
+
+type House = { id: number; name: string };
+
+type PendingBooking = {
+  id: number;
+  house_id: number;
+  created_by: string;
+  guest_count: number;
+  start_date: string;
+  end_date: string;
+  note: string | null;
+};
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr + "T00:00:00").toLocaleDateString("en-US", {
+    month: "2-digit",
+    day: "2-digit",
+    year: "numeric",
+  });
+}
+
+export default function ApprovalsPage() {
+  const [loading, setLoading] = useState(true);
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const [houses, setHouses] = useState<House[]>([]);
+  const [pending, setPending] = useState<PendingBooking[]>([]);
+  const [namesById, setNamesById] = useState<Map<string, string>>(new Map());
+  const [peaks, setPeaks] = useState<PeakPeriod[]>([]);
+
+  const [reviewNotes, setReviewNotes] = useState<Record<number, string>>({});
+  const [reviewBusyId, setReviewBusyId] = useState<number | null>(null);
+
+  // New peak period form
+  const [peakHouseId, setPeakHouseId] = useState<number | "all">("all");
+  const [peakLabel, setPeakLabel] = useState("");
+  const [peakStart, setPeakStart] = useState("");
+  const [peakEnd, setPeakEnd] = useState("");
+  const [peakSaving, setPeakSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data: authData } = await supabase.auth.getUser();
+      if (!authData.user) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const { data: profile, error: profErr } = await supabase
+        .from("profiles")
+        .select("is_admin")
+        .eq("id", authData.user.id)
+        .maybeSingle();
+
+      if (profErr || !profile?.is_admin) {
+        if (profErr) toast.error(profErr.message);
+        setIsAdmin(false);
+        setLoading(false);
+        return;
+      }
+      setIsAdmin(true);
+
+      const [houseRes, bookingRes, peakRes] = await Promise.all([
+        supabase.from("houses").select("id,name").order("name", { ascending: true }),
+        supabase
+          .from("bookings")
+          .select("id,house_id,created_by,guest_count,start_date,end_date,note")
+          .eq("status", "pending")
+          .order("start_date", { ascending: true }),
+        supabase
+          .from("peak_periods")
+          .select("id,house_id,label,start_date,end_date")
+          .order("start_date", { ascending: true }),
+      ]);
+
+      const err = houseRes.error ?? bookingRes.error ?? peakRes.error;
+      if (err) {
+        toast.error(err.message);
+        setLoading(false);
+        return;
+      }
+
+      const bookings = (bookingRes.data ?? []) as PendingBooking[];
+      const userIds = Array.from(new Set(bookings.map((b) => b.created_by)));
+      const names = new Map<string, string>();
+
+      if (userIds.length) {
+        const { data: profileRows, error: namesErr } = await supabase
+          .from("profiles")
+          .select("id,name,email")
+          .in("id", userIds);
+        if (namesErr) toast.error(namesErr.message);
+        (profileRows ?? []).forEach((p) => names.set(p.id, p.name || p.email || "Unknown"));
+      }
+
+      setHouses((houseRes.data ?? []) as House[]);
+      setPending(bookings);
+      setNamesById(names);
+      setPeaks((peakRes.data ?? []) as PeakPeriod[]);
+      setLoading(false);
+    };
+
+    load();
+  }, [refreshKey]);
+
+  const houseName = (houseId: number | null) =>
+    houseId === null ? "All houses" : houses.find((h) => h.id === houseId)?.name ?? "House";
+
+  // -------------------------------
+  // APPROVE / REJECT
+  // -------------------------------
+  const review = async (bookingId: number, decision: "approve" | "reject") => {
+    if (reviewBusyId !== null) return;
+    setReviewBusyId(bookingId);
+
+    try {
+      const session = (await supabase.auth.getSession()).data.session;
+      const accessToken = session?.access_token;
+      if (!accessToken) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const res = await fetch(`/api/bookings/${bookingId}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accessToken, decision, note: reviewNotes[bookingId] ?? "" }),
+      });
+      const body = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        toast.error(body?.error ?? "Review failed");
+        return;
+      }
+
+      toast.success(decision === "approve" ? "Booking approved." : "Booking rejected.");
+      setRefreshKey((k) => k + 1);
+    } finally {
+      setReviewBusyId(null);
+    }
+  };
+
+  // -------------------------------
+  // PEAK PERIODS
+  // -------------------------------
+  const addPeakPeriod = async () => {
+    if (peakSaving) return;
+    if (!peakLabel.trim() || !peakStart || !peakEnd) {
+      toast.error("Label, start and end are required.");
+      return;
+    }
+    if (peakEnd <= peakStart) {
+      toast.error("End must be after start.");
+      return;
+    }
+
+    setPeakSaving(true);
+    try {
+      const { data: authData } = await supabase.auth.getUser();
+      const { error } = await supabase.from("peak_periods").insert({
+        house_id: peakHouseId === "all" ? null : peakHouseId,
+        label: peakLabel.trim(),
+        start_date: peakStart,
+        end_date: peakEnd,
+        created_by: authData.user?.id,
+      });
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success("Peak period added.");
+      setPeakLabel("");
+      setPeakStart("");
+      setPeakEnd("");
+      setRefreshKey((k) => k + 1);
+    } finally {
+      setPeakSaving(false);
+    }
+  };
+
+  const deletePeakPeriod = async (peak: PeakPeriod) => {
+    if (!window.confirm(`Remove "${peak.label}"? Bookings already pending stay pending.`)) return;
+
+    const { error } = await supabase.from("peak_periods").delete().eq("id", peak.id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    toast.success("Peak period removed.");
+    setRefreshKey((k) => k + 1);
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-screen p-6 bg-white">
+        <Toaster />
+        <div className="max-w-4xl mx-auto">
+          <p className="text-slate-700">Loading approvals…</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (isAdmin === false) {
+    return (
+      <main className="min-h-screen p-6 bg-white">
+        <Toaster />
+        <div className="max-w-4xl mx-auto">
+          <h1 className="text-2xl font-bold text-slate-900">Approvals (admin only)</h1>
+          <p className="mt-2 text-slate-700">You must be an admin to review bookings.</p>
+          <div className="mt-4">
+            <Link
+              href="/calendar"
+              className="text-sm font-semibold text-[#064789] hover:underline"
+            >
+              Back to calendar
+            </Link>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-6 bg-white">
+      <Toaster />
+      <div className="max-w-4xl mx-auto">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-4">
+          <div>
+            <h1 className="text-3xl font-extrabold tracking-tight text-slate-900">Approvals</h1>
+            <p className="mt-2 text-sm text-slate-600">
+              Stays that touch a peak period wait here until an admin approves them.
+            </p>
+          </div>
+
+          <Link
+            href="/calendar"
+            className="text-sm font-semibold text-[#064789] hover:underline"
+          >
+            Back to calendar
+          </Link>
+        </div>
+
+        <div className="surface p-6">
+          <h2 className="text-xl font-semibold text-slate-900">Pending requests</h2>
+
+          {pending.length === 0 ? (
+            <p className="mt-4 text-sm text-slate-700">Nothing waiting for approval.</p>
+          ) : (
+            <ul className="mt-4 space-y-3">
+              {pending.map((b) => {
+                const peak = overlapsPeak(peaks, b.house_id, b.start_date, b.end_date);
+                return (
+                  <li key={b.id} className="rounded-xl border border-slate-200 px-4 py-3">
+                    <div className="flex flex-col sm:flex-row sm:justify-between gap-2">
+                      <div className="text-sm">
+                        <div className="font-semibold text-slate-900">
+                          {namesById.get(b.created_by) ?? "Unknown"} · {houseName(b.house_id)}
+                        </div>
+                        <div className="text-slate-600">
+                          {formatDate(b.start_date)} – {formatDate(b.end_date)} ·{" "}
+                          {b.guest_count} guest{b.guest_count === 1 ? "" : "s"}
+                        </div>
+                        {peak && <div className="text-amber-800">{peak.label}</div>}
+                        {b.note && (
+                          <div className="mt-1 text-slate-600 whitespace-pre-wrap">{b.note}</div>
+                        )}
+                      </div>
+
+                      <div className="flex items-start gap-2">
+                        <button
+                          className="rounded-lg bg-[#679436] px-3 py-1.5 text-xs font-semibold text-white hover:brightness-95 disabled:opacity-60"
+                          disabled={reviewBusyId !== null}
+                          onClick={() => review(b.id, "approve")}
+                        >
+                          Approve
+                        </button>
+                        <button
+                          className="rounded-lg bg-red-600 px-3 py-1.5 text-xs font-semibold text-white hover:brightness-110 disabled:opacity-60"
+                          disabled={reviewBusyId !== null}
+                          onClick={() => review(b.id, "reject")}
+                        >
+                          Reject
+                        </button>
+                      </div>
+                    </div>
+
+                    <input
+                      className="mt-3 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                      placeholder="Note to the requester (optional)"
+                      value={reviewNotes[b.id] ?? ""}
+                      onChange={(e) =>
+                        setReviewNotes((n) => ({ ...n, [b.id]: e.target.value }))
+                      }
+                    />
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <div className="surface p-6 mt-6">
+          <h2 className="text-xl font-semibold text-slate-900">Peak periods</h2>
+          <p className="mt-1 text-sm text-slate-600">
+            Member bookings that overlap these dates need approval. Admin bookings don&apos;t.
+          </p>
+
+          {peaks.length === 0 ? (
+            <p className="mt-4 text-sm text-slate-700">No peak periods yet.</p>
+          ) : (
+            <ul className="mt-4 space-y-2">
+              {peaks.map((p) => (
+                <li
+                  key={p.id}
+                  className="flex items-center justify-between rounded-xl bg-slate-50 px-3 py-2 text-sm"
+                >
+                  <div>
+                    <span className="font-semibold text-slate-900">{p.label}</span>{" "}
+                    <span className="text-slate-600">
+                      · {houseName(p.house_id)} · {formatDate(p.start_date)} –{" "}
+                      {formatDate(p.end_date)}
+                    </span>
+                  </div>
+                  <button
+                    className="ml-3 rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50"
+                    onClick={() => deletePeakPeriod(p)}
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-slate-900">Label</label>
+              <input
+                className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                value={peakLabel}
+                onChange={(e) => setPeakLabel(e.target.value)}
+                placeholder="Fourth of July"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-900">House</label>
+              <select
+                className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                value={peakHouseId}
+                onChange={(e) =>
+                  setPeakHouseId(e.target.value === "all" ? "all" : Number(e.target.value))
+                }
+              >
+                <option value="all">All houses</option>
+                {houses.map((h) => (
+                  <option key={h.id} value={h.id}>
+                    {h.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-900">Start</label>
+              <input
+                type="date"
+                className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                value={peakStart}
+                onChange={(e) => setPeakStart(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-900">
+                End (first day after)
+              </label>
+              <input
+                type="date"
+                className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                value={peakEnd}
+                onChange={(e) => setPeakEnd(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="mt-6 flex justify-end">
+            <button
+              className="rounded-lg bg-[#427aa1] px-5 py-2.5 font-semibold text-white hover:brightness-105 disabled:opacity-60"
+              disabled={peakSaving}
+              onClick={addPeakPeriod}
+            >
+              {peakSaving ? "Adding..." : "Add peak period"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,15 +1,62 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { Fragment, useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
 import FullCalendar from "@fullcalendar/react";
-import type { DateSelectArg, EventClickArg, EventInput } from "@fullcalendar/core";
+import type {
+  DateSelectArg,
+  EventChangeArg,
+  EventClickArg,
+  EventInput,
+} from "@fullcalendar/core";
 import dayGridPlugin from "@fullcalendar/daygrid";
 import interactionPlugin from "@fullcalendar/interaction";
 import toast, { Toaster } from "react-hot-toast";
-
-type House = { id: number; name: string };
+import {
+  DEFAULT_POLICY,
+  describePolicy,
+  todayIso,
+  validateBooking,
+  type Blackout,
+  type BookingPolicy,
+} from "@/lib/bookingRules";
+import { loadHousePolicy } from "@/lib/housePolicies";
+import {
+  loadHouseRooms,
+  loadRoomClaims,
+  roomNights,
+  roomBeds,
+  type HouseRoom,
+  type RoomClaim,
+} from "@/lib/houseRooms";
+import {
+  GUEST_KINDS,
+  countPeople,
+  loadGuestList,
+  type BookingGuest,
+  type GuestKind,
+  type StoredBookingGuest,
+} from "@/lib/bookingGuests";
+import {
+  BOOKING_EVENT_COLUMNS,
+  bookingEventLabel,
+  describeBookingChanges,
+  type BookingEvent,
+} from "@/lib/bookingEvents";
+import { addDays, dailyHeadcount, daysBetween, parseUtcDate } from "@/lib/usage";
+import { overlapsPeak, type PeakPeriod } from "@/lib/peakPeriods";
+import {
+  SERIES_FREQUENCIES,
+  checkOccurrences,
+  expandSeries,
+  seriesRuleError,
+  type SeriesFrequency,
+  type SeriesRule,
+  type SeriesScope,
+} from "@/lib/bookingSeries";
+
+type House = { id: number; name: string; max_guests: number | null };
 
 type Booking = {
   id: number;
@@ -18,10 +65,16 @@ type Booking = {
   guest_count: number;
   start_date: string; // YYYY-MM-DD
   end_date: string; // YYYY-MM-DD (exclusive)
-  status: "active" | "cancelled";
+  status: "active" | "pending" | "rejected" | "cancelled" | "archived";
   note?: string | null;
+  series_id?: number | null;
+  reservation_id?: number | null;
+  version: number;
 };
 
+// Days on screen; `to` is exclusive like a booking's end_date
+type DateRange = { from: string; to: string };
+
 type Profile = {
   id: string;
   name: string | null;
@@ -30,12 +83,41 @@ type Profile = {
   is_admin?: boolean | null;
 };
 
+// One row per stay; the houses of a multi-house reservation share a row
 type MyUpcomingBooking = {
   id: number;
-  houseId: number;
+  houseIds: number[];
+  reservationId: number | null;
   start: string; // YYYY-MM-DD
   end: string;   // YYYY-MM-DD
   guestCount: number;
+  pending: boolean;
+  hostName: string | null; // set when I'm on someone else's guest list
+};
+
+// What an edit or cancel from the booking modal applies to
+type BookingScope = SeriesScope | "reservation";
+
+// The stored side of a stale edit (see /api/bookings/[id])
+type StoredBooking = Pick<
+  Booking,
+  "status" | "start_date" | "end_date" | "guest_count" | "note" | "version"
+>;
+
+// A bookings row as it arrives over realtime
+type RealtimeBooking = Booking & {
+  booked_by?: string | null;
+  cancelled_by?: string | null;
+};
+
+type MyWaitlistEntry = {
+  id: number;
+  house_id: number;
+  start_date: string;
+  end_date: string;
+  guest_count: number;
+  status: "waiting" | "offered";
+  offer_expires_at: string | null;
 };
 
 const USER_COLORS = [
@@ -55,6 +137,43 @@ function pickColorForUser(userId: string) {
   return USER_COLORS[Math.abs(hash) % USER_COLORS.length];
 }
 
+// Thrown by bookingApi. Keeps the response body for errors that carry more
+// than a message, like the stored booking on a stale edit.
+class BookingApiError extends Error {
+  body: Record<string, unknown>;
+
+  constructor(message: string, body: Record<string, unknown>) {
+    super(message);
+    this.body = body;
+  }
+}
+
+// Calls one of the /api/bookings routes with the current session token.
+// Throws with the server's error message so modals can show it as-is.
+async function bookingApi(
+  path: string,
+  method: "POST" | "PATCH",
+  payload: Record<string, unknown>
+) {
+  const session = (await supabase.auth.getSession()).data.session;
+  const accessToken = session?.access_token;
+  if (!accessToken) throw new Error("Missing access token");
+
+  const res = await fetch(path, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...payload, accessToken }),
+  });
+
+  const body = await res.json().catch(() => ({}));
+
+  if (!res.ok) {
+    throw new BookingApiError(body?.error ?? "Request failed", body ?? {});
+  }
+
+  return body;
+}
+
 function formatDate(dateStr: string) {
   return new Date(dateStr + "T00:00:00").toLocaleDateString("en-US", {
     month: "2-digit",
@@ -63,6 +182,110 @@ function formatDate(dateStr: string) {
   });
 }
 
+// "Jun 3–7", or "Jun 30–Jul 2" across a month end
+function formatShortRange(startStr: string, endStr: string) {
+  const opts = { month: "short", day: "numeric", timeZone: "UTC" } as const;
+  const start = parseUtcDate(startStr);
+  const end = parseUtcDate(endStr);
+  const to =
+    start.getUTCMonth() === end.getUTCMonth()
+      ? String(end.getUTCDate())
+      : end.toLocaleDateString("en-US", opts);
+  return `${start.toLocaleDateString("en-US", opts)}–${to}`;
+}
+
+// Who booked (or cancelled) the stay, which is an admin when done on
+// someone's behalf
+function bookingActor(row: RealtimeBooking) {
+  return row.status === "cancelled"
+    ? row.cancelled_by ?? row.created_by
+    : row.booked_by ?? row.created_by;
+}
+
+// Toasts for bookings made or cancelled in other sessions. A series or
+// reservation arrives as several rows and gets one toast.
+async function announceBookingChanges(rows: RealtimeBooking[]) {
+  const groups = new Map<string, RealtimeBooking[]>();
+  rows.forEach((r) => {
+    const key = `${r.status === "cancelled" ? "c" : "b"}-${
+      r.series_id ? `s${r.series_id}` : r.reservation_id ? `r${r.reservation_id}` : r.id
+    }`;
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  });
+
+  const userIds = Array.from(new Set(rows.map(bookingActor)));
+  const houseIds = Array.from(new Set(rows.map((r) => r.house_id)));
+  const [{ data: profileRows }, { data: houseRows }] = await Promise.all([
+    supabase.from("profiles").select("id,name,email").in("id", userIds),
+    supabase.from("houses").select("id,name").in("id", houseIds),
+  ]);
+  const names = new Map((profileRows ?? []).map((p) => [p.id, p.name || p.email || "Someone"]));
+  const houseNames = new Map((houseRows ?? []).map((h) => [h.id, h.name as string]));
+
+  groups.forEach((group) => {
+    const first = group[0];
+    const cancelled = first.status === "cancelled";
+    const who = names.get(bookingActor(first)) ?? "Someone";
+    const where = Array.from(
+      new Set(group.map((r) => houseNames.get(r.house_id) ?? "a house"))
+    ).join(" + ");
+    const more = first.series_id && group.length > 1 ? ` (${group.length} stays)` : "";
+    toast(
+      `${who} just ${cancelled ? "cancelled" : "booked"} ${where} ${formatShortRange(
+        first.start_date,
+        first.end_date
+      )}${more}`
+    );
+  });
+}
+
+const BOOKING_COLUMNS =
+  "id,house_id,created_by,guest_count,start_date,end_date,status,note,series_id,reservation_id,version";
+
+async function loadProfiles(userIds: string[]) {
+  if (!userIds.length) return [];
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id,name,email,color")
+    .in("id", userIds);
+
+  if (error) throw new Error(error.message);
+  return (data ?? []) as Profile[];
+}
+
+type ShownBooking = {
+  start: string;
+  end: string;
+  guestCount: number;
+  note: string;
+  version: number;
+};
+
+// Whether another session changed the booking the view modal shows
+function differsFromRemote(shown: ShownBooking, row: StoredBooking) {
+  return (
+    row.version !== shown.version ||
+    (row.status !== "active" && row.status !== "pending") ||
+    row.start_date !== shown.start.slice(0, 10) ||
+    row.end_date !== shown.end.slice(0, 10) ||
+    row.guest_count !== shown.guestCount ||
+    (row.note ?? "").trim() !== shown.note
+  );
+}
+
+// The view modal's booking, updated to what's stored now
+function withStored<T extends ShownBooking>(shown: T, row: StoredBooking): T {
+  return {
+    ...shown,
+    start: row.start_date,
+    end: row.end_date,
+    guestCount: row.guest_count,
+    note: (row.note ?? "").trim(),
+    version: row.version,
+  };
+}
+
 // HOUSE NAME COLOR (defined ONCE)
 function houseTextStyle(houseName: string) {
   const n = (houseName || "").toLowerCase();
@@ -72,15 +295,231 @@ function houseTextStyle(houseName: string) {
   return { color: "#0f172a" };
 }
 
+const TIMELINE_DAYS = 28;
+
+// Monday on or before the date, so weekends stay in the same columns
+function weekStartOf(dateStr: string) {
+  return addDays(dateStr, -((parseUtcDate(dateStr).getUTCDay() + 6) % 7));
+}
+
+// One row per house, one column per day. Stays that overlap within a house
+// stack into extra lanes. Dragging across a row's days books that house.
+function HouseTimeline({
+  houses,
+  events,
+  onSelectDates,
+  onBookingClick,
+  onRangeChange,
+}: {
+  houses: House[];
+  events: EventInput[]; // booking events only, with extendedProps.houseId
+  onSelectDates: (houseId: number, start: string, end: string) => void;
+  onBookingClick: (event: EventInput) => void;
+  onRangeChange: (range: DateRange) => void;
+}) {
+  const [from, setFrom] = useState(() => weekStartOf(todayIso()));
+  const [drag, setDrag] = useState<{ houseId: number; anchor: number; to: number } | null>(
+    null
+  );
+
+  const to = addDays(from, TIMELINE_DAYS);
+  const today = todayIso();
+  const days = Array.from({ length: TIMELINE_DAYS }, (_, i) => addDays(from, i));
+
+  useEffect(() => {
+    onRangeChange({ from, to });
+  }, [from, to, onRangeChange]);
+
+  const rows = useMemo(() => {
+    const placed = houses.map((house) => {
+      const laneEnds: string[] = [];
+      const bars = events
+        .filter(
+          (e) =>
+            e.extendedProps?.houseId === house.id &&
+            String(e.start) < to &&
+            String(e.end) > from
+        )
+        .sort((a, b) => String(a.start).localeCompare(String(b.start)))
+        .map((e) => {
+          const start = String(e.start);
+          const end = String(e.end);
+          let lane = laneEnds.findIndex((laneEnd) => laneEnd <= start);
+          if (lane === -1) lane = laneEnds.length;
+          laneEnds[lane] = end;
+          return {
+            event: e,
+            lane,
+            first: Math.max(0, daysBetween(from, start)),
+            last: Math.min(TIMELINE_DAYS, daysBetween(from, end)),
+          };
+        });
+
+      return { house, bars, lanes: Math.max(1, laneEnds.length) };
+    });
+
+    // Row 1 is the day header; each house then takes one grid row per lane
+    return placed.map((row, i) => ({
+      ...row,
+      gridRow: 2 + placed.slice(0, i).reduce((sum, r) => sum + r.lanes, 0),
+    }));
+  }, [houses, events, from, to]);
+
+  const finishDrag = () => {
+    if (!drag) return;
+    const first = Math.min(drag.anchor, drag.to);
+    const last = Math.max(drag.anchor, drag.to);
+    setDrag(null);
+    onSelectDates(drag.houseId, days[first], addDays(days[last], 1));
+  };
+
+  const isWeekend = (dateStr: string) => {
+    const day = parseUtcDate(dateStr).getUTCDay();
+    return day === 0 || day === 6;
+  };
+
+  const navButton =
+    "rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm font-semibold text-slate-700 hover:bg-slate-50";
+
+  return (
+    <div>
+      <div className="mb-3 flex items-center justify-between gap-3">
+        <div className="text-lg font-semibold text-slate-900">
+          {formatDate(from)} – {formatDate(addDays(to, -1))}
+        </div>
+        <div className="flex gap-2">
+          <button className={navButton} onClick={() => setFrom(addDays(from, -7))}>
+            ‹
+          </button>
+          <button className={navButton} onClick={() => setFrom(weekStartOf(todayIso()))}>
+            Today
+          </button>
+          <button className={navButton} onClick={() => setFrom(addDays(from, 7))}>
+            ›
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div
+          className="grid min-w-[48rem] select-none text-xs"
+          style={{
+            gridTemplateColumns: `8rem repeat(${TIMELINE_DAYS}, minmax(1.5rem, 1fr))`,
+            gridAutoRows: "minmax(2rem, auto)",
+          }}
+          onMouseLeave={() => setDrag(null)}
+        >
+          {days.map((d, i) => (
+            <div
+              key={d}
+              style={{ gridRow: 1, gridColumn: i + 2 }}
+              className={`py-1 text-center ${isWeekend(d) ? "bg-slate-50" : ""} ${
+                d === today ? "font-bold text-[#064789]" : "text-slate-500"
+              }`}
+            >
+              <div>
+                {parseUtcDate(d).toLocaleDateString("en-US", { weekday: "narrow", timeZone: "UTC" })}
+              </div>
+              <div>{Number(d.slice(8))}</div>
+            </div>
+          ))}
+
+          {rows.map(({ house, bars, gridRow, lanes }) => (
+            <Fragment key={house.id}>
+              <div
+                style={{ gridRow: `${gridRow} / span ${lanes}`, gridColumn: 1 }}
+                className="truncate border-t border-slate-100 py-2 pr-2 text-sm font-semibold"
+              >
+                <span style={houseTextStyle(house.name)}>{house.name}</span>
+              </div>
+
+              {days.map((d, i) => {
+                const selected =
+                  drag?.houseId === house.id &&
+                  i >= Math.min(drag.anchor, drag.to) &&
+                  i <= Math.max(drag.anchor, drag.to);
+                return (
+                  <div
+                    key={d}
+                    style={{ gridRow: `${gridRow} / span ${lanes}`, gridColumn: i + 2 }}
+                    className={`cursor-pointer border-l border-t border-slate-100 ${
+                      selected ? "bg-[#427aa1]/20" : isWeekend(d) ? "bg-slate-50" : ""
+                    }`}
+                    onMouseDown={() => setDrag({ houseId: house.id, anchor: i, to: i })}
+                    onMouseEnter={() => {
+                      if (drag?.houseId === house.id) setDrag({ ...drag, to: i });
+                    }}
+                    onMouseUp={finishDrag}
+                  />
+                );
+              })}
+
+              {bars.map(({ event, lane, first, last }) => {
+                const pending = (event.classNames as string[] | undefined)?.includes(
+                  "pending-booking-event"
+                );
+                return (
+                  <button
+                    key={String(event.id)}
+                    style={{
+                      gridRow: gridRow + lane,
+                      gridColumn: `${first + 2} / ${last + 2}`,
+                      backgroundColor: event.backgroundColor,
+                      borderColor: event.borderColor,
+                    }}
+                    className={`z-10 mx-px my-1 truncate rounded border px-1.5 text-left font-semibold text-white ${
+                      pending ? "border-dashed opacity-75" : ""
+                    }`}
+                    title={(event.tooltip as string | undefined) ?? event.title}
+                    onClick={() => onBookingClick(event)}
+                  >
+                    {event.title}
+                  </button>
+                );
+              })}
+            </Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function CalendarPage() {
   const [houses, setHouses] = useState<House[]>([]);
+  // Still the house new bookings go to (and whose policy applies) while
+  // every house is on screen
   const [selectedHouseId, setSelectedHouseId] = useState<number | null>(null);
-  const [events, setEvents] = useState<EventInput[]>([]);
+  const [showAllHouses, setShowAllHouses] = useState(false);
+  const [calendarView, setCalendarView] = useState<"month" | "timeline">("month");
+  const [loadedBookings, setLoadedBookings] = useState<Booking[]>([]);
+  // Names and colors of whoever made the loaded bookings
+  const [bookingProfiles, setBookingProfiles] = useState<Map<string, Profile>>(new Map());
+  const [peakPeriods, setPeakPeriods] = useState<PeakPeriod[]>([]);
+  const [policy, setPolicy] = useState<BookingPolicy>(DEFAULT_POLICY);
+  const [blackouts, setBlackouts] = useState<Blackout[]>([]);
   const [refreshKey, setRefreshKey] = useState(0);
+  // What the calendar or timeline shows, so changes made in other sessions
+  // only refetch those days
+  const [visibleRange, setVisibleRange] = useState<DateRange | null>(null);
+  // Bookings other sessions changed in the latest burst
+  const [remoteChanges, setRemoteChanges] = useState<{ ids: number[] } | null>(null);
+  const handledRemoteChanges = useRef<{ ids: number[] } | null>(null);
+
+  const overlayAll = showAllHouses || calendarView === "timeline";
+
+  // The checks in the modals are about the selected house only, even while
+  // every house's bookings are loaded
+  const houseBookings = useMemo(
+    () => loadedBookings.filter((b) => b.house_id === selectedHouseId),
+    [loadedBookings, selectedHouseId]
+  );
 
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
   const [myUpcoming, setMyUpcoming] = useState<MyUpcomingBooking[]>([]);
+  const [myWaitlist, setMyWaitlist] = useState<MyWaitlistEntry[]>([]);
+  const [waitlistBusyId, setWaitlistBusyId] = useState<number | null>(null);
   const [upcomingBusyId, setUpcomingBusyId] = useState<number | null>(null);
 
   // Create Booking modal state
@@ -89,6 +528,15 @@ export default function CalendarPage() {
   const [pendingEnd, setPendingEnd] = useState<string | null>(null);
   const [guestCountInput, setGuestCountInput] = useState("2");
   const [noteInput, setNoteInput] = useState("");
+  const [bookForId, setBookForId] = useState(""); // admins: "" = themselves
+  const [repeatFrequency, setRepeatFrequency] = useState<SeriesFrequency | "">("");
+  const [repeatInterval, setRepeatInterval] = useState("1");
+  const [repeatEnds, setRepeatEnds] = useState<"count" | "until">("count");
+  const [repeatCount, setRepeatCount] = useState("4");
+  const [repeatUntil, setRepeatUntil] = useState("");
+  // Other houses booked for the same dates: house id -> guest count input
+  const [extraHouses, setExtraHouses] = useState<Record<number, string>>({});
+  const [members, setMembers] = useState<Profile[]>([]);
   const [saving, setSaving] = useState(false);
   const [modalError, setModalError] = useState<string | null>(null);
 
@@ -98,14 +546,50 @@ export default function CalendarPage() {
   const [viewError, setViewError] = useState<string | null>(null);
   const [viewBooking, setViewBooking] = useState<{
     bookingId: number;
+    houseId: number;
     title: string;
     start: string;
     end: string;
     guestCount: number;
     note: string;
     createdBy: string;
+    seriesId: number | null;
+    reservationId: number | null;
+    version: number;
   } | null>(null);
 
+  // Which occurrences of a recurring stay an edit or cancel applies to
+  const [applyScope, setApplyScope] = useState<BookingScope>("this");
+
+  // Latest version of a booking changed in another session, so the view
+  // modal can follow it (or flag it while you're editing)
+  const [remoteBooking, setRemoteBooking] = useState<RealtimeBooking | null>(null);
+
+  // What's stored now, after a save was rejected because someone else saved
+  // first; the modal compares it with what was loaded and what was typed
+  const [staleEdit, setStaleEdit] = useState<StoredBooking | null>(null);
+
+  // Rooms of the viewed booking's house, who holds them on its nights, and
+  // the rooms ticked in the picker
+  const [viewRooms, setViewRooms] = useState<HouseRoom[]>([]);
+  const [viewRoomClaims, setViewRoomClaims] = useState<RoomClaim[]>([]);
+  const [roomHolderNames, setRoomHolderNames] = useState<Map<string, string>>(new Map());
+  const [roomPicks, setRoomPicks] = useState<number[]>([]);
+  const [roomsBusy, setRoomsBusy] = useState(false);
+
+  // Guest list of the viewed booking, and the edits not saved yet
+  const [viewGuests, setViewGuests] = useState<StoredBookingGuest[]>([]);
+  const [guestDraft, setGuestDraft] = useState<BookingGuest[]>([]);
+  const [guestsBusy, setGuestsBusy] = useState(false);
+
+  // Change history shown in the view modal
+  const [viewHistory, setViewHistory] = useState<BookingEvent[]>([]);
+  const [historyNames, setHistoryNames] = useState<Map<string, string>>(new Map());
+
+  // Admin archive asks for a reason before it goes through
+  const [confirmingArchive, setConfirmingArchive] = useState(false);
+  const [archiveReason, setArchiveReason] = useState("");
+
   // EDIT mode state for the view modal
   const [isEditingBooking, setIsEditingBooking] = useState(false);
   const [editStart, setEditStart] = useState("");
@@ -113,6 +597,25 @@ export default function CalendarPage() {
   const [editGuestCount, setEditGuestCount] = useState("");
   const [editNote, setEditNote] = useState("");
 
+  // A booking dragged or resized on the calendar, waiting for Save or Revert
+  const [pendingMove, setPendingMove] = useState<{
+    bookingId: number;
+    houseId: number;
+    createdBy: string;
+    seriesId: number | null;
+    version: number;
+    title: string;
+    guestCount: number;
+    note: string;
+    fromStart: string;
+    fromEnd: string;
+    start: string;
+    end: string;
+    revert: () => void;
+  } | null>(null);
+  const [moveBusy, setMoveBusy] = useState(false);
+  const [moveError, setMoveError] = useState<string | null>(null);
+
   // First Login / Name Required modal state
   const [nameModalOpen, setNameModalOpen] = useState(false);
   const [nameInput, setNameInput] = useState("");
@@ -120,7 +623,7 @@ export default function CalendarPage() {
   const [nameError, setNameError] = useState<string | null>(null);
   const [nameUser, setNameUser] = useState<{ id: string; email: string | null } | null>(null);
 
-  const calendarRef = useRef<FullCalendar | null>(null);
+  const calendarRef = useRef<FullCalendar>(null);
   const guestsInputRef = useRef<HTMLInputElement | null>(null);
 
   // -------------------------------
@@ -220,7 +723,7 @@ export default function CalendarPage() {
 
       const { data, error } = await supabase
         .from("houses")
-        .select("id,name")
+        .select("id,name,max_guests")
         .order("name", { ascending: true });
 
       if (error) {
@@ -239,6 +742,29 @@ export default function CalendarPage() {
     load();
   }, [refreshKey]);
 
+  // -------------------------------
+  // MEMBERS TO BOOK FOR (ADMINS) OR LINK ON A GUEST LIST
+  // -------------------------------
+  useEffect(() => {
+    if (!currentUserId) return;
+
+    const loadMembers = async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id,name,email,color")
+        .order("name", { ascending: true });
+
+      if (error) {
+        console.warn("Failed to load members", error.message);
+        return;
+      }
+
+      setMembers((data ?? []) as Profile[]);
+    };
+
+    loadMembers();
+  }, [currentUserId]);
+
   // -------------------------------
   // LOAD *MY* UPCOMING BOOKINGS
   // -------------------------------
@@ -250,31 +776,197 @@ export default function CalendarPage() {
 
       const { data, error } = await supabase
         .from("bookings")
-        .select("id, house_id, start_date, end_date, guest_count, status")
+        .select("id, house_id, start_date, end_date, guest_count, status, reservation_id")
         .eq("created_by", currentUserId)
-        .eq("status", "active")
+        .in("status", ["active", "pending"])
         .gte("end_date", today)
         .order("start_date", { ascending: true })
-        .limit(5);
+        .limit(15);
 
       if (error) {
         console.warn("Failed to load upcoming bookings", error.message);
         return;
       }
 
-      const list: MyUpcomingBooking[] = (data ?? []).map((row: any) => ({
-        id: row.id,
-        houseId: row.house_id,
-        start: row.start_date,
-        end: row.end_date,
-        guestCount: row.guest_count,
-      }));
+      const list: MyUpcomingBooking[] = [];
+      (data ?? []).forEach((row) => {
+        const group = row.reservation_id
+          ? list.find((b) => b.reservationId === row.reservation_id)
+          : null;
+        if (group) {
+          group.houseIds.push(row.house_id);
+          group.guestCount += row.guest_count;
+          group.pending = group.pending || row.status === "pending";
+          return;
+        }
+        list.push({
+          id: row.id,
+          houseIds: [row.house_id],
+          reservationId: row.reservation_id,
+          start: row.start_date,
+          end: row.end_date,
+          guestCount: row.guest_count,
+          pending: row.status === "pending",
+          hostName: null,
+        });
+      });
+
+      // Stays I'm named on as a guest. Cancelling them is up to whoever booked.
+      const { data: guestRows, error: guestErr } = await supabase
+        .from("booking_guests")
+        .select(
+          "booking_id,bookings!inner(id,house_id,created_by,start_date,end_date,guest_count,status)"
+        )
+        .eq("profile_id", currentUserId)
+        .neq("bookings.created_by", currentUserId)
+        .in("bookings.status", ["active", "pending"])
+        .gte("bookings.end_date", today);
+
+      if (guestErr) {
+        console.warn("Failed to load stays you're a guest on", guestErr.message);
+      } else {
+        const stays = (guestRows ?? []).map(
+          (r) => (r as unknown as { bookings: Booking }).bookings
+        );
+        const hostIds = Array.from(new Set(stays.map((b) => b.created_by)));
+        const hostNames = new Map<string, string>();
+        if (hostIds.length) {
+          const { data: hostRows } = await supabase
+            .from("profiles")
+            .select("id,name,email")
+            .in("id", hostIds);
+          (hostRows ?? []).forEach((p) => hostNames.set(p.id, p.name || p.email || "Unknown"));
+        }
+
+        stays.forEach((b) =>
+          list.push({
+            id: b.id,
+            houseIds: [b.house_id],
+            reservationId: null,
+            start: b.start_date,
+            end: b.end_date,
+            guestCount: b.guest_count,
+            pending: b.status === "pending",
+            hostName: hostNames.get(b.created_by) ?? "Unknown",
+          })
+        );
+        list.sort((a, b) => a.start.localeCompare(b.start));
+      }
+
+      setMyUpcoming(list.slice(0, 5));
+
+      const { data: waitRows, error: waitErr } = await supabase
+        .from("waitlist_entries")
+        .select("id,house_id,start_date,end_date,guest_count,status,offer_expires_at")
+        .eq("user_id", currentUserId)
+        .in("status", ["waiting", "offered"])
+        .gte("end_date", today)
+        .order("start_date", { ascending: true });
+
+      if (waitErr) {
+        console.warn("Failed to load waitlist", waitErr.message);
+        return;
+      }
 
-      setMyUpcoming(list);
+      setMyWaitlist((waitRows ?? []) as MyWaitlistEntry[]);
     };
 
     loadMyUpcoming();
-  }, [currentUserId, refreshKey]);
+  }, [currentUserId, refreshKey, remoteChanges]);
+
+  // -------------------------------
+  // REALTIME: CHANGES FROM OTHER SESSIONS
+  // -------------------------------
+  useEffect(() => {
+    if (!currentUserId) return;
+
+    // A series or reservation lands as many rows at once; refetch and
+    // announce once per burst
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    let changedIds: number[] = [];
+    let toAnnounce: RealtimeBooking[] = [];
+
+    const scheduleRefetch = () => {
+      if (flushTimer) clearTimeout(flushTimer);
+      flushTimer = setTimeout(() => {
+        flushTimer = null;
+        setRemoteChanges({ ids: changedIds });
+        changedIds = [];
+        if (toAnnounce.length) {
+          announceBookingChanges(toAnnounce).catch(() => {});
+          toAnnounce = [];
+        }
+      }, 400);
+    };
+
+    const channel = supabase
+      .channel("calendar-changes")
+      .on("postgres_changes", { event: "*", schema: "public", table: "bookings" }, (payload) => {
+        if (payload.eventType === "DELETE") {
+          const id = (payload.old as { id?: number }).id;
+          if (id) changedIds.push(id);
+        } else {
+          const row = payload.new as RealtimeBooking;
+          changedIds.push(row.id);
+          setRemoteBooking(row);
+
+          const announce =
+            payload.eventType === "INSERT"
+              ? row.status === "active" || row.status === "pending"
+              : row.status === "cancelled";
+          if (announce && bookingActor(row) !== currentUserId) toAnnounce.push(row);
+        }
+        scheduleRefetch();
+      })
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "profiles" }, (payload) => {
+        // A renamed or recolored member; patch them in place
+        const { id, name, email, color } = payload.new as Profile;
+        const patch = (p: Profile) => ({ ...p, name, email, color });
+        setBookingProfiles((prev) =>
+          prev.has(id) ? new Map(prev).set(id, patch(prev.get(id)!)) : prev
+        );
+        setMembers((prev) => prev.map((m) => (m.id === id ? patch(m) : m)));
+      })
+      .subscribe();
+
+    return () => {
+      if (flushTimer) clearTimeout(flushTimer);
+      supabase.removeChannel(channel);
+    };
+  }, [currentUserId]);
+
+  // -------------------------------
+  // LOAD PEAK PERIODS AND HOUSE POLICY
+  // -------------------------------
+  useEffect(() => {
+    const loadPolicy = async () => {
+      if (!selectedHouseId) return;
+
+      const { data: peakRows, error: peakErr } = await supabase
+        .from("peak_periods")
+        .select("id,house_id,label,start_date,end_date")
+        .or(`house_id.is.null,house_id.eq.${selectedHouseId}`);
+
+      if (peakErr) {
+        toast.error(peakErr.message);
+        return;
+      }
+
+      let housePolicy: Awaited<ReturnType<typeof loadHousePolicy>>;
+      try {
+        housePolicy = await loadHousePolicy(supabase, selectedHouseId);
+      } catch (e) {
+        toast.error(e instanceof Error ? e.message : "Could not load house policy");
+        return;
+      }
+
+      setPeakPeriods((peakRows ?? []) as PeakPeriod[]);
+      setPolicy(housePolicy.policy);
+      setBlackouts(housePolicy.blackouts);
+    };
+
+    loadPolicy();
+  }, [selectedHouseId, refreshKey]);
 
   // -------------------------------
   // LOAD BOOKINGS
@@ -283,11 +975,13 @@ export default function CalendarPage() {
     const loadBookings = async () => {
       if (!selectedHouseId) return;
 
-      const { data: bookingRows, error: bookingErr } = await supabase
+      let bookingQuery = supabase
         .from("bookings")
-        .select("id,house_id,created_by,guest_count,start_date,end_date,status,note")
-        .eq("house_id", selectedHouseId)
-        .eq("status", "active");
+        .select(BOOKING_COLUMNS)
+        .in("status", ["active", "pending"]);
+      if (!overlayAll) bookingQuery = bookingQuery.eq("house_id", selectedHouseId);
+
+      const { data: bookingRows, error: bookingErr } = await bookingQuery;
 
       if (bookingErr) {
         toast.error(bookingErr.message);
@@ -296,57 +990,135 @@ export default function CalendarPage() {
 
       const bookings = (bookingRows ?? []) as Booking[];
 
-      const userIds = Array.from(new Set(bookings.map((b) => b.created_by)));
-      const profilesById = new Map<string, Profile>();
+      let profiles: Profile[];
+      try {
+        profiles = await loadProfiles(Array.from(new Set(bookings.map((b) => b.created_by))));
+      } catch (e) {
+        toast.error(e instanceof Error ? e.message : "Could not load members");
+        return;
+      }
 
-      if (userIds.length) {
-        const { data: profileRows, error: profErr } = await supabase
-          .from("profiles")
-          .select("id,name,email,color")
-          .in("id", userIds);
+      setLoadedBookings(bookings);
+      setBookingProfiles(new Map(profiles.map((p) => [p.id, p])));
+    };
 
-        if (profErr) {
-          toast.error(profErr.message);
-          return;
-        }
+    loadBookings();
+  }, [selectedHouseId, overlayAll, refreshKey]);
 
-        (profileRows ?? []).forEach((p: any) => {
-          profilesById.set(p.id, p as Profile);
-        });
+  // -------------------------------
+  // REFETCH WHAT OTHER SESSIONS CHANGED
+  // -------------------------------
+  useEffect(() => {
+    if (!remoteChanges || handledRemoteChanges.current === remoteChanges) return;
+    if (!selectedHouseId) return;
+    handledRemoteChanges.current = remoteChanges;
+
+    const refetch = async () => {
+      const { ids } = remoteChanges;
+      // Bookings on screen plus the changed ones, which may have moved off it
+      const filters = visibleRange
+        ? [`and(start_date.lt.${visibleRange.to},end_date.gt.${visibleRange.from})`]
+        : [];
+      if (ids.length) filters.push(`id.in.(${ids.join(",")})`);
+      if (!filters.length) return;
+
+      let bookingQuery = supabase
+        .from("bookings")
+        .select(BOOKING_COLUMNS)
+        .in("status", ["active", "pending"])
+        .or(filters.join(","));
+      if (!overlayAll) bookingQuery = bookingQuery.eq("house_id", selectedHouseId);
+
+      const { data: bookingRows, error: bookingErr } = await bookingQuery;
+
+      if (bookingErr) {
+        console.warn("Failed to refetch changed bookings", bookingErr.message);
+        return;
       }
 
-      const calendarEvents: EventInput[] = bookings.map((b) => {
-        const prof = profilesById.get(b.created_by);
-        const who = prof?.name || prof?.email || "Unknown";
-        const title = `${who} — ${b.guest_count} guest${b.guest_count === 1 ? "" : "s"}`;
-        const note = (b.note ?? "").trim();
-        const tooltip = note ? `${title}\n${note}` : title;
-        const color = prof?.color || pickColorForUser(b.created_by);
-
-        return {
-          id: String(b.id),
-          title,
-          start: b.start_date,
-          end: b.end_date,
-          allDay: true,
-          backgroundColor: color,
-          borderColor: color,
-          textColor: "#ffffff",
-          extendedProps: {
-            bookingId: b.id,
-            createdBy: b.created_by,
-            guestCount: b.guest_count,
-            note,
-          },
-          tooltip,
-        };
-      });
+      const fetched = (bookingRows ?? []) as Booking[];
 
-      setEvents(calendarEvents);
+      let profiles: Profile[] = [];
+      try {
+        profiles = await loadProfiles(Array.from(new Set(fetched.map((b) => b.created_by))));
+      } catch (e) {
+        console.warn("Failed to load members", e);
+      }
+
+      const replaced = (b: Booking) =>
+        ids.includes(b.id) ||
+        (!!visibleRange && b.start_date < visibleRange.to && b.end_date > visibleRange.from);
+
+      setLoadedBookings((prev) => [...prev.filter((b) => !replaced(b)), ...fetched]);
+      setBookingProfiles((prev) => {
+        const next = new Map(prev);
+        profiles.forEach((p) => next.set(p.id, p));
+        return next;
+      });
     };
 
-    loadBookings();
-  }, [selectedHouseId, refreshKey]);
+    refetch();
+  }, [remoteChanges, visibleRange, selectedHouseId, overlayAll]);
+
+  const events = useMemo(() => {
+    const calendarEvents: EventInput[] = loadedBookings.map((b) => {
+      const prof = bookingProfiles.get(b.created_by);
+      const who = prof?.name || prof?.email || "Unknown";
+      const pending = b.status === "pending";
+      const title = `${pending ? "Pending: " : ""}${who} — ${b.guest_count} guest${
+        b.guest_count === 1 ? "" : "s"
+      }`;
+      const note = (b.note ?? "").trim();
+      const tooltip = note ? `${title}\n${note}` : title;
+      const color = prof?.color || pickColorForUser(b.created_by);
+
+      return {
+        id: String(b.id),
+        title,
+        start: b.start_date,
+        end: b.end_date,
+        allDay: true,
+        backgroundColor: color,
+        borderColor: color,
+        textColor: "#ffffff",
+        classNames: pending ? ["pending-booking-event"] : [],
+        extendedProps: {
+          bookingId: b.id,
+          houseId: b.house_id,
+          createdBy: b.created_by,
+          guestCount: b.guest_count,
+          note,
+          seriesId: b.series_id ?? null,
+          reservationId: b.reservation_id ?? null,
+          version: b.version,
+        },
+        tooltip,
+      };
+    });
+
+    // Shade peak periods behind the bookings
+    const peakEvents: EventInput[] = peakPeriods.map((p) => ({
+      id: `peak-${p.id}`,
+      title: p.label,
+      start: p.start_date,
+      end: p.end_date,
+      allDay: true,
+      display: "background",
+      classNames: ["peak-period-event"],
+    }));
+
+    const blackoutEvents: EventInput[] = blackouts.map((b) => ({
+      id: `blackout-${b.id}`,
+      title: b.reason ? `Unavailable: ${b.reason}` : "Unavailable",
+      start: b.start_date,
+      end: b.end_date,
+      allDay: true,
+      display: "background",
+      classNames: ["blackout-event"],
+    }));
+
+    return [...peakEvents, ...blackoutEvents, ...calendarEvents];
+  }, [loadedBookings, bookingProfiles, peakPeriods, blackouts]);
 
   // -------------------------------
   // MODAL HELPERS
@@ -366,6 +1138,13 @@ export default function CalendarPage() {
     setPendingEnd(endStr);
     setGuestCountInput("2");
     setNoteInput("");
+    setBookForId("");
+    setRepeatFrequency("");
+    setRepeatInterval("1");
+    setRepeatEnds("count");
+    setRepeatCount("4");
+    setRepeatUntil("");
+    setExtraHouses({});
     setModalError(null);
     setBookingModalOpen(true);
   };
@@ -376,8 +1155,197 @@ export default function CalendarPage() {
     setViewError(null);
     setViewBusy(false);
     setIsEditingBooking(false);
+    setConfirmingArchive(false);
+    setArchiveReason("");
+    setApplyScope("this");
+    setStaleEdit(null);
   };
 
+  // -------------------------------
+  // LOAD HISTORY FOR THE VIEWED BOOKING
+  // -------------------------------
+  const viewedBookingId = viewBooking?.bookingId ?? null;
+
+  useEffect(() => {
+    if (!viewedBookingId) {
+      setViewHistory([]);
+      return;
+    }
+
+    const loadHistory = async () => {
+      const { data, error } = await supabase
+        .from("booking_events")
+        .select(BOOKING_EVENT_COLUMNS)
+        .eq("booking_id", viewedBookingId)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        console.warn("Failed to load booking history", error.message);
+        return;
+      }
+
+      const history = (data ?? []) as BookingEvent[];
+      const actorIds = Array.from(
+        new Set(history.map((e) => e.actor_id).filter((id): id is string => !!id))
+      );
+
+      const names = new Map<string, string>();
+      if (actorIds.length) {
+        const { data: profileRows } = await supabase
+          .from("profiles")
+          .select("id,name,email")
+          .in("id", actorIds);
+        (profileRows ?? []).forEach((p) => names.set(p.id, p.name || p.email || "Unknown"));
+      }
+
+      setHistoryNames(names);
+      setViewHistory(history);
+    };
+
+    loadHistory();
+  }, [viewedBookingId, refreshKey]);
+
+  // -------------------------------
+  // LOAD ROOMS FOR THE VIEWED BOOKING
+  // -------------------------------
+  const viewedHouseId = viewBooking?.houseId ?? null;
+  const viewedStart = viewBooking?.start.slice(0, 10) ?? null;
+  const viewedEnd = viewBooking?.end.slice(0, 10) ?? null;
+
+  useEffect(() => {
+    if (!viewedBookingId || !viewedHouseId || !viewedStart || !viewedEnd) {
+      setViewRooms([]);
+      setViewRoomClaims([]);
+      return;
+    }
+
+    const loadRooms = async () => {
+      let rooms: HouseRoom[];
+      let claims: RoomClaim[];
+      try {
+        [rooms, claims] = await Promise.all([
+          loadHouseRooms(supabase, viewedHouseId),
+          loadRoomClaims(supabase, viewedHouseId, viewedStart, viewedEnd),
+        ]);
+      } catch (e) {
+        console.warn("Failed to load rooms", e);
+        return;
+      }
+
+      const holderIds = Array.from(new Set(claims.map((c) => c.created_by)));
+      const names = new Map<string, string>();
+      if (holderIds.length) {
+        const { data: profileRows } = await supabase
+          .from("profiles")
+          .select("id,name,email")
+          .in("id", holderIds);
+        (profileRows ?? []).forEach((p) => names.set(p.id, p.name || p.email || "Unknown"));
+      }
+
+      setRoomHolderNames(names);
+      setViewRooms(rooms);
+      setViewRoomClaims(claims);
+      setRoomPicks(
+        claims.filter((c) => c.booking_id === viewedBookingId).map((c) => c.room_id)
+      );
+    };
+
+    loadRooms();
+  }, [viewedBookingId, viewedHouseId, viewedStart, viewedEnd, refreshKey]);
+
+  const saveRooms = async () => {
+    if (!viewBooking || roomsBusy) return;
+    setRoomsBusy(true);
+    setViewError(null);
+    try {
+      await bookingApi(`/api/bookings/${viewBooking.bookingId}/rooms`, "POST", {
+        roomIds: roomPicks,
+      });
+      toast.success(roomPicks.length ? "Rooms saved." : "Rooms released.");
+      setRefreshKey((k) => k + 1);
+    } catch (e) {
+      setViewError(e instanceof Error ? e.message : "Could not save rooms.");
+    } finally {
+      setRoomsBusy(false);
+    }
+  };
+
+  // -------------------------------
+  // LOAD THE VIEWED BOOKING'S GUEST LIST
+  // -------------------------------
+  useEffect(() => {
+    if (!viewedBookingId) {
+      setViewGuests([]);
+      setGuestDraft([]);
+      return;
+    }
+
+    const loadGuests = async () => {
+      try {
+        const guests = await loadGuestList(supabase, viewedBookingId);
+        setViewGuests(guests);
+        setGuestDraft(guests.map(({ name, kind, profile_id }) => ({ name, kind, profile_id })));
+      } catch (e) {
+        console.warn("Failed to load guest list", e);
+      }
+    };
+
+    loadGuests();
+  }, [viewedBookingId, refreshKey]);
+
+  const saveGuests = async () => {
+    if (!viewBooking || guestsBusy) return;
+    setGuestsBusy(true);
+    setViewError(null);
+    try {
+      await bookingApi(`/api/bookings/${viewBooking.bookingId}/guests`, "POST", {
+        guests: guestDraft,
+      });
+      toast.success(guestDraft.length ? "Guest list saved." : "Guest list cleared.");
+      setRefreshKey((k) => k + 1);
+    } catch (e) {
+      setViewError(e instanceof Error ? e.message : "Could not save the guest list.");
+    } finally {
+      setGuestsBusy(false);
+    }
+  };
+
+  // -------------------------------
+  // FOLLOW OTHER SESSIONS' CHANGES TO THE VIEWED BOOKING
+  // -------------------------------
+  const remoteViewed =
+    viewBooking &&
+    remoteBooking?.id === viewBooking.bookingId &&
+    differsFromRemote(viewBooking, remoteBooking)
+      ? remoteBooking
+      : null;
+
+  // Shown over the edit form instead of letting Save quietly overwrite it
+  const viewConflict = isEditingBooking && !viewBusy && !staleEdit ? remoteViewed : null;
+
+  const applyRemoteVersion = () => {
+    if (!viewBooking || !remoteViewed) return;
+    setViewBooking(withStored(viewBooking, remoteViewed));
+    setEditStart(remoteViewed.start_date);
+    setEditEnd(remoteViewed.end_date);
+    setEditGuestCount(String(remoteViewed.guest_count));
+    setEditNote((remoteViewed.note ?? "").trim());
+    setViewError(null);
+  };
+
+  useEffect(() => {
+    // Mid-edit it's a conflict; mid-save it's most likely our own write
+    if (!remoteViewed || isEditingBooking || viewBusy || !viewBooking) return;
+
+    if (remoteViewed.status !== "active" && remoteViewed.status !== "pending") {
+      toast("This booking was just cancelled.");
+      closeViewModal();
+      return;
+    }
+
+    setViewBooking(withStored(viewBooking, remoteViewed));
+  }, [remoteViewed, isEditingBooking, viewBusy, viewBooking]);
+
   useEffect(() => {
     if (!bookingModalOpen) return;
     const t = setTimeout(() => guestsInputRef.current?.focus(), 50);
@@ -385,17 +1353,73 @@ export default function CalendarPage() {
   }, [bookingModalOpen]);
 
   useEffect(() => {
-    if (!bookingModalOpen && !viewModalOpen) return;
+    if (!bookingModalOpen && !viewModalOpen && !pendingMove) return;
 
     const onKeyDown = (e: KeyboardEvent) => {
       if (e.key !== "Escape") return;
       if (viewModalOpen) closeViewModal();
       if (bookingModalOpen) closeCreateModal();
+      if (pendingMove) {
+        pendingMove.revert();
+        setPendingMove(null);
+      }
     };
 
     window.addEventListener("keydown", onKeyDown);
     return () => window.removeEventListener("keydown", onKeyDown);
-  }, [bookingModalOpen, viewModalOpen]);
+  }, [bookingModalOpen, viewModalOpen, pendingMove]);
+
+  // Same checks as the server, from what's already loaded for this house
+  const policyContext = (memberId: string, excludeBookingId?: number) => ({
+    policy,
+    blackouts,
+    memberStays: houseBookings.filter(
+      (b) => b.created_by === memberId && b.id !== excludeBookingId
+    ),
+    today: todayIso(),
+  });
+
+  const multiHouse = Object.keys(extraHouses).length > 0;
+
+  const seriesRule: SeriesRule | null = repeatFrequency
+    ? {
+        frequency: repeatFrequency,
+        interval: Number(repeatInterval),
+        until: repeatEnds === "until" ? repeatUntil || null : null,
+        count: repeatEnds === "count" ? Number(repeatCount) : null,
+      }
+    : null;
+
+  // Every occurrence of the series being created, checked the way the
+  // server will check it, plus heads-ups that don't block saving
+  const seriesPreview = (() => {
+    if (!seriesRule || !pendingStart || !pendingEnd || !currentUserId) return null;
+
+    const error = seriesRuleError(seriesRule, pendingStart);
+    if (error) return { error, checks: [] };
+
+    const memberId = bookForId || currentUserId;
+    const checks = checkOccurrences(
+      expandSeries({ start_date: pendingStart, end_date: pendingEnd }, seriesRule),
+      Number(guestCountInput),
+      policyContext(memberId)
+    ).map((c) => ({
+      ...c,
+      peak:
+        !isAdmin && selectedHouseId
+          ? overlapsPeak(peakPeriods, selectedHouseId, c.start_date, c.end_date)
+          : null,
+      taken: houseBookings.some(
+        (b) =>
+          b.status === "active" &&
+          b.created_by !== memberId &&
+          b.start_date < c.end_date &&
+          b.end_date > c.start_date
+      ),
+    }));
+
+    return { error: checks.length < 2 ? "The series ends before a second stay." : null, checks };
+  })();
 
   // -------------------------------
   // CREATE BOOKING
@@ -416,44 +1440,107 @@ export default function CalendarPage() {
       }
 
       const guestCount = Number(guestCountInput);
-      if (!Number.isFinite(guestCount) || guestCount < 1) {
-        setModalError("Guest count must be a number ≥ 1.");
+      const violation = validateBooking(
+        { startDate: pendingStart, endDate: pendingEnd, guestCount },
+        policyContext(bookForId || user.id)
+      );
+      if (violation) {
+        setModalError(violation.message);
         return;
       }
 
-      const start = new Date(pendingStart + "T00:00:00");
-      const end = new Date(pendingEnd + "T00:00:00");
-      const nights = Math.round(
-        (end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)
-      );
+      const extraHouseIds = Object.keys(extraHouses).map(Number);
+      if (extraHouseIds.length) {
+        let reservation: { bookings: unknown[]; pendingCount: number };
+        try {
+          reservation = await bookingApi("/api/reservations", "POST", {
+            houses: [
+              { houseId: selectedHouseId, guestCount },
+              ...extraHouseIds.map((id) => ({ houseId: id, guestCount: Number(extraHouses[id]) })),
+            ],
+            startDate: pendingStart,
+            endDate: pendingEnd,
+            note: noteInput,
+            onBehalfOf: bookForId || undefined,
+          });
+        } catch (e) {
+          setModalError(e instanceof Error ? e.message : "Create failed.");
+          return;
+        }
 
-      if (nights <= 0) {
-        setModalError("Invalid date range.");
-        return;
-      }
-      if (nights > 7) {
-        setModalError("Max stay is 7 nights.");
+        toast.success(
+          reservation.pendingCount
+            ? `${reservation.bookings.length} houses booked — ${reservation.pendingCount} awaiting admin approval.`
+            : `${reservation.bookings.length} houses booked!`
+        );
+        closeCreateModal();
+        setRefreshKey((k) => k + 1);
         return;
       }
 
-      const note = noteInput.trim() ? noteInput.trim() : null;
+      if (seriesRule) {
+        const failed = seriesPreview?.checks.find((c) => c.violation);
+        if (seriesPreview?.error || failed) {
+          setModalError(
+            seriesPreview?.error ??
+              `${formatDate(failed!.start_date)}: ${failed!.violation!.message}`
+          );
+          return;
+        }
 
-      const { error } = await supabase.from("bookings").insert({
-        house_id: selectedHouseId,
-        created_by: user.id,
-        guest_count: guestCount,
-        start_date: pendingStart,
-        end_date: pendingEnd,
-        status: "active",
-        note,
-      });
+        let seriesResult: { bookings: unknown[]; pendingCount: number };
+        try {
+          seriesResult = await bookingApi("/api/bookings/series", "POST", {
+            houseId: selectedHouseId,
+            startDate: pendingStart,
+            endDate: pendingEnd,
+            guestCount,
+            note: noteInput,
+            onBehalfOf: bookForId || undefined,
+            frequency: seriesRule.frequency,
+            interval: seriesRule.interval,
+            until: seriesRule.until,
+            count: seriesRule.count,
+          });
+        } catch (e) {
+          setModalError(e instanceof Error ? e.message : "Create failed.");
+          return;
+        }
 
-      if (error) {
-        toast.error(error.message);
+        const booked = seriesResult.bookings.length;
+        toast.success(
+          seriesResult.pendingCount
+            ? `${booked} stays created — ${seriesResult.pendingCount} awaiting admin approval.`
+            : `${booked} stays created!`
+        );
+        closeCreateModal();
+        setRefreshKey((k) => k + 1);
+        return;
+      }
+
+      let result: { pendingApproval?: string };
+      try {
+        result = await bookingApi("/api/bookings", "POST", {
+          houseId: selectedHouseId,
+          startDate: pendingStart,
+          endDate: pendingEnd,
+          guestCount,
+          note: noteInput,
+          onBehalfOf: bookForId || undefined,
+        });
+      } catch (e) {
+        setModalError(e instanceof Error ? e.message : "Create failed.");
         return;
       }
 
-      toast.success("Booking created!");
+      const member = bookForId ? members.find((m) => m.id === bookForId) : null;
+      if (result.pendingApproval) {
+        toast.success(`${result.pendingApproval}: request sent — awaiting admin approval.`);
+      } else if (member) {
+        toast.success(`Booked for ${member.name || member.email}. They'll get an email.`);
+      } else {
+        toast.success("Booking created!");
+      }
       closeCreateModal();
       setRefreshKey((k) => k + 1);
     } finally {
@@ -464,7 +1551,7 @@ export default function CalendarPage() {
   // -------------------------------
   // CANCEL BOOKING (normal cancel)
   // -------------------------------
-  const cancelBooking = async (bookingId: number) => {
+  const cancelBooking = async (bookingId: number, scope: BookingScope = "this") => {
     const { data: authData } = await supabase.auth.getUser();
     const user = authData.user;
     if (!user) {
@@ -472,78 +1559,105 @@ export default function CalendarPage() {
       return;
     }
 
-    const { data: row, error: fetchErr } = await supabase
-      .from("bookings")
-      .select("id,created_by,status,guest_count,start_date,end_date,house_id,note")
-      .eq("id", bookingId)
-      .maybeSingle();
-
-    if (fetchErr) {
-      toast.error(fetchErr.message);
-      return;
-    }
-    if (!row) {
-      toast.error("Booking not found.");
-      return;
-    }
-    if (row.created_by !== user.id) {
-      toast.error("You can only cancel your own booking.");
+    try {
+      const result = await bookingApi(`/api/bookings/${bookingId}/cancel`, "POST", { scope });
+      toast.success(
+        result.cancelled > 1
+          ? `${result.cancelled} ${scope === "reservation" ? "houses" : "stays"} cancelled.`
+          : "Booking cancelled."
+      );
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Cancel failed.");
       return;
     }
-    if (row.status !== "active") {
-      toast.error("This booking is already cancelled.");
+
+    setRefreshKey((k) => k + 1);
+  };
+
+  // -------------------------------
+  // WAITLIST
+  // -------------------------------
+  const joinWaitlist = async () => {
+    if (!selectedHouseId || !pendingStart || !pendingEnd || saving) return;
+
+    setModalError(null);
+    setSaving(true);
+    try {
+      await bookingApi("/api/waitlist", "POST", {
+        houseId: selectedHouseId,
+        startDate: pendingStart,
+        endDate: pendingEnd,
+        guestCount: Number(guestCountInput),
+        note: noteInput,
+      });
+    } catch (e) {
+      setModalError(e instanceof Error ? e.message : "Could not join the waitlist.");
       return;
+    } finally {
+      setSaving(false);
     }
 
-    const { error } = await supabase
-      .from("bookings")
-      .update({ status: "cancelled", cancelled_at: new Date().toISOString() })
-      .eq("id", bookingId);
+    toast.success("You're on the waitlist. We'll email you if the dates free up.");
+    closeCreateModal();
+    setRefreshKey((k) => k + 1);
+  };
 
-    if (error) {
-      toast.error(error.message);
-      return;
+  const waitlistAction = async (entryId: number, action: "claim" | "withdraw") => {
+    setWaitlistBusyId(entryId);
+    try {
+      const result = await bookingApi(`/api/waitlist/${entryId}/${action}`, "POST", {});
+      if (action === "withdraw") {
+        toast.success("Removed from the waitlist.");
+      } else if (result.pendingApproval) {
+        toast.success(`${result.pendingApproval}: request sent — awaiting admin approval.`);
+      } else {
+        toast.success("Booked!");
+      }
+      setRefreshKey((k) => k + 1);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Something went wrong.");
+    } finally {
+      setWaitlistBusyId(null);
     }
-
-    toast.success("Booking cancelled.");
-    setRefreshKey((k) => k + 1);
   };
 
   // -------------------------------
   // EDIT BOOKING
   // -------------------------------
-  const saveEditedBooking = async () => {
+  // What's wrong with moving a booking to these dates, from what's loaded.
+  // Shared by the edit form and drag/resize; the server checks again.
+  const editViolation = (
+    booking: { bookingId: number; houseId: number; createdBy: string },
+    startDate: string,
+    endDate: string,
+    guestCount: number
+  ) => {
+    // Another house's policy isn't loaded; the server still checks it
+    const violation =
+      booking.houseId === selectedHouseId
+        ? validateBooking(
+            { startDate, endDate, guestCount },
+            policyContext(booking.createdBy, booking.bookingId)
+          )
+        : null;
+    if (violation) return violation.message;
+
+    if (!currentUserId || (booking.createdBy !== currentUserId && !isAdmin)) {
+      return "You can only edit your own booking.";
+    }
+    return null;
+  };
+
+  // baseVersion: the version the edit was made against, when reapplying it
+  // over a newer one
+  const saveEditedBooking = async (baseVersion?: number) => {
     if (!viewBooking) return;
     if (viewBusy) return;
 
-    if (!editStart || !editEnd) {
-      setViewError("Please select both check-in and check-out.");
-      return;
-    }
-
     const guests = Number(editGuestCount);
-    if (!Number.isFinite(guests) || guests < 1) {
-      setViewError("Guest count must be a number ≥ 1.");
-      return;
-    }
-
-    const start = new Date(editStart + "T00:00:00");
-    const end = new Date(editEnd + "T00:00:00");
-    const nights = Math.round(
-      (end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)
-    );
-
-    if (nights <= 0) {
-      setViewError("Invalid date range.");
-      return;
-    }
-    if (nights > 7) {
-      setViewError("Max stay is 7 nights.");
-      return;
-    }
-
-    if (!currentUserId || (viewBooking.createdBy !== currentUserId && !isAdmin)) {
-      setViewError("You can only edit your own booking.");
+    const violation = editViolation(viewBooking, editStart, editEnd, guests);
+    if (violation) {
+      setViewError(violation);
       return;
     }
 
@@ -553,24 +1667,33 @@ export default function CalendarPage() {
     try {
       const noteClean = editNote.trim() ? editNote.trim() : null;
 
-      const { error } = await supabase
-        .from("bookings")
-        .update({
-          start_date: editStart,
-          end_date: editEnd,
-          guest_count: guests,
+      let saved: { version: number };
+      try {
+        const result = await bookingApi(`/api/bookings/${viewBooking.bookingId}`, "PATCH", {
+          startDate: editStart,
+          endDate: editEnd,
+          guestCount: guests,
           note: noteClean,
-        })
-        .eq("id", viewBooking.bookingId);
-
-      if (error) {
-        setViewError(error.message);
+          scope: applyScope,
+          version: baseVersion ?? viewBooking.version,
+        });
+        saved = result.booking;
+      } catch (e) {
+        if (e instanceof BookingApiError && e.body.code === "stale") {
+          setStaleEdit(e.body.current as StoredBooking);
+          return;
+        }
+        setViewError(e instanceof Error ? e.message : "Update failed.");
         return;
       }
 
-      toast.success("Booking updated.");
+      toast.success(
+        applyScope === "following" ? "This and later stays updated." : "Booking updated."
+      );
       setRefreshKey((k) => k + 1);
       setIsEditingBooking(false);
+      // Whatever another session saved before us is now overwritten
+      setRemoteBooking(null);
 
       setViewBooking({
         ...viewBooking,
@@ -578,16 +1701,112 @@ export default function CalendarPage() {
         end: editEnd,
         guestCount: guests,
         note: noteClean ?? "",
+        version: saved.version,
       });
     } finally {
       setViewBusy(false);
     }
   };
 
+  // Someone else saved first: keep their version as the new base and save
+  // the typed changes over it, or drop the typed changes
+  const reapplyEdit = () => {
+    if (!viewBooking || !staleEdit) return;
+    setViewBooking(withStored(viewBooking, staleEdit));
+    setStaleEdit(null);
+    saveEditedBooking(staleEdit.version);
+  };
+
+  const discardEdit = () => {
+    if (!viewBooking || !staleEdit) return;
+    if (staleEdit.status !== "active" && staleEdit.status !== "pending") {
+      closeViewModal();
+      return;
+    }
+    setViewBooking(withStored(viewBooking, staleEdit));
+    setEditStart(staleEdit.start_date);
+    setEditEnd(staleEdit.end_date);
+    setEditGuestCount(String(staleEdit.guest_count));
+    setEditNote((staleEdit.note ?? "").trim());
+    setStaleEdit(null);
+    setIsEditingBooking(false);
+  };
+
+  // -------------------------------
+  // DRAG / RESIZE -> CONFIRM RESCHEDULE
+  // -------------------------------
+  const onEventChange = (arg: EventChangeArg) => {
+    const props = arg.event.extendedProps;
+    // One-night all-day events can come back without an end
+    const endOf = (e: EventChangeArg["event"]) => (e.end ? e.endStr : addDays(e.startStr, 1));
+
+    setMoveError(null);
+    setPendingMove({
+      bookingId: Number(props.bookingId),
+      houseId: Number(props.houseId),
+      createdBy: String(props.createdBy || ""),
+      seriesId: (props.seriesId as number | null) ?? null,
+      version: Number(props.version),
+      title: arg.event.title,
+      guestCount: Number(props.guestCount),
+      note: ((props.note as string) || "").trim(),
+      fromStart: arg.oldEvent.startStr,
+      fromEnd: endOf(arg.oldEvent),
+      start: arg.event.startStr,
+      end: endOf(arg.event),
+      revert: arg.revert,
+    });
+  };
+
+  const revertMove = () => {
+    pendingMove?.revert();
+    setPendingMove(null);
+    setMoveError(null);
+    setMoveBusy(false);
+  };
+
+  const confirmMove = async () => {
+    if (!pendingMove || moveBusy) return;
+
+    const violation = editViolation(
+      pendingMove,
+      pendingMove.start,
+      pendingMove.end,
+      pendingMove.guestCount
+    );
+    if (violation) {
+      setMoveError(violation);
+      return;
+    }
+
+    setMoveBusy(true);
+    setMoveError(null);
+
+    try {
+      await bookingApi(`/api/bookings/${pendingMove.bookingId}`, "PATCH", {
+        startDate: pendingMove.start,
+        endDate: pendingMove.end,
+        guestCount: pendingMove.guestCount,
+        note: pendingMove.note || null,
+        scope: "this",
+        version: pendingMove.version,
+      });
+    } catch (e) {
+      setMoveError(e instanceof Error ? e.message : "Update failed.");
+      setMoveBusy(false);
+      return;
+    }
+
+    toast.success("Booking moved.");
+    setPendingMove(null);
+    setMoveBusy(false);
+    setRefreshKey((k) => k + 1);
+  };
+
   // -------------------------------
-  // ADMIN: PERMANENT DELETE BOOKING
+  // ADMIN: ARCHIVE BOOKING (restorable from /trash)
   // -------------------------------
-  const adminDeleteBooking = async (bookingId: number) => {
+  const adminArchiveBooking = async (bookingId: number, reason: string) => {
     const session = (await supabase.auth.getSession()).data.session;
     const accessToken = session?.access_token;
     if (!accessToken) throw new Error("Missing access token");
@@ -595,41 +1814,55 @@ export default function CalendarPage() {
     const res = await fetch("/api/admin-delete-booking", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ accessToken, bookingId }),
+      body: JSON.stringify({ accessToken, bookingId, reason }),
     });
 
     const body = await res.json().catch(() => ({}));
 
     if (!res.ok) {
-      throw new Error(body?.error ?? "Admin delete failed");
+      throw new Error(body?.error ?? "Archive failed");
     }
 
-    toast.success("Booking permanently deleted.");
+    toast.success("Booking archived. Restore it from Trash.");
     setRefreshKey((k) => k + 1);
   };
 
   // -------------------------------
   // EVENT CLICK -> OPEN VIEW MODAL
   // -------------------------------
-  const onEventClick = (arg: EventClickArg) => {
-    const bookingId = Number(arg.event.extendedProps.bookingId);
-    const guestCount = Number(arg.event.extendedProps.guestCount);
-    const note = ((arg.event.extendedProps.note as string) || "").trim();
-    const createdBy = String(arg.event.extendedProps.createdBy || "");
-    const start = arg.event.startStr;
-    const end = arg.event.endStr || arg.event.startStr;
+  const openBooking = (
+    title: string,
+    start: string,
+    end: string,
+    props: Record<string, unknown>
+  ) => {
+    const bookingId = Number(props.bookingId);
+    const houseId = Number(props.houseId);
+    const guestCount = Number(props.guestCount);
+    const note = ((props.note as string) || "").trim();
+    const createdBy = String(props.createdBy || "");
+    const seriesId = (props.seriesId as number | null) ?? null;
+    const reservationId = (props.reservationId as number | null) ?? null;
+    const version = Number(props.version);
 
     setViewError(null);
     setIsEditingBooking(false);
+    setConfirmingArchive(false);
+    setArchiveReason("");
+    setApplyScope("this");
 
     setViewBooking({
       bookingId,
-      title: arg.event.title,
+      houseId,
+      title,
       start,
       end,
       guestCount,
       note,
       createdBy,
+      seriesId,
+      reservationId,
+      version,
     });
 
     setEditStart(start.slice(0, 10));
@@ -640,12 +1873,26 @@ export default function CalendarPage() {
     setViewModalOpen(true);
   };
 
+  const onEventClick = (arg: EventClickArg) =>
+    openBooking(
+      arg.event.title,
+      arg.event.startStr,
+      arg.event.endStr || arg.event.startStr,
+      arg.event.extendedProps
+    );
+
   // -------------------------------
   // CALENDAR SELECT
   // -------------------------------
   const onSelect = (info: DateSelectArg) =>
     openCreateModal(info.startStr, info.endStr);
 
+  // Timeline rows are houses, so the drag already says which one
+  const onTimelineSelect = (houseId: number, start: string, end: string) => {
+    setSelectedHouseId(houseId);
+    openCreateModal(start, end);
+  };
+
   const selectedHouse = useMemo(
     () => houses.find((h) => h.id === selectedHouseId) ?? null,
     [houses, selectedHouseId]
@@ -653,8 +1900,89 @@ export default function CalendarPage() {
 
   const selectedHouseName = selectedHouse?.name ?? "";
 
+  const bookingEvents = useMemo(
+    () => events.filter((e) => e.extendedProps?.bookingId !== undefined),
+    [events]
+  );
+
+  // All houses on one grid: bookings only (peaks and blackouts are per
+  // house), colored by house instead of by member
+  const monthEvents = useMemo(() => {
+    // Drag to move, or drag the end to resize: your own bookings, or any
+    // booking for admins. Other members' bookings stay locked.
+    const editable = (e: EventInput) =>
+      e.extendedProps?.bookingId !== undefined &&
+      (isAdmin || e.extendedProps.createdBy === currentUserId);
+
+    if (!showAllHouses) {
+      return events
+        .filter((e) => !e.extendedProps || e.extendedProps.houseId === selectedHouseId)
+        .map((e) => ({ ...e, editable: editable(e) }));
+    }
+    return bookingEvents.map((e) => {
+      const name = houses.find((h) => h.id === e.extendedProps?.houseId)?.name ?? "";
+      const { color } = houseTextStyle(name);
+      return {
+        ...e,
+        title: `${name}: ${e.title}`,
+        backgroundColor: color,
+        borderColor: color,
+        editable: editable(e),
+      };
+    });
+  }, [events, bookingEvents, houses, showAllHouses, selectedHouseId, isAdmin, currentUserId]);
+
+  // Overlaps are allowed, so warn (don't block) when the new stay would push
+  // the nightly headcount past what the house sleeps.
+  const capacityWarning = useMemo(() => {
+    const maxGuests = selectedHouse?.max_guests;
+    if (!bookingModalOpen || !pendingStart || !pendingEnd || !maxGuests) return null;
+
+    const guests = Number(guestCountInput);
+    if (!Number.isInteger(guests) || guests < 1) return null;
+
+    const headcount = dailyHeadcount(
+      [
+        ...houseBookings.filter((b) => b.status === "active"),
+        { start_date: pendingStart, end_date: pendingEnd, guest_count: guests },
+      ],
+      pendingStart,
+      pendingEnd
+    );
+
+    let peak = 0;
+    let nightsOver = 0;
+    headcount.forEach((count) => {
+      peak = Math.max(peak, count);
+      if (count > maxGuests) nightsOver++;
+    });
+
+    if (!nightsOver) return null;
+    return `Up to ${peak} guests on ${nightsOver} night${
+      nightsOver === 1 ? "" : "s"
+    } — ${selectedHouse.name} sleeps ${maxGuests}.`;
+  }, [bookingModalOpen, pendingStart, pendingEnd, guestCountInput, houseBookings, selectedHouse]);
+
+  // Someone else is already there on some of these nights
+  const datesTaken = useMemo(() => {
+    if (!bookingModalOpen || !pendingStart || !pendingEnd) return false;
+    return houseBookings.some(
+      (b) =>
+        b.created_by !== currentUserId &&
+        b.start_date < pendingEnd &&
+        b.end_date > pendingStart
+    );
+  }, [bookingModalOpen, pendingStart, pendingEnd, houseBookings, currentUserId]);
+
+  const peakWarning = useMemo(() => {
+    if (!bookingModalOpen || !pendingStart || !pendingEnd || !selectedHouseId || isAdmin) {
+      return null;
+    }
+    return overlapsPeak(peakPeriods, selectedHouseId, pendingStart, pendingEnd);
+  }, [bookingModalOpen, pendingStart, pendingEnd, selectedHouseId, peakPeriods, isAdmin]);
+
   const canCancelViewedBooking =
-    !!viewBooking && !!currentUserId && viewBooking.createdBy === currentUserId;
+    !!viewBooking && !!currentUserId && (viewBooking.createdBy === currentUserId || isAdmin);
 
   const canEditViewedBooking =
     !!viewBooking && !!currentUserId && (viewBooking.createdBy === currentUserId || isAdmin);
@@ -669,7 +1997,7 @@ export default function CalendarPage() {
               Bay Ave & Bear Ln Calendars
             </h1>
             <p className="text-sm sm:text-base mt-2 text-slate-600">
-              Choose a house to view bookings. Click and drag to book your stay. Click a booking to view details.
+              Choose a house, or all houses, to view bookings. Click and drag to book your stay. Click a booking to view details, or drag your own booking (or its end) to reschedule it.
             </p>
           </div>
 
@@ -679,19 +2007,82 @@ export default function CalendarPage() {
                 House
               </label>
               <select
-                className="w-full rounded-lg border border-slate-200 bg-white p-3 text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
-                value={selectedHouseId ?? ""}
-                onChange={(e) => setSelectedHouseId(Number(e.target.value))}
+                className="w-full rounded-lg border border-slate-200 bg-white p-3 text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30 disabled:opacity-60"
+                value={showAllHouses || calendarView === "timeline" ? "all" : selectedHouseId ?? ""}
+                disabled={calendarView === "timeline"}
+                onChange={(e) => {
+                  if (e.target.value === "all") {
+                    setShowAllHouses(true);
+                    return;
+                  }
+                  setShowAllHouses(false);
+                  setSelectedHouseId(Number(e.target.value));
+                }}
               >
                 {houses.map((h) => (
                   <option key={h.id} value={h.id}>
                     {h.name}
                   </option>
                 ))}
+                {houses.length > 1 && <option value="all">All houses</option>}
               </select>
             </div>
 
-            <div className="flex justify-end">
+            <div className="flex rounded-lg border border-slate-200 p-1 text-sm font-semibold">
+              {(["month", "timeline"] as const).map((v) => (
+                <button
+                  key={v}
+                  className={`flex-1 rounded-md px-3 py-1.5 ${
+                    calendarView === v ? "bg-slate-900 text-white" : "text-slate-700 hover:bg-slate-50"
+                  }`}
+                  onClick={() => setCalendarView(v)}
+                >
+                  {v === "month" ? "Month" : "Timeline"}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap justify-end gap-x-4 gap-y-1">
+              <Link
+                href="/draws"
+                className="text-sm font-semibold text-[#064789] hover:underline"
+              >
+                Draws
+              </Link>
+              {isAdmin && (
+                <>
+                  <Link
+                    href="/approvals"
+                    className="text-sm font-semibold text-[#064789] hover:underline"
+                  >
+                    Approvals
+                  </Link>
+                  <Link
+                    href="/policies"
+                    className="text-sm font-semibold text-[#064789] hover:underline"
+                  >
+                    Policies
+                  </Link>
+                  <Link
+                    href="/activity"
+                    className="text-sm font-semibold text-[#064789] hover:underline"
+                  >
+                    Activity
+                  </Link>
+                  <Link
+                    href="/trash"
+                    className="text-sm font-semibold text-[#064789] hover:underline"
+                  >
+                    Trash
+                  </Link>
+                </>
+              )}
+              <Link
+                href="/profile"
+                className="text-sm font-semibold text-[#064789] hover:underline"
+              >
+                Profile &amp; feeds
+              </Link>
               <Link
                 href="/rules"
                 className="text-sm font-semibold text-[#064789] hover:underline"
@@ -702,7 +2093,7 @@ export default function CalendarPage() {
           </div>
         </div>
 
-        {myUpcoming.length > 0 && (
+        {(myUpcoming.length > 0 || myWaitlist.length > 0) && (
           <div className="mb-5 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3">
             <div className="flex items-center justify-between gap-3">
               <div>
@@ -710,16 +2101,18 @@ export default function CalendarPage() {
                   Your upcoming bookings
                 </h2>
                 <p className="mt-1 text-xs text-slate-600">
-                  Showing the next {myUpcoming.length} active booking
-                  {myUpcoming.length === 1 ? "" : "s"}.
+                  Showing your next {myUpcoming.length} booking
+                  {myUpcoming.length === 1 ? "" : "s"}
+                  {myWaitlist.length > 0 && ` and ${myWaitlist.length} waitlisted`}.
                 </p>
               </div>
             </div>
 
             <ul className="mt-3 space-y-2">
               {myUpcoming.map((b) => {
-                const houseName =
-                  houses.find((h) => h.id === b.houseId)?.name ?? "House";
+                const houseName = b.houseIds
+                  .map((id) => houses.find((h) => h.id === id)?.name ?? "House")
+                  .join(" + ");
 
                 return (
                   <li
@@ -729,29 +2122,93 @@ export default function CalendarPage() {
                     <div>
                       <div className="font-semibold text-slate-900">
                         {houseName}
+                        {b.pending && (
+                          <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-900">
+                            Awaiting approval
+                          </span>
+                        )}
                       </div>
                       <div className="text-slate-600">
                         {formatDate(b.start)} – {formatDate(b.end)}
                       </div>
                       <div className="text-slate-600">
                         {b.guestCount} guest{b.guestCount === 1 ? "" : "s"}
+                        {b.hostName && <> · Guest of {b.hostName}</>}
                       </div>
                     </div>
 
-                    <button
-                      className="ml-3 rounded-lg bg-red-600 px-3 py-1.5 text-xs font-semibold text-white hover:brightness-110 disabled:opacity-60"
-                      disabled={upcomingBusyId === b.id}
-                      onClick={async () => {
-                        setUpcomingBusyId(b.id);
-                        try {
-                          await cancelBooking(b.id);
-                        } finally {
-                          setUpcomingBusyId(null);
-                        }
-                      }}
-                    >
-                      {upcomingBusyId === b.id ? "Cancelling..." : "Cancel"}
-                    </button>
+                    {!b.hostName && (
+                      <button
+                        className="ml-3 rounded-lg bg-red-600 px-3 py-1.5 text-xs font-semibold text-white hover:brightness-110 disabled:opacity-60"
+                        disabled={upcomingBusyId === b.id}
+                        onClick={async () => {
+                          setUpcomingBusyId(b.id);
+                          try {
+                            await cancelBooking(b.id, b.reservationId ? "reservation" : "this");
+                          } finally {
+                            setUpcomingBusyId(null);
+                          }
+                        }}
+                      >
+                        {upcomingBusyId === b.id ? "Cancelling..." : "Cancel"}
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+
+              {myWaitlist.map((w) => {
+                const houseName =
+                  houses.find((h) => h.id === w.house_id)?.name ?? "House";
+                const offered = w.status === "offered";
+
+                return (
+                  <li
+                    key={`waitlist-${w.id}`}
+                    className="flex items-center justify-between rounded-xl bg-white px-3 py-2 text-xs sm:text-sm text-slate-700 shadow-sm"
+                  >
+                    <div>
+                      <div className="font-semibold text-slate-900">
+                        {houseName}
+                        <span
+                          className={`ml-2 rounded-full px-2 py-0.5 text-xs font-semibold ${
+                            offered ? "bg-green-100 text-green-900" : "bg-slate-200 text-slate-700"
+                          }`}
+                        >
+                          {offered ? "Dates free — claim now" : "Waitlisted"}
+                        </span>
+                      </div>
+                      <div className="text-slate-600">
+                        {formatDate(w.start_date)} – {formatDate(w.end_date)}
+                      </div>
+                      <div className="text-slate-600">
+                        {offered && w.offer_expires_at
+                          ? `Claim by ${new Date(w.offer_expires_at).toLocaleString("en-US", {
+                              dateStyle: "short",
+                              timeStyle: "short",
+                            })}`
+                          : `${w.guest_count} guest${w.guest_count === 1 ? "" : "s"}`}
+                      </div>
+                    </div>
+
+                    <div className="ml-3 flex gap-2">
+                      {offered && (
+                        <button
+                          className="rounded-lg bg-[#679436] px-3 py-1.5 text-xs font-semibold text-white hover:brightness-95 disabled:opacity-60"
+                          disabled={waitlistBusyId === w.id}
+                          onClick={() => waitlistAction(w.id, "claim")}
+                        >
+                          Claim
+                        </button>
+                      )}
+                      <button
+                        className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-60"
+                        disabled={waitlistBusyId === w.id}
+                        onClick={() => waitlistAction(w.id, "withdraw")}
+                      >
+                        {offered ? "Pass" : "Leave"}
+                      </button>
+                    </div>
                   </li>
                 );
               })}
@@ -761,40 +2218,124 @@ export default function CalendarPage() {
 
         <div className="surface p-4">
           <div className="fc-house-title text-center mt-4 mb-2">
-            <span
-              className="text-2xl sm:text-3xl font-extrabold tracking-tight"
-              style={houseTextStyle(selectedHouseName)}
-            >
-              {selectedHouseName}
-            </span>
+            {overlayAll ? (
+              <>
+                <span className="text-2xl sm:text-3xl font-extrabold tracking-tight text-slate-900">
+                  All houses
+                </span>
+                {calendarView === "month" && (
+                  <div className="mt-1 flex flex-wrap justify-center gap-x-4 text-sm font-semibold">
+                    {houses.map((h) => (
+                      <span key={h.id} style={houseTextStyle(h.name)}>
+                        ● {h.name}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </>
+            ) : (
+              <span
+                className="text-2xl sm:text-3xl font-extrabold tracking-tight"
+                style={houseTextStyle(selectedHouseName)}
+              >
+                {selectedHouseName}
+              </span>
+            )}
           </div>
 
-          <FullCalendar
-            ref={calendarRef as any}
-            plugins={[dayGridPlugin, interactionPlugin]}
-            initialView="dayGridMonth"
-            height="auto"
-            eventOverlap={true}
-            dayMaxEvents={3}
-            eventDisplay="block"
-            events={events}
-            selectable={true}
-            selectMirror={true}
-            select={onSelect}
-            eventClick={onEventClick}
-            moreLinkClick="popover"
-            eventDidMount={(info) => {
-              if (
-                currentUserId &&
-                info.event.extendedProps.createdBy === currentUserId
-              ) {
-                (info.el as HTMLElement).classList.add("my-booking-event");
+          {calendarView === "timeline" ? (
+            <HouseTimeline
+              houses={houses}
+              events={bookingEvents}
+              onSelectDates={onTimelineSelect}
+              onBookingClick={(e) =>
+                openBooking(e.title ?? "", String(e.start), String(e.end), e.extendedProps ?? {})
               }
-            }}
-          />
+              onRangeChange={setVisibleRange}
+            />
+          ) : (
+            <FullCalendar
+              ref={calendarRef}
+              plugins={[dayGridPlugin, interactionPlugin]}
+              initialView="dayGridMonth"
+              height="auto"
+              eventOverlap={true}
+              dayMaxEvents={3}
+              eventDisplay="block"
+              events={monthEvents}
+              datesSet={(arg) =>
+                setVisibleRange({ from: arg.startStr.slice(0, 10), to: arg.endStr.slice(0, 10) })
+              }
+              selectable={true}
+              selectMirror={true}
+              select={onSelect}
+              eventClick={onEventClick}
+              eventChange={onEventChange}
+              moreLinkClick="popover"
+              eventDidMount={(info) => {
+                if (
+                  currentUserId &&
+                  info.event.extendedProps.createdBy === currentUserId
+                ) {
+                  (info.el as HTMLElement).classList.add("my-booking-event");
+                }
+              }}
+            />
+          )}
         </div>
       </div>
 
+      {pendingMove && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/40" onClick={revertMove} />
+          <div className="relative w-full max-w-xl surface p-6">
+            <h2 className="text-2xl font-semibold text-slate-900">Reschedule booking?</h2>
+            <p className="mt-1 text-sm text-slate-600">{pendingMove.title}</p>
+
+            <div className="mt-4 space-y-2 text-slate-700">
+              <div>
+                <span className="font-semibold text-slate-900">From:</span>{" "}
+                {formatDate(pendingMove.fromStart)} – {formatDate(pendingMove.fromEnd)}
+              </div>
+              <div>
+                <span className="font-semibold text-slate-900">To:</span>{" "}
+                {formatDate(pendingMove.start)} – {formatDate(pendingMove.end)}
+              </div>
+            </div>
+
+            {pendingMove.seriesId !== null && (
+              <p className="mt-4 text-xs text-slate-500">
+                Only this stay moves. To move later stays in the series too, use Edit.
+              </p>
+            )}
+
+            {moveError && (
+              <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+                {moveError}
+              </div>
+            )}
+
+            <div className="mt-7 flex items-center justify-end gap-3">
+              <button
+                className="rounded-lg border border-slate-200 bg-white px-5 py-2.5 font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-60"
+                disabled={moveBusy}
+                onClick={revertMove}
+              >
+                Revert
+              </button>
+
+              <button
+                className="rounded-lg bg-[#679436] px-5 py-2.5 font-semibold text-white hover:brightness-95 disabled:opacity-60"
+                disabled={moveBusy}
+                onClick={confirmMove}
+              >
+                {moveBusy ? "Saving..." : "Save new dates"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {nameModalOpen && (
         <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
           <div className="absolute inset-0 bg-black/40" onClick={signOutAndGoLogin} />
@@ -860,6 +2401,57 @@ export default function CalendarPage() {
               </div>
             </div>
 
+            {overlayAll && houses.length > 1 && (
+              <div className="mt-6">
+                <label className="block text-sm font-semibold text-slate-900">House</label>
+                <select
+                  className="mt-2 w-full rounded-lg border border-slate-200 bg-white px-4 py-3 text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                  style={houseTextStyle(selectedHouseName)}
+                  value={selectedHouseId ?? ""}
+                  onChange={(e) => {
+                    const houseId = Number(e.target.value);
+                    setSelectedHouseId(houseId);
+                    setExtraHouses((prev) => {
+                      const next = { ...prev };
+                      delete next[houseId];
+                      return next;
+                    });
+                  }}
+                >
+                  {houses.map((h) => (
+                    <option key={h.id} value={h.id}>
+                      {h.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {isAdmin && (
+              <div className="mt-6">
+                <label className="block text-sm font-semibold text-slate-900">Booking for</label>
+                <select
+                  className="mt-2 w-full rounded-lg border border-slate-200 bg-white px-4 py-3 text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                  value={bookForId}
+                  onChange={(e) => setBookForId(e.target.value)}
+                >
+                  <option value="">Myself</option>
+                  {members
+                    .filter((m) => m.id !== currentUserId)
+                    .map((m) => (
+                      <option key={m.id} value={m.id}>
+                        {m.name || m.email}
+                      </option>
+                    ))}
+                </select>
+                {bookForId && (
+                  <p className="mt-2 text-xs text-slate-500">
+                    The stay is theirs: their limits apply and they&apos;re emailed about it.
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="mt-6">
               <label className="block text-sm font-semibold text-slate-900">Guests</label>
               <input
@@ -874,7 +2466,7 @@ export default function CalendarPage() {
                 }}
               />
               <p className="mt-2 text-xs text-slate-500">
-                Max stay: 7 nights. Overlaps are allowed.
+                {describePolicy(policy).join(" ")} Overlaps are allowed.
               </p>
             </div>
 
@@ -891,6 +2483,166 @@ export default function CalendarPage() {
               />
             </div>
 
+            {houses.length > 1 && !repeatFrequency && (
+              <div className="mt-5">
+                <label className="block text-sm font-semibold text-slate-900">
+                  Also book for the same dates
+                </label>
+                <div className="mt-2 space-y-2">
+                  {houses
+                    .filter((h) => h.id !== selectedHouseId)
+                    .map((h) => {
+                      const checked = h.id in extraHouses;
+                      return (
+                        <div key={h.id} className="flex items-center gap-3 text-sm">
+                          <label className="flex flex-1 items-center gap-2 text-slate-700">
+                            <input
+                              type="checkbox"
+                              checked={checked}
+                              onChange={(e) =>
+                                setExtraHouses((prev) => {
+                                  const next = { ...prev };
+                                  if (e.target.checked) next[h.id] = "2";
+                                  else delete next[h.id];
+                                  return next;
+                                })
+                              }
+                            />
+                            <span style={houseTextStyle(h.name)}>{h.name}</span>
+                          </label>
+                          {checked && (
+                            <input
+                              className="w-20 rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                              inputMode="numeric"
+                              aria-label={`Guests at ${h.name}`}
+                              value={extraHouses[h.id]}
+                              onChange={(e) =>
+                                setExtraHouses((prev) => ({ ...prev, [h.id]: e.target.value }))
+                              }
+                            />
+                          )}
+                        </div>
+                      );
+                    })}
+                </div>
+                {multiHouse && (
+                  <p className="mt-2 text-xs text-slate-500">
+                    Every house is checked against its own rules; if one can&apos;t be booked,
+                    none are. Cancel them together from your upcoming bookings.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {!multiHouse && (
+              <div className="mt-5">
+                <label className="block text-sm font-semibold text-slate-900">Repeat</label>
+                <div className="mt-2 grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <select
+                    className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                    value={repeatFrequency}
+                    onChange={(e) => setRepeatFrequency(e.target.value as SeriesFrequency | "")}
+                  >
+                    <option value="">Doesn&apos;t repeat</option>
+                    {SERIES_FREQUENCIES.map((f) => (
+                      <option key={f.value} value={f.value}>
+                        {f.label}
+                      </option>
+                    ))}
+                  </select>
+
+                  {repeatFrequency && (
+                    <>
+                      <label className="flex items-center gap-2 text-sm text-slate-700">
+                        Every
+                        <input
+                          className="w-16 rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                          inputMode="numeric"
+                          value={repeatInterval}
+                          onChange={(e) => setRepeatInterval(e.target.value)}
+                        />
+                        {SERIES_FREQUENCIES.find((f) => f.value === repeatFrequency)?.unit}
+                        {repeatInterval === "1" ? "" : "s"}
+                      </label>
+
+                      <div className="flex items-center gap-2">
+                        <select
+                          className="rounded-lg border border-slate-200 bg-white px-2 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                          value={repeatEnds}
+                          onChange={(e) => setRepeatEnds(e.target.value as "count" | "until")}
+                        >
+                          <option value="count">Stays</option>
+                          <option value="until">Until</option>
+                        </select>
+                        {repeatEnds === "count" ? (
+                          <input
+                            className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                            inputMode="numeric"
+                            value={repeatCount}
+                            onChange={(e) => setRepeatCount(e.target.value)}
+                          />
+                        ) : (
+                          <input
+                            type="date"
+                            className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                            value={repeatUntil}
+                            onChange={(e) => setRepeatUntil(e.target.value)}
+                          />
+                        )}
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                {seriesPreview && (
+                  <div className="mt-3 rounded-lg border border-slate-200 bg-slate-50 px-4 py-3 text-sm">
+                    {seriesPreview.error ? (
+                      <p className="text-red-700">{seriesPreview.error}</p>
+                    ) : (
+                      <ul className="max-h-40 overflow-y-auto space-y-1">
+                        {seriesPreview.checks.map((c) => (
+                          <li key={c.start_date} className="flex justify-between gap-3">
+                            <span className="text-slate-900">
+                              {formatDate(c.start_date)} – {formatDate(c.end_date)}
+                            </span>
+                            {c.violation ? (
+                              <span className="text-right text-red-700">{c.violation.message}</span>
+                            ) : c.peak ? (
+                              <span className="text-amber-800">Needs approval ({c.peak.label})</span>
+                            ) : c.taken ? (
+                              <span className="text-amber-800">Overlaps another stay</span>
+                            ) : (
+                              <span className="text-[#679436]">OK</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {peakWarning && (
+              <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+                These dates fall in {peakWarning.label}. Your request will need admin
+                approval before it&apos;s confirmed.
+              </div>
+            )}
+
+            {capacityWarning && (
+              <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+                Over capacity: {capacityWarning}
+              </div>
+            )}
+
+            {(datesTaken || capacityWarning) && !repeatFrequency && !multiHouse && (
+              <p className="mt-4 text-sm text-slate-600">
+                Some of these nights are taken. You can still book, or join the waitlist to
+                get first claim if a stay is cancelled.
+              </p>
+            )}
+
             {modalError && (
               <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
                 {modalError}
@@ -906,12 +2658,31 @@ export default function CalendarPage() {
                 Cancel
               </button>
 
+              {(datesTaken || capacityWarning) &&
+                !bookForId &&
+                !repeatFrequency &&
+                !multiHouse && (
+                <button
+                  className="rounded-lg bg-[#427aa1] px-5 py-2.5 font-semibold text-white hover:brightness-105 disabled:opacity-60"
+                  onClick={joinWaitlist}
+                  disabled={saving}
+                >
+                  Join waitlist
+                </button>
+              )}
+
               <button
                 className="rounded-lg bg-[#679436] px-5 py-2.5 font-semibold text-white hover:brightness-95 disabled:opacity-60"
                 onClick={confirmCreateBooking}
                 disabled={saving}
               >
-                {saving ? "Creating..." : "Create booking"}
+                {saving
+                  ? "Creating..."
+                  : multiHouse
+                    ? `Book ${Object.keys(extraHouses).length + 1} houses`
+                    : seriesPreview?.checks.length
+                      ? `Create ${seriesPreview.checks.length} bookings`
+                      : "Create booking"}
               </button>
             </div>
 
@@ -947,6 +2718,14 @@ export default function CalendarPage() {
                     <span className="font-semibold text-slate-900">Guests:</span>{" "}
                     {viewBooking.guestCount}
                   </div>
+                  {viewBooking.seriesId && (
+                    <div className="text-sm text-slate-600">Part of a recurring series.</div>
+                  )}
+                  {viewBooking.reservationId && (
+                    <div className="text-sm text-slate-600">
+                      Booked together with other houses as one reservation.
+                    </div>
+                  )}
 
                   {viewBooking.note ? (
                     <div className="pt-2">
@@ -956,6 +2735,299 @@ export default function CalendarPage() {
                       </div>
                     </div>
                   ) : null}
+
+                  {viewRooms.length > 0 && (() => {
+                    const nights = roomNights(viewBooking.start, viewBooking.end, viewRoomClaims);
+                    const claimedNow = viewRoomClaims
+                      .filter((c) => c.booking_id === viewBooking.bookingId)
+                      .map((c) => c.room_id);
+                    const picksChanged =
+                      roomPicks.length !== claimedNow.length ||
+                      roomPicks.some((id) => !claimedNow.includes(id));
+                    const beds = roomBeds(viewRooms, roomPicks);
+
+                    return (
+                      <div className="pt-2">
+                        <div className="font-semibold text-slate-900">Rooms</div>
+                        <div className="mt-1 overflow-x-auto">
+                          <table className="w-full text-xs">
+                            <thead>
+                              <tr className="text-slate-500">
+                                <th className="py-1 pr-2 text-left font-semibold" />
+                                {nights.map(({ night }) => (
+                                  <th key={night} className="px-1 py-1 font-semibold">
+                                    {parseUtcDate(night).toLocaleDateString("en-US", {
+                                      weekday: "short",
+                                      day: "numeric",
+                                      timeZone: "UTC",
+                                    })}
+                                  </th>
+                                ))}
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {viewRooms.map((room) => (
+                                <tr key={room.id} className="border-t border-slate-100">
+                                  <td className="py-1 pr-2 text-slate-900">
+                                    <span className="font-semibold">{room.name}</span>
+                                    <span className="text-slate-500">
+                                      {" "}
+                                      · {room.beds} bed{room.beds === 1 ? "" : "s"}
+                                    </span>
+                                  </td>
+                                  {nights.map(({ night, byRoom }) => {
+                                    const claim = byRoom.get(room.id);
+                                    const ours = claim?.booking_id === viewBooking.bookingId;
+                                    return (
+                                      <td
+                                        key={night}
+                                        className={`max-w-[5rem] truncate px-1 py-1 text-center ${
+                                          ours
+                                            ? "bg-[#679436]/15 font-semibold text-[#4d7c0f]"
+                                            : claim
+                                              ? "bg-slate-100 text-slate-700"
+                                              : "text-slate-300"
+                                        }`}
+                                        title={claim ? roomHolderNames.get(claim.created_by) : "Free"}
+                                      >
+                                        {claim
+                                          ? (roomHolderNames.get(claim.created_by) ?? "Taken").split(" ")[0]
+                                          : "—"}
+                                      </td>
+                                    );
+                                  })}
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+
+                        {canEditViewedBooking && (
+                          <div className="mt-3">
+                            <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                              {viewRooms.map((room) => {
+                                const takenBy = viewRoomClaims.find(
+                                  (c) =>
+                                    c.room_id === room.id &&
+                                    c.booking_id !== viewBooking.bookingId
+                                );
+                                return (
+                                  <label
+                                    key={room.id}
+                                    className={`flex items-center gap-2 ${
+                                      takenBy ? "text-slate-400" : "text-slate-700"
+                                    }`}
+                                  >
+                                    <input
+                                      type="checkbox"
+                                      disabled={!!takenBy || roomsBusy}
+                                      checked={roomPicks.includes(room.id)}
+                                      onChange={(e) =>
+                                        setRoomPicks((prev) =>
+                                          e.target.checked
+                                            ? [...prev, room.id]
+                                            : prev.filter((id) => id !== room.id)
+                                        )
+                                      }
+                                    />
+                                    {room.name}
+                                    {takenBy ? " (taken)" : ""}
+                                  </label>
+                                );
+                              })}
+                            </div>
+                            <div className="mt-2 flex items-center justify-between gap-3">
+                              <p
+                                className={`text-xs ${
+                                  roomPicks.length && beds < viewBooking.guestCount
+                                    ? "text-red-700"
+                                    : "text-slate-500"
+                                }`}
+                              >
+                                {roomPicks.length
+                                  ? `These rooms have ${beds} bed${
+                                      beds === 1 ? "" : "s"
+                                    }; this stay has ${viewBooking.guestCount} guest${
+                                      viewBooking.guestCount === 1 ? "" : "s"
+                                    }.`
+                                  : "Tick the rooms you're taking for every night of the stay."}
+                              </p>
+                              <button
+                                className="shrink-0 rounded-lg bg-[#427aa1] px-3 py-1.5 text-xs font-semibold text-white hover:brightness-105 disabled:opacity-60"
+                                disabled={!picksChanged || roomsBusy}
+                                onClick={saveRooms}
+                              >
+                                {roomsBusy ? "Saving..." : "Save rooms"}
+                              </button>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })()}
+
+                  {(viewGuests.length > 0 || canEditViewedBooking) && (() => {
+                    const memberName = (id: string | null) => {
+                      const m = id ? members.find((p) => p.id === id) : null;
+                      return m ? m.name || m.email : null;
+                    };
+                    const draftChanged =
+                      JSON.stringify(guestDraft) !==
+                      JSON.stringify(
+                        viewGuests.map(({ name, kind, profile_id }) => ({ name, kind, profile_id }))
+                      );
+                    const people = countPeople(guestDraft);
+                    const updateGuest = (i: number, patch: Partial<BookingGuest>) =>
+                      setGuestDraft((prev) => prev.map((g, j) => (j === i ? { ...g, ...patch } : g)));
+
+                    return (
+                      <div className="pt-2">
+                        <div className="font-semibold text-slate-900">Guest list</div>
+
+                        {!canEditViewedBooking ? (
+                          <ul className="mt-1 space-y-1 text-sm text-slate-700">
+                            {viewGuests.map((g) => (
+                              <li key={g.id}>
+                                <span className="text-slate-900">{g.name}</span>
+                                <span className="text-slate-500">
+                                  {" "}
+                                  · {GUEST_KINDS.find((k) => k.value === g.kind)?.label}
+                                  {memberName(g.profile_id) && <> · {memberName(g.profile_id)}</>}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <div className="mt-1 space-y-2">
+                            {guestDraft.map((g, i) => (
+                              <div key={i} className="flex flex-wrap items-center gap-2">
+                                <input
+                                  className="min-w-0 flex-1 rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                                  placeholder="Name"
+                                  value={g.name}
+                                  disabled={guestsBusy}
+                                  onChange={(e) => updateGuest(i, { name: e.target.value })}
+                                />
+                                <select
+                                  className="rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                                  value={g.kind}
+                                  disabled={guestsBusy}
+                                  onChange={(e) =>
+                                    updateGuest(i, {
+                                      kind: e.target.value as GuestKind,
+                                      ...(e.target.value === "pet" ? { profile_id: null } : {}),
+                                    })
+                                  }
+                                >
+                                  {GUEST_KINDS.map((k) => (
+                                    <option key={k.value} value={k.value}>
+                                      {k.label}
+                                    </option>
+                                  ))}
+                                </select>
+                                <select
+                                  className="rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                                  value={g.profile_id ?? ""}
+                                  disabled={guestsBusy || g.kind === "pet"}
+                                  onChange={(e) => {
+                                    const member = members.find((m) => m.id === e.target.value);
+                                    updateGuest(i, {
+                                      profile_id: member?.id ?? null,
+                                      name: g.name || (member ? member.name || member.email : ""),
+                                    });
+                                  }}
+                                >
+                                  <option value="">Not a member</option>
+                                  {members
+                                    .filter(
+                                      (m) =>
+                                        m.id !== viewBooking.createdBy &&
+                                        (m.id === g.profile_id ||
+                                          !guestDraft.some((o) => o.profile_id === m.id))
+                                    )
+                                    .map((m) => (
+                                      <option key={m.id} value={m.id}>
+                                        {m.name || m.email}
+                                      </option>
+                                    ))}
+                                </select>
+                                <button
+                                  className="text-xs font-semibold text-red-600 hover:underline disabled:opacity-60"
+                                  disabled={guestsBusy}
+                                  onClick={() =>
+                                    setGuestDraft((prev) => prev.filter((_, j) => j !== i))
+                                  }
+                                >
+                                  Remove
+                                </button>
+                              </div>
+                            ))}
+
+                            <div className="flex items-center justify-between gap-3">
+                              <button
+                                className="text-xs font-semibold text-[#064789] hover:underline disabled:opacity-60"
+                                disabled={guestsBusy}
+                                onClick={() =>
+                                  setGuestDraft((prev) => [
+                                    ...prev,
+                                    { name: "", kind: "adult", profile_id: null },
+                                  ])
+                                }
+                              >
+                                + Add guest
+                              </button>
+                              <button
+                                className="shrink-0 rounded-lg bg-[#427aa1] px-3 py-1.5 text-xs font-semibold text-white hover:brightness-105 disabled:opacity-60"
+                                disabled={!draftChanged || guestsBusy}
+                                onClick={saveGuests}
+                              >
+                                {guestsBusy ? "Saving..." : "Save guest list"}
+                              </button>
+                            </div>
+                            <p
+                              className={`text-xs ${
+                                people > viewBooking.guestCount ? "text-red-700" : "text-slate-500"
+                              }`}
+                            >
+                              {guestDraft.length
+                                ? `${people} of ${viewBooking.guestCount} guest${
+                                    viewBooking.guestCount === 1 ? "" : "s"
+                                  } named. Linked family members see the stay and get emails about it.`
+                                : "Optional: name who's coming. Pets don't count as guests."}
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })()}
+
+                  {viewHistory.length > 0 && (
+                    <div className="pt-2">
+                      <div className="font-semibold text-slate-900">History</div>
+                      <ol className="mt-1 max-h-48 overflow-y-auto border-l-2 border-slate-200 pl-4 space-y-2 text-sm">
+                        {viewHistory.map((e) => (
+                          <li key={e.id}>
+                            <div className="text-slate-900">
+                              <span className="font-semibold">{bookingEventLabel(e.action)}</span>{" "}
+                              by {(e.actor_id && historyNames.get(e.actor_id)) || "someone"}
+                            </div>
+                            <div className="text-xs text-slate-500">
+                              {new Date(e.created_at).toLocaleString("en-US", {
+                                dateStyle: "medium",
+                                timeStyle: "short",
+                              })}
+                            </div>
+                            {e.action === "updated" &&
+                              describeBookingChanges(e).map((line) => (
+                                <div key={line} className="text-xs text-slate-600">
+                                  {line}
+                                </div>
+                              ))}
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  )}
                 </>
               ) : (
                 <>
@@ -994,6 +3066,9 @@ export default function CalendarPage() {
                       onChange={(e) => setEditGuestCount(e.target.value)}
                       inputMode="numeric"
                     />
+                    <p className="mt-2 text-xs text-slate-500">
+                      {describePolicy(policy).join(" ")}
+                    </p>
                   </div>
 
                   <div className="pt-3">
@@ -1011,12 +3086,166 @@ export default function CalendarPage() {
               )}
             </div>
 
+            {staleEdit && (
+              <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                {staleEdit.status !== "active" && staleEdit.status !== "pending" ? (
+                  <p>Someone else cancelled this booking while you were editing it.</p>
+                ) : (
+                  <>
+                    <p>Someone else saved this booking while you were editing it.</p>
+                    <table className="mt-3 w-full text-left text-xs">
+                      <thead>
+                        <tr className="text-amber-900">
+                          <th className="py-1 pr-2" />
+                          <th className="py-1 pr-2 font-semibold">You loaded</th>
+                          <th className="py-1 pr-2 font-semibold">Now saved</th>
+                          <th className="py-1 font-semibold">Your changes</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {[
+                          {
+                            label: "Dates",
+                            loaded: `${formatDate(viewBooking.start)} – ${formatDate(viewBooking.end)}`,
+                            stored: `${formatDate(staleEdit.start_date)} – ${formatDate(staleEdit.end_date)}`,
+                            mine: `${formatDate(editStart)} – ${formatDate(editEnd)}`,
+                          },
+                          {
+                            label: "Guests",
+                            loaded: String(viewBooking.guestCount),
+                            stored: String(staleEdit.guest_count),
+                            mine: editGuestCount,
+                          },
+                          {
+                            label: "Note",
+                            loaded: viewBooking.note || "—",
+                            stored: (staleEdit.note ?? "").trim() || "—",
+                            mine: editNote.trim() || "—",
+                          },
+                        ].map((row) => (
+                          <tr key={row.label} className="border-t border-amber-200 align-top">
+                            <td className="py-1 pr-2 font-semibold">{row.label}</td>
+                            <td className="py-1 pr-2">{row.loaded}</td>
+                            <td
+                              className={`py-1 pr-2 ${row.stored !== row.loaded ? "font-semibold" : ""}`}
+                            >
+                              {row.stored}
+                            </td>
+                            <td className={`py-1 ${row.mine !== row.loaded ? "font-semibold" : ""}`}>
+                              {row.mine}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </>
+                )}
+
+                <div className="mt-3 flex justify-end gap-2">
+                  <button
+                    className="rounded-lg border border-amber-300 bg-white px-3 py-1.5 text-xs font-semibold text-amber-900 hover:bg-amber-100"
+                    onClick={discardEdit}
+                  >
+                    {staleEdit.status !== "active" && staleEdit.status !== "pending"
+                      ? "Close"
+                      : "Discard my changes"}
+                  </button>
+                  {(staleEdit.status === "active" || staleEdit.status === "pending") && (
+                    <button
+                      className="rounded-lg bg-[#679436] px-3 py-1.5 text-xs font-semibold text-white hover:brightness-95 disabled:opacity-60"
+                      disabled={viewBusy}
+                      onClick={reapplyEdit}
+                    >
+                      Reapply my changes
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {viewConflict && (
+              <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                {viewConflict.status !== "active" && viewConflict.status !== "pending" ? (
+                  "Someone just cancelled this booking, so it can't be saved."
+                ) : (
+                  <>
+                    Someone else just changed this booking: it&apos;s now{" "}
+                    {formatDate(viewConflict.start_date)} – {formatDate(viewConflict.end_date)},{" "}
+                    {viewConflict.guest_count} guest{viewConflict.guest_count === 1 ? "" : "s"}.{" "}
+                    <button className="font-semibold underline" onClick={applyRemoteVersion}>
+                      Use their version
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+
             {viewError && (
               <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
                 {viewError}
               </div>
             )}
 
+            {viewBooking.reservationId &&
+              !viewBooking.seriesId &&
+              !confirmingArchive &&
+              !isEditingBooking &&
+              canCancelViewedBooking && (
+                <div className="mt-4">
+                  <label className="block text-sm font-semibold text-slate-900">Cancel</label>
+                  <select
+                    className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                    value={applyScope}
+                    onChange={(e) => setApplyScope(e.target.value as BookingScope)}
+                  >
+                    <option value="this">This house only</option>
+                    <option value="reservation">Every house in this reservation</option>
+                  </select>
+                </div>
+              )}
+
+            {viewBooking.seriesId &&
+              !confirmingArchive &&
+              (isEditingBooking || canCancelViewedBooking) && (
+                <div className="mt-4">
+                  <label className="block text-sm font-semibold text-slate-900">
+                    {isEditingBooking ? "Apply changes to" : "Cancel"}
+                  </label>
+                  <select
+                    className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                    value={applyScope}
+                    onChange={(e) => setApplyScope(e.target.value as BookingScope)}
+                  >
+                    <option value="this">This stay only</option>
+                    <option value="following">This and all later stays in the series</option>
+                  </select>
+                  {isEditingBooking && applyScope === "following" && (
+                    <p className="mt-1 text-xs text-slate-500">
+                      Later stays move by the same number of days and get the same guests and
+                      note.
+                    </p>
+                  )}
+                </div>
+              )}
+
+            {confirmingArchive && (
+              <div className="mt-4 rounded-lg border border-slate-200 bg-slate-50 px-4 py-3">
+                <label className="block text-sm font-semibold text-slate-900">
+                  Why is this booking being removed?
+                </label>
+                <textarea
+                  className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                  rows={2}
+                  value={archiveReason}
+                  onChange={(e) => setArchiveReason(e.target.value)}
+                  placeholder="Duplicate of another booking"
+                />
+                <p className="mt-1 text-xs text-slate-500">
+                  The booking moves to Trash, where an admin can restore it.
+                </p>
+              </div>
+            )}
+
             {!isEditingBooking && !canCancelViewedBooking && !isAdmin && (
               <div className="mt-4 rounded-lg border border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-600">
                 Only the person who created this booking can cancel it.
@@ -1027,9 +3256,14 @@ export default function CalendarPage() {
               <button
                 className="rounded-lg border border-slate-200 bg-white px-5 py-2.5 font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-60"
                 onClick={() => {
-                  if (isEditingBooking) {
+                  if (confirmingArchive) {
+                    setConfirmingArchive(false);
+                    setArchiveReason("");
+                    setViewError(null);
+                  } else if (isEditingBooking) {
                     setIsEditingBooking(false);
                     setViewError(null);
+                    setStaleEdit(null);
                     if (viewBooking) {
                       setEditStart(viewBooking.start.slice(0, 10));
                       setEditEnd(viewBooking.end.slice(0, 10));
@@ -1042,17 +3276,37 @@ export default function CalendarPage() {
                 }}
                 disabled={viewBusy}
               >
-                {isEditingBooking ? "Discard changes" : "Close"}
+                {isEditingBooking ? "Discard changes" : confirmingArchive ? "Back" : "Close"}
               </button>
 
               {isEditingBooking ? (
                 <button
                   className="rounded-lg bg-[#679436] px-5 py-2.5 font-semibold text-white hover:brightness-95 disabled:opacity-60"
-                  disabled={viewBusy}
-                  onClick={saveEditedBooking}
+                  disabled={viewBusy || !!staleEdit}
+                  onClick={() => saveEditedBooking()}
                 >
                   {viewBusy ? "Saving..." : "Save changes"}
                 </button>
+              ) : confirmingArchive ? (
+                <button
+                  className="rounded-lg bg-slate-900 px-5 py-2.5 font-semibold text-white hover:brightness-110 disabled:opacity-60"
+                  disabled={viewBusy || !archiveReason.trim()}
+                  onClick={async () => {
+                    if (!viewBooking) return;
+                    setViewBusy(true);
+                    setViewError(null);
+                    try {
+                      await adminArchiveBooking(viewBooking.bookingId, archiveReason.trim());
+                      closeViewModal();
+                    } catch (e) {
+                      setViewError(e instanceof Error ? e.message : "Archive failed.");
+                    } finally {
+                      setViewBusy(false);
+                    }
+                  }}
+                >
+                  {viewBusy ? "Archiving..." : "Archive booking"}
+                </button>
               ) : (
                 <>
                   {canEditViewedBooking && (
@@ -1082,7 +3336,7 @@ export default function CalendarPage() {
                         setViewBusy(true);
                         setViewError(null);
                         try {
-                          await cancelBooking(viewBooking.bookingId);
+                          await cancelBooking(viewBooking.bookingId, applyScope);
                           closeViewModal();
                         } catch (e: any) {
                           setViewError(e?.message ?? "Cancel failed.");
@@ -1099,20 +3353,12 @@ export default function CalendarPage() {
                     <button
                       className="rounded-lg bg-slate-900 px-5 py-2.5 font-semibold text-white hover:brightness-110 disabled:opacity-60"
                       disabled={viewBusy}
-                      onClick={async () => {
-                        setViewBusy(true);
+                      onClick={() => {
+                        setConfirmingArchive(true);
                         setViewError(null);
-                        try {
-                          await adminDeleteBooking(viewBooking.bookingId);
-                          closeViewModal();
-                        } catch (e: any) {
-                          setViewError(e?.message ?? "Admin delete failed.");
-                        } finally {
-                          setViewBusy(false);
-                        }
                       }}
                     >
-                      {viewBusy ? "Deleting..." : "Admin delete"}
+                      Admin delete
                     </button>
                   )}
                 </>
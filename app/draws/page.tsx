@@ -0,0 +1,685 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import toast, { Toaster } from "react-hot-toast";
+import {
+  DRAW_METHODS,
+  drawIsOpen,
+  type Draw,
+  type DrawMethod,
+  type DrawOutcome,
+  type DrawSlot,
+} from "@/lib/draws";
+
+type House = { id: number; name: string };
+
+type MyEntry = {
+  draw_id: number;
+  preferences: number[];
+  guest_count: number;
+  note: string | null;
+};
+
+type EntryForm = { ranking: number[]; guests: string; note: string };
+
+type SlotForm = { label: string; start: string; end: string };
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr + "T00:00:00").toLocaleDateString("en-US", {
+    month: "2-digit",
+    day: "2-digit",
+    year: "numeric",
+  });
+}
+
+async function getAccessToken() {
+  const session = (await supabase.auth.getSession()).data.session;
+  return session?.access_token ?? null;
+}
+
+export default function DrawsPage() {
+  const [loading, setLoading] = useState(true);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const [houses, setHouses] = useState<House[]>([]);
+  const [draws, setDraws] = useState<Draw[]>([]);
+  const [slotsByDraw, setSlotsByDraw] = useState<Map<number, DrawSlot[]>>(new Map());
+  const [resultsByDraw, setResultsByDraw] = useState<Map<number, DrawOutcome[]>>(new Map());
+  const [namesById, setNamesById] = useState<Map<string, string>>(new Map());
+  const [entryForms, setEntryForms] = useState<Record<number, EntryForm>>({});
+  const [enteredDrawIds, setEnteredDrawIds] = useState<Set<number>>(new Set());
+  const [busyDrawId, setBusyDrawId] = useState<number | null>(null);
+
+  // New draw form (admin)
+  const [newHouseId, setNewHouseId] = useState<number | null>(null);
+  const [newLabel, setNewLabel] = useState("");
+  const [newStart, setNewStart] = useState("");
+  const [newEnd, setNewEnd] = useState("");
+  const [newCloseAt, setNewCloseAt] = useState("");
+  const [newMethod, setNewMethod] = useState<DrawMethod>("lottery");
+  const [newSlots, setNewSlots] = useState<SlotForm[]>([{ label: "", start: "", end: "" }]);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data: authData } = await supabase.auth.getUser();
+      if (!authData.user) {
+        window.location.href = "/login";
+        return;
+      }
+      const userId = authData.user.id;
+
+      const [profileRes, houseRes, drawRes, slotRes, entryRes, resultRes] = await Promise.all([
+        supabase.from("profiles").select("is_admin").eq("id", userId).maybeSingle(),
+        supabase.from("houses").select("id,name").order("name", { ascending: true }),
+        supabase.from("draws").select("*").order("window_start", { ascending: false }),
+        supabase.from("draw_slots").select("id,draw_id,label,start_date,end_date"),
+        supabase
+          .from("draw_entries")
+          .select("draw_id,preferences,guest_count,note")
+          .eq("user_id", userId),
+        supabase
+          .from("draw_results")
+          .select("draw_id,user_id,position,ticket,past_wins,last_won,slot_id")
+          .order("position", { ascending: true }),
+      ]);
+
+      const err =
+        profileRes.error ??
+        houseRes.error ??
+        drawRes.error ??
+        slotRes.error ??
+        entryRes.error ??
+        resultRes.error;
+      if (err) {
+        toast.error(err.message);
+        setLoading(false);
+        return;
+      }
+
+      const slots = new Map<number, DrawSlot[]>();
+      ((slotRes.data ?? []) as DrawSlot[])
+        .sort((a, b) => a.start_date.localeCompare(b.start_date))
+        .forEach((s) => slots.set(s.draw_id, [...(slots.get(s.draw_id) ?? []), s]));
+
+      const results = new Map<number, DrawOutcome[]>();
+      (resultRes.data ?? []).forEach((r) =>
+        results.set(r.draw_id, [...(results.get(r.draw_id) ?? []), r as DrawOutcome])
+      );
+
+      const userIds = Array.from(new Set((resultRes.data ?? []).map((r) => r.user_id)));
+      const names = new Map<string, string>();
+      if (userIds.length) {
+        const { data: profileRows } = await supabase
+          .from("profiles")
+          .select("id,name,email")
+          .in("id", userIds);
+        (profileRows ?? []).forEach((p) => names.set(p.id, p.name || p.email || "Unknown"));
+      }
+
+      const forms: Record<number, EntryForm> = {};
+      const entries = (entryRes.data ?? []) as MyEntry[];
+      entries.forEach((e) => {
+        forms[e.draw_id] = {
+          ranking: e.preferences,
+          guests: String(e.guest_count),
+          note: e.note ?? "",
+        };
+      });
+
+      const houseList = (houseRes.data ?? []) as House[];
+      setIsAdmin(!!profileRes.data?.is_admin);
+      setHouses(houseList);
+      setNewHouseId((id) => id ?? houseList[0]?.id ?? null);
+      setDraws((drawRes.data ?? []) as Draw[]);
+      setSlotsByDraw(slots);
+      setResultsByDraw(results);
+      setNamesById(names);
+      setEntryForms(forms);
+      setEnteredDrawIds(new Set(entries.map((e) => e.draw_id)));
+      setLoading(false);
+    };
+
+    load();
+  }, [refreshKey]);
+
+  const houseName = (houseId: number) => houses.find((h) => h.id === houseId)?.name ?? "House";
+
+  const formFor = (drawId: number): EntryForm =>
+    entryForms[drawId] ?? { ranking: [], guests: "2", note: "" };
+
+  const updateForm = (drawId: number, patch: Partial<EntryForm>) =>
+    setEntryForms((f) => ({ ...f, [drawId]: { ...formFor(drawId), ...patch } }));
+
+  // Clicking a slot adds it as the next choice, or removes it from the ranking
+  const toggleRanked = (drawId: number, slotId: number) => {
+    const { ranking } = formFor(drawId);
+    updateForm(drawId, {
+      ranking: ranking.includes(slotId)
+        ? ranking.filter((id) => id !== slotId)
+        : [...ranking, slotId],
+    });
+  };
+
+  // -------------------------------
+  // MEMBER: SUBMIT / WITHDRAW ENTRY
+  // -------------------------------
+  const submitEntry = async (drawId: number, withdraw = false) => {
+    if (busyDrawId !== null) return;
+    const form = formFor(drawId);
+    if (!withdraw && !form.ranking.length) {
+      toast.error("Pick at least one slot.");
+      return;
+    }
+
+    setBusyDrawId(drawId);
+    try {
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const res = await fetch(`/api/draws/${drawId}/entry`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          accessToken,
+          slotIds: withdraw ? [] : form.ranking,
+          guestCount: Number(form.guests),
+          note: form.note,
+        }),
+      });
+      const body = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        toast.error(body?.error ?? "Could not save your request");
+        return;
+      }
+
+      toast.success(withdraw ? "Request withdrawn." : "Request saved.");
+      setRefreshKey((k) => k + 1);
+    } finally {
+      setBusyDrawId(null);
+    }
+  };
+
+  // -------------------------------
+  // ADMIN: RUN DRAW
+  // -------------------------------
+  const runDrawNow = async (draw: Draw) => {
+    if (busyDrawId !== null) return;
+    if (!window.confirm(`Run the ${draw.label} draw? Winners are booked right away.`)) return;
+
+    setBusyDrawId(draw.id);
+    try {
+      const accessToken = await getAccessToken();
+      if (!accessToken) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const res = await fetch(`/api/draws/${draw.id}/run`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accessToken }),
+      });
+      const body = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        toast.error(body?.error ?? "Draw failed");
+        return;
+      }
+
+      toast.success("Draw complete.");
+      setRefreshKey((k) => k + 1);
+    } finally {
+      setBusyDrawId(null);
+    }
+  };
+
+  const verifyDraw = async (drawId: number) => {
+    const accessToken = await getAccessToken();
+    if (!accessToken) {
+      window.location.href = "/login";
+      return;
+    }
+
+    const res = await fetch(`/api/draws/${drawId}/replay`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    const body = await res.json().catch(() => ({}));
+
+    if (!res.ok) {
+      toast.error(body?.error ?? "Replay failed");
+      return;
+    }
+
+    if (body.matches) {
+      toast.success("Replayed from the seed — same result.");
+    } else {
+      toast.error("Replay doesn't match the recorded result.");
+    }
+  };
+
+  // -------------------------------
+  // ADMIN: CREATE DRAW
+  // -------------------------------
+  const createDraw = async () => {
+    if (creating || !newHouseId) return;
+
+    const slots = newSlots.filter((s) => s.start || s.end || s.label.trim());
+    if (!newLabel.trim() || !newStart || !newEnd || !newCloseAt) {
+      toast.error("Label, window and request deadline are required.");
+      return;
+    }
+    if (newEnd <= newStart) {
+      toast.error("Window end must be after its start.");
+      return;
+    }
+    if (
+      !slots.length ||
+      slots.some((s) => !s.start || !s.end || s.end <= s.start || s.start < newStart || s.end > newEnd)
+    ) {
+      toast.error("Each slot needs dates inside the window.");
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const { data: authData } = await supabase.auth.getUser();
+      const { data: draw, error } = await supabase
+        .from("draws")
+        .insert({
+          house_id: newHouseId,
+          label: newLabel.trim(),
+          window_start: newStart,
+          window_end: newEnd,
+          requests_close_at: new Date(newCloseAt).toISOString(),
+          method: newMethod,
+          created_by: authData.user?.id,
+        })
+        .select("id")
+        .single();
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      const { error: slotErr } = await supabase.from("draw_slots").insert(
+        slots.map((s) => ({
+          draw_id: draw.id,
+          label: s.label.trim() || `${formatDate(s.start)} – ${formatDate(s.end)}`,
+          start_date: s.start,
+          end_date: s.end,
+        }))
+      );
+
+      if (slotErr) {
+        toast.error(slotErr.message);
+        return;
+      }
+
+      toast.success("Draw created.");
+      setNewLabel("");
+      setNewStart("");
+      setNewEnd("");
+      setNewCloseAt("");
+      setNewSlots([{ label: "", start: "", end: "" }]);
+      setRefreshKey((k) => k + 1);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const inputClass =
+    "mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30";
+
+  return (
+    <main className="min-h-screen p-6 bg-white">
+      <Toaster />
+      <div className="max-w-4xl mx-auto">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-4">
+          <div>
+            <h1 className="text-3xl font-extrabold tracking-tight text-slate-900">Draws</h1>
+            <p className="mt-2 text-sm text-slate-600">
+              High-demand weeks are handed out by draw, not first come, first served. Rank
+              the slots you want before requests close.
+            </p>
+          </div>
+
+          <Link
+            href="/calendar"
+            className="text-sm font-semibold text-[#064789] hover:underline"
+          >
+            Back to calendar
+          </Link>
+        </div>
+
+        {loading ? (
+          <p className="text-slate-700">Loading draws…</p>
+        ) : draws.length === 0 ? (
+          <p className="text-slate-700">No draws yet.</p>
+        ) : (
+          <div className="space-y-6">
+            {draws.map((draw) => {
+              const slots = slotsByDraw.get(draw.id) ?? [];
+              const results = resultsByDraw.get(draw.id) ?? [];
+              const open = drawIsOpen(draw);
+              const form = formFor(draw.id);
+              const slotLabel = (slotId: number | null) =>
+                slots.find((s) => s.id === slotId)?.label ?? "—";
+
+              return (
+                <div key={draw.id} className="surface p-6">
+                  <div className="flex flex-col sm:flex-row sm:justify-between gap-2">
+                    <div>
+                      <h2 className="text-xl font-semibold text-slate-900">{draw.label}</h2>
+                      <p className="mt-1 text-sm text-slate-600">
+                        {houseName(draw.house_id)} · {formatDate(draw.window_start)} –{" "}
+                        {formatDate(draw.window_end)} ·{" "}
+                        {draw.method === "rotation" ? "Rotation" : "Lottery"}
+                      </p>
+                    </div>
+                    <div className="text-sm text-slate-600 sm:text-right">
+                      {draw.status === "drawn"
+                        ? `Drawn ${new Date(draw.drawn_at!).toLocaleDateString("en-US")}`
+                        : open
+                          ? `Requests close ${new Date(draw.requests_close_at).toLocaleString("en-US")}`
+                          : "Requests closed — waiting for the draw"}
+                    </div>
+                  </div>
+
+                  {open && (
+                    <div className="mt-5">
+                      <div className="text-sm font-semibold text-slate-900">
+                        Your choices (click in order of preference)
+                      </div>
+                      <ul className="mt-2 space-y-2">
+                        {slots.map((s) => {
+                          const rank = form.ranking.indexOf(s.id);
+                          return (
+                            <li key={s.id}>
+                              <button
+                                className={`w-full rounded-xl border px-3 py-2 text-left text-sm ${
+                                  rank >= 0
+                                    ? "border-[#427aa1] bg-[#427aa1]/10"
+                                    : "border-slate-200 bg-white hover:bg-slate-50"
+                                }`}
+                                onClick={() => toggleRanked(draw.id, s.id)}
+                              >
+                                <span className="inline-block w-8 font-bold text-[#064789]">
+                                  {rank >= 0 ? `#${rank + 1}` : ""}
+                                </span>
+                                <span className="font-semibold text-slate-900">{s.label}</span>{" "}
+                                <span className="text-slate-600">
+                                  · {formatDate(s.start_date)} – {formatDate(s.end_date)}
+                                </span>
+                              </button>
+                            </li>
+                          );
+                        })}
+                      </ul>
+
+                      <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div>
+                          <label className="block text-sm font-semibold text-slate-900">
+                            Guests
+                          </label>
+                          <input
+                            className={inputClass}
+                            inputMode="numeric"
+                            value={form.guests}
+                            onChange={(e) => updateForm(draw.id, { guests: e.target.value })}
+                          />
+                        </div>
+                        <div className="sm:col-span-2">
+                          <label className="block text-sm font-semibold text-slate-900">
+                            Note (optional)
+                          </label>
+                          <input
+                            className={inputClass}
+                            value={form.note}
+                            onChange={(e) => updateForm(draw.id, { note: e.target.value })}
+                          />
+                        </div>
+                      </div>
+
+                      <div className="mt-5 flex justify-end gap-3">
+                        {enteredDrawIds.has(draw.id) && (
+                          <button
+                            className="rounded-lg border border-slate-200 bg-white px-5 py-2.5 font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-60"
+                            disabled={busyDrawId !== null}
+                            onClick={() => submitEntry(draw.id, true)}
+                          >
+                            Withdraw
+                          </button>
+                        )}
+                        <button
+                          className="rounded-lg bg-[#679436] px-5 py-2.5 font-semibold text-white hover:brightness-95 disabled:opacity-60"
+                          disabled={busyDrawId !== null}
+                          onClick={() => submitEntry(draw.id)}
+                        >
+                          {busyDrawId === draw.id
+                            ? "Saving..."
+                            : enteredDrawIds.has(draw.id)
+                              ? "Update request"
+                              : "Enter draw"}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {!open && draw.status === "open" && (
+                    <div className="mt-5 text-sm text-slate-700">
+                      {enteredDrawIds.has(draw.id)
+                        ? "You're in this draw."
+                        : "You didn't enter this draw."}
+                    </div>
+                  )}
+
+                  {isAdmin && !open && draw.status === "open" && (
+                    <div className="mt-5 flex justify-end">
+                      <button
+                        className="rounded-lg bg-slate-900 px-5 py-2.5 font-semibold text-white hover:brightness-110 disabled:opacity-60"
+                        disabled={busyDrawId !== null}
+                        onClick={() => runDrawNow(draw)}
+                      >
+                        {busyDrawId === draw.id ? "Drawing..." : "Run draw"}
+                      </button>
+                    </div>
+                  )}
+
+                  {draw.status === "drawn" && (
+                    <div className="mt-5">
+                      {results.length === 0 ? (
+                        <p className="text-sm text-slate-700">Nobody entered this draw.</p>
+                      ) : (
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-slate-600">
+                              <th className="py-1 pr-3 font-semibold">#</th>
+                              <th className="py-1 pr-3 font-semibold">Member</th>
+                              <th className="py-1 pr-3 font-semibold">Past wins</th>
+                              <th className="py-1 font-semibold">Won</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {results.map((r) => (
+                              <tr key={r.user_id} className="border-t border-slate-100">
+                                <td className="py-1 pr-3">{r.position}</td>
+                                <td className="py-1 pr-3 font-semibold text-slate-900">
+                                  {namesById.get(r.user_id) ?? "Unknown"}
+                                </td>
+                                <td className="py-1 pr-3">{r.past_wins}</td>
+                                <td className="py-1">{slotLabel(r.slot_id)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+
+                      <div className="mt-4 flex items-center justify-between gap-3 text-xs text-slate-500">
+                        <span className="break-all">Seed: {draw.seed}</span>
+                        <button
+                          className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50"
+                          onClick={() => verifyDraw(draw.id)}
+                        >
+                          Verify
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {!loading && isAdmin && (
+          <div className="surface p-6 mt-6">
+            <h2 className="text-xl font-semibold text-slate-900">New draw</h2>
+
+            <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-slate-900">Label</label>
+                <input
+                  className={inputClass}
+                  value={newLabel}
+                  onChange={(e) => setNewLabel(e.target.value)}
+                  placeholder="Thanksgiving 2026"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-900">House</label>
+                <select
+                  className={inputClass}
+                  value={newHouseId ?? ""}
+                  onChange={(e) => setNewHouseId(Number(e.target.value))}
+                >
+                  {houses.map((h) => (
+                    <option key={h.id} value={h.id}>
+                      {h.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-900">Window start</label>
+                <input
+                  type="date"
+                  className={inputClass}
+                  value={newStart}
+                  onChange={(e) => setNewStart(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-900">
+                  Window end (first day after)
+                </label>
+                <input
+                  type="date"
+                  className={inputClass}
+                  value={newEnd}
+                  onChange={(e) => setNewEnd(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-900">
+                  Requests close
+                </label>
+                <input
+                  type="datetime-local"
+                  className={inputClass}
+                  value={newCloseAt}
+                  onChange={(e) => setNewCloseAt(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-900">Method</label>
+                <select
+                  className={inputClass}
+                  value={newMethod}
+                  onChange={(e) => setNewMethod(e.target.value as DrawMethod)}
+                >
+                  {DRAW_METHODS.map((m) => (
+                    <option key={m.value} value={m.value}>
+                      {m.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="mt-5 text-sm font-semibold text-slate-900">
+              Slots (one winner each)
+            </div>
+            <div className="mt-2 space-y-2">
+              {newSlots.map((s, i) => (
+                <div key={i} className="grid grid-cols-1 sm:grid-cols-[1fr_auto_auto_auto] gap-2">
+                  <input
+                    className={inputClass}
+                    placeholder="Label (optional)"
+                    value={s.label}
+                    onChange={(e) =>
+                      setNewSlots((list) =>
+                        list.map((x, j) => (j === i ? { ...x, label: e.target.value } : x))
+                      )
+                    }
+                  />
+                  <input
+                    type="date"
+                    className={inputClass}
+                    value={s.start}
+                    onChange={(e) =>
+                      setNewSlots((list) =>
+                        list.map((x, j) => (j === i ? { ...x, start: e.target.value } : x))
+                      )
+                    }
+                  />
+                  <input
+                    type="date"
+                    className={inputClass}
+                    value={s.end}
+                    onChange={(e) =>
+                      setNewSlots((list) =>
+                        list.map((x, j) => (j === i ? { ...x, end: e.target.value } : x))
+                      )
+                    }
+                  />
+                  <button
+                    className="mt-1 rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-60"
+                    disabled={newSlots.length === 1}
+                    onClick={() => setNewSlots((list) => list.filter((_, j) => j !== i))}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              className="mt-3 text-sm font-semibold text-[#064789] hover:underline"
+              onClick={() => setNewSlots((list) => [...list, { label: "", start: "", end: "" }])}
+            >
+              + Add slot
+            </button>
+
+            <div className="mt-6 flex justify-end">
+              <button
+                className="rounded-lg bg-[#427aa1] px-5 py-2.5 font-semibold text-white hover:brightness-105 disabled:opacity-60"
+                disabled={creating}
+                onClick={createDraw}
+              >
+                {creating ? "Creating..." : "Create draw"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,498 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import toast, { Toaster } from "react-hot-toast";
+import { describePolicy, type Blackout, type BookingPolicy } from "@/lib/bookingRules";
+import { loadHousePolicy } from "@/lib/housePolicies";
+import { loadHouseRooms, type HouseRoom } from "@/lib/houseRooms";
+
+type House = { id: number; name: string };
+
+// Form state is strings so fields can be blank ("no limit")
+type PolicyForm = Record<keyof BookingPolicy, string>;
+
+const POLICY_FIELDS: { key: keyof BookingPolicy; label: string; required?: boolean }[] = [
+  { key: "min_nights", label: "Min nights", required: true },
+  { key: "max_nights", label: "Max nights", required: true },
+  { key: "max_guests_per_booking", label: "Max guests per booking" },
+  { key: "max_advance_days", label: "Book at most this many days ahead" },
+  { key: "max_future_bookings", label: "Max upcoming bookings per member" },
+  { key: "min_gap_days", label: "Min days between a member's stays" },
+];
+
+function toForm(policy: BookingPolicy): PolicyForm {
+  const form = {} as PolicyForm;
+  POLICY_FIELDS.forEach(({ key }) => {
+    form[key] = policy[key] === null ? "" : String(policy[key]);
+  });
+  return form;
+}
+
+// What the form would save, or null while a required field is invalid
+function parseForm(form: PolicyForm): BookingPolicy | null {
+  const values = {} as Record<keyof BookingPolicy, number | null>;
+  for (const { key, required } of POLICY_FIELDS) {
+    const raw = form[key].trim();
+    const n = Number(raw);
+    if (raw && (!Number.isInteger(n) || n < 1)) return null;
+    if (!raw && required) return null;
+    values[key] = raw ? n : null;
+  }
+  const policy = values as BookingPolicy;
+  return policy.max_nights >= policy.min_nights ? policy : null;
+}
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr + "T00:00:00").toLocaleDateString("en-US", {
+    month: "2-digit",
+    day: "2-digit",
+    year: "numeric",
+  });
+}
+
+export default function PoliciesPage() {
+  const [loading, setLoading] = useState(true);
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+  const [houses, setHouses] = useState<House[]>([]);
+  const [selectedHouseId, setSelectedHouseId] = useState<number | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const [form, setForm] = useState<PolicyForm | null>(null);
+  const [blackouts, setBlackouts] = useState<Blackout[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const [blackoutStart, setBlackoutStart] = useState("");
+  const [blackoutEnd, setBlackoutEnd] = useState("");
+  const [blackoutReason, setBlackoutReason] = useState("");
+
+  const [rooms, setRooms] = useState<HouseRoom[]>([]);
+  const [roomName, setRoomName] = useState("");
+  const [roomBeds, setRoomBeds] = useState("1");
+  const [roomSleeps, setRoomSleeps] = useState("2");
+
+  useEffect(() => {
+    const load = async () => {
+      const { data: authData } = await supabase.auth.getUser();
+      if (!authData.user) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const { data: profile, error: profErr } = await supabase
+        .from("profiles")
+        .select("is_admin")
+        .eq("id", authData.user.id)
+        .maybeSingle();
+
+      if (profErr || !profile?.is_admin) {
+        if (profErr) toast.error(profErr.message);
+        setIsAdmin(false);
+        setLoading(false);
+        return;
+      }
+      setIsAdmin(true);
+
+      const { data, error } = await supabase
+        .from("houses")
+        .select("id,name")
+        .order("name", { ascending: true });
+
+      if (error) {
+        toast.error(error.message);
+        setLoading(false);
+        return;
+      }
+
+      const list = (data ?? []) as House[];
+      setHouses(list);
+      setSelectedHouseId(list[0]?.id ?? null);
+      setLoading(false);
+    };
+
+    load();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedHouseId) return;
+
+    Promise.all([
+      loadHousePolicy(supabase, selectedHouseId),
+      loadHouseRooms(supabase, selectedHouseId),
+    ])
+      .then(([{ policy, blackouts }, rooms]) => {
+        setForm(toForm(policy));
+        setBlackouts(blackouts);
+        setRooms(rooms);
+      })
+      .catch((e) => toast.error(e instanceof Error ? e.message : "Could not load policy"));
+  }, [selectedHouseId, refreshKey]);
+
+  const savePolicy = async () => {
+    if (!form || !selectedHouseId || saving) return;
+
+    const values = parseForm(form);
+    if (!values) {
+      toast.error(
+        "Limits must be whole numbers ≥ 1, and max nights can't be below min nights."
+      );
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("house_policies").upsert(
+        { house_id: selectedHouseId, ...values, updated_at: new Date().toISOString() },
+        { onConflict: "house_id" }
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success("Policy saved.");
+      setRefreshKey((k) => k + 1);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addBlackout = async () => {
+    if (!selectedHouseId) return;
+    if (!blackoutStart || !blackoutEnd || blackoutEnd <= blackoutStart) {
+      toast.error("Pick a start and an end after it.");
+      return;
+    }
+
+    const { data: authData } = await supabase.auth.getUser();
+    const { error } = await supabase.from("house_blackouts").insert({
+      house_id: selectedHouseId,
+      start_date: blackoutStart,
+      end_date: blackoutEnd,
+      reason: blackoutReason.trim() || null,
+      created_by: authData.user?.id,
+    });
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    toast.success("Blackout added.");
+    setBlackoutStart("");
+    setBlackoutEnd("");
+    setBlackoutReason("");
+    setRefreshKey((k) => k + 1);
+  };
+
+  const removeBlackout = async (id: number) => {
+    const { error } = await supabase.from("house_blackouts").delete().eq("id", id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success("Blackout removed.");
+    setRefreshKey((k) => k + 1);
+  };
+
+  const addRoom = async () => {
+    if (!selectedHouseId) return;
+    const beds = Number(roomBeds);
+    const sleeps = Number(roomSleeps);
+    if (!roomName.trim()) {
+      toast.error("Give the room a name.");
+      return;
+    }
+    if (!Number.isInteger(beds) || beds < 1 || !Number.isInteger(sleeps) || sleeps < 1) {
+      toast.error("Beds and sleeps must be whole numbers ≥ 1.");
+      return;
+    }
+
+    const { error } = await supabase.from("house_rooms").insert({
+      house_id: selectedHouseId,
+      name: roomName.trim(),
+      beds,
+      sleeps,
+      sort_order: rooms.length,
+    });
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    toast.success("Room added.");
+    setRoomName("");
+    setRoomBeds("1");
+    setRoomSleeps("2");
+    setRefreshKey((k) => k + 1);
+  };
+
+  const removeRoom = async (id: number) => {
+    const { error } = await supabase.from("house_rooms").delete().eq("id", id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success("Room removed.");
+    setRefreshKey((k) => k + 1);
+  };
+
+  const preview = form ? parseForm(form) : null;
+
+  const inputClass =
+    "mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30";
+
+  if (loading) {
+    return (
+      <main className="min-h-screen p-6 bg-white">
+        <Toaster />
+        <div className="max-w-4xl mx-auto">
+          <p className="text-slate-700">Loading policies…</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (isAdmin === false) {
+    return (
+      <main className="min-h-screen p-6 bg-white">
+        <Toaster />
+        <div className="max-w-4xl mx-auto">
+          <h1 className="text-2xl font-bold text-slate-900">Booking policies (admin only)</h1>
+          <p className="mt-2 text-slate-700">You must be an admin to edit booking policies.</p>
+          <div className="mt-4">
+            <Link
+              href="/calendar"
+              className="text-sm font-semibold text-[#064789] hover:underline"
+            >
+              Back to calendar
+            </Link>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-6 bg-white">
+      <Toaster />
+      <div className="max-w-4xl mx-auto">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-4">
+          <div>
+            <h1 className="text-3xl font-extrabold tracking-tight text-slate-900">
+              Booking policies
+            </h1>
+            <p className="mt-2 text-sm text-slate-600">
+              Limits checked when members book or edit a stay, plus each house&apos;s rooms.
+              Leave a field blank for no limit.
+            </p>
+          </div>
+
+          <div className="w-full sm:w-72 space-y-2">
+            <select
+              className="w-full rounded-lg border border-slate-200 bg-white p-3 text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+              value={selectedHouseId ?? ""}
+              onChange={(e) => setSelectedHouseId(Number(e.target.value))}
+            >
+              {houses.map((h) => (
+                <option key={h.id} value={h.id}>
+                  {h.name}
+                </option>
+              ))}
+            </select>
+            <div className="flex justify-end">
+              <Link
+                href="/calendar"
+                className="text-sm font-semibold text-[#064789] hover:underline"
+              >
+                Back to calendar
+              </Link>
+            </div>
+          </div>
+        </div>
+
+        {form && (
+          <div className="surface p-6">
+            <h2 className="text-xl font-semibold text-slate-900">Limits</h2>
+
+            <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {POLICY_FIELDS.map((f) => (
+                <div key={f.key}>
+                  <label className="block text-sm font-semibold text-slate-900">{f.label}</label>
+                  <input
+                    className={inputClass}
+                    inputMode="numeric"
+                    placeholder={f.required ? "" : "No limit"}
+                    value={form[f.key]}
+                    onChange={(e) => setForm({ ...form, [f.key]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-7 flex items-center justify-between gap-4">
+              <p className="text-xs text-slate-500">
+                {preview ? `Members see: ${describePolicy(preview).join(" ")}` : ""}
+              </p>
+              <button
+                className="rounded-lg bg-[#679436] px-5 py-2.5 font-semibold text-white hover:brightness-95 disabled:opacity-60"
+                disabled={saving}
+                onClick={savePolicy}
+              >
+                {saving ? "Saving..." : "Save policy"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="surface p-6 mt-6">
+          <h2 className="text-xl font-semibold text-slate-900">Blackout dates</h2>
+          <p className="mt-1 text-sm text-slate-600">Nobody can book these dates.</p>
+
+          {blackouts.length === 0 ? (
+            <p className="mt-4 text-sm text-slate-700">No upcoming blackouts.</p>
+          ) : (
+            <ul className="mt-4 space-y-2">
+              {blackouts.map((b) => (
+                <li
+                  key={b.id}
+                  className="flex items-center justify-between rounded-xl bg-slate-50 px-3 py-2 text-sm"
+                >
+                  <div>
+                    <span className="font-semibold text-slate-900">
+                      {formatDate(b.start_date)} – {formatDate(b.end_date)}
+                    </span>
+                    {b.reason && <span className="text-slate-600"> · {b.reason}</span>}
+                  </div>
+                  <button
+                    className="ml-3 rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50"
+                    onClick={() => removeBlackout(b.id)}
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="mt-6 grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-slate-900">Start</label>
+              <input
+                type="date"
+                className={inputClass}
+                value={blackoutStart}
+                onChange={(e) => setBlackoutStart(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-900">
+                End (first day after)
+              </label>
+              <input
+                type="date"
+                className={inputClass}
+                value={blackoutEnd}
+                onChange={(e) => setBlackoutEnd(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-900">Reason</label>
+              <input
+                className={inputClass}
+                value={blackoutReason}
+                onChange={(e) => setBlackoutReason(e.target.value)}
+                placeholder="Roof repair"
+              />
+            </div>
+          </div>
+
+          <div className="mt-6 flex justify-end">
+            <button
+              className="rounded-lg bg-[#427aa1] px-5 py-2.5 font-semibold text-white hover:brightness-105 disabled:opacity-60"
+              onClick={addBlackout}
+            >
+              Add blackout
+            </button>
+          </div>
+        </div>
+
+        <div className="surface p-6 mt-6">
+          <h2 className="text-xl font-semibold text-slate-900">Rooms</h2>
+          <p className="mt-1 text-sm text-slate-600">
+            Members claim rooms for their stay. Removing a room drops it from every booking.
+          </p>
+
+          {rooms.length === 0 ? (
+            <p className="mt-4 text-sm text-slate-700">No rooms set up for this house.</p>
+          ) : (
+            <ul className="mt-4 space-y-2">
+              {rooms.map((r) => (
+                <li
+                  key={r.id}
+                  className="flex items-center justify-between rounded-xl bg-slate-50 px-3 py-2 text-sm"
+                >
+                  <div>
+                    <span className="font-semibold text-slate-900">{r.name}</span>
+                    <span className="text-slate-600">
+                      {" "}
+                      · {r.beds} bed{r.beds === 1 ? "" : "s"} · sleeps {r.sleeps}
+                    </span>
+                  </div>
+                  <button
+                    className="ml-3 rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50"
+                    onClick={() => removeRoom(r.id)}
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="mt-6 grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-slate-900">Name</label>
+              <input
+                className={inputClass}
+                value={roomName}
+                onChange={(e) => setRoomName(e.target.value)}
+                placeholder="Master bedroom"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-900">Beds</label>
+              <input
+                className={inputClass}
+                inputMode="numeric"
+                value={roomBeds}
+                onChange={(e) => setRoomBeds(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-900">Sleeps</label>
+              <input
+                className={inputClass}
+                inputMode="numeric"
+                value={roomSleeps}
+                onChange={(e) => setRoomSleeps(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="mt-6 flex justify-end">
+            <button
+              className="rounded-lg bg-[#427aa1] px-5 py-2.5 font-semibold text-white hover:brightness-105 disabled:opacity-60"
+              onClick={addRoom}
+            >
+              Add room
+            </button>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
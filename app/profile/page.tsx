@@ -0,0 +1,319 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import toast, { Toaster } from "react-hot-toast";
+import {
+  NOTIFICATION_EVENTS,
+  defaultPreferences,
+  type NotificationEvent,
+  type NotificationPreferences,
+} from "@/lib/notificationPreferences";
+
+type House = { id: number; name: string };
+
+export default function ProfilePage() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [houses, setHouses] = useState<House[]>([]);
+  const [profileName, setProfileName] = useState("");
+  const [profileEmail, setProfileEmail] = useState("");
+  const [prefs, setPrefs] = useState<NotificationPreferences | null>(null);
+  const [feedToken, setFeedToken] = useState<string | null>(null);
+  const [rotating, setRotating] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data: authData } = await supabase.auth.getUser();
+      if (!authData.user) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const userId = authData.user.id;
+
+      const [houseRes, profileRes, prefRes, feedRes] = await Promise.all([
+        supabase.from("houses").select("id,name").order("name", { ascending: true }),
+        supabase.from("profiles").select("name,email").eq("id", userId).maybeSingle(),
+        supabase
+          .from("notification_preferences")
+          .select("user_id,house_ids,events,delivery,unsubscribed")
+          .eq("user_id", userId)
+          .maybeSingle(),
+        supabase.from("calendar_feed_tokens").select("token").eq("user_id", userId).maybeSingle(),
+      ]);
+
+      const err = houseRes.error ?? profileRes.error ?? prefRes.error ?? feedRes.error;
+      if (err) {
+        toast.error(err.message);
+        setLoading(false);
+        return;
+      }
+
+      setHouses((houseRes.data ?? []) as House[]);
+      setProfileName(profileRes.data?.name ?? "");
+      setProfileEmail(profileRes.data?.email ?? authData.user.email ?? "");
+      setPrefs((prefRes.data as NotificationPreferences | null) ?? defaultPreferences(userId));
+      setFeedToken(feedRes.data?.token ?? null);
+      setLoading(false);
+    };
+
+    load();
+  }, []);
+
+  const toggleHouse = (houseId: number) => {
+    if (!prefs) return;
+    const current = prefs.house_ids ?? houses.map((h) => h.id);
+    const next = current.includes(houseId)
+      ? current.filter((id) => id !== houseId)
+      : [...current, houseId];
+    // Every house selected = follow new houses too
+    setPrefs({ ...prefs, house_ids: next.length === houses.length ? null : next });
+  };
+
+  const toggleEvent = (event: NotificationEvent) => {
+    if (!prefs) return;
+    const next = prefs.events.includes(event)
+      ? prefs.events.filter((e) => e !== event)
+      : [...prefs.events, event];
+    setPrefs({ ...prefs, events: next });
+  };
+
+  const savePreferences = async () => {
+    if (!prefs || saving) return;
+    setSaving(true);
+
+    try {
+      const { error } = await supabase.from("notification_preferences").upsert(
+        {
+          user_id: prefs.user_id,
+          house_ids: prefs.house_ids,
+          events: prefs.events,
+          delivery: prefs.delivery,
+          unsubscribed: prefs.unsubscribed,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id" }
+      );
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      toast.success("Preferences saved.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // -------------------------------
+  // CALENDAR FEEDS
+  // -------------------------------
+  const rotateFeedToken = async () => {
+    if (rotating) return;
+    if (feedToken && !window.confirm("Old feed links will stop working. Continue?")) return;
+
+    setRotating(true);
+    try {
+      const session = (await supabase.auth.getSession()).data.session;
+      const accessToken = session?.access_token;
+      if (!accessToken) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const res = await fetch("/api/ical/token", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accessToken }),
+      });
+      const body = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        toast.error(body?.error ?? "Could not create feed link");
+        return;
+      }
+
+      setFeedToken(body.token);
+      toast.success(feedToken ? "Feed links rotated." : "Feed links created.");
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  const feedUrl = (path: string) =>
+    `${window.location.origin}/api/ical/${path}?token=${feedToken}`;
+
+  const copyFeedUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Link copied.");
+    } catch {
+      toast.error("Copy failed — select the link and copy it manually.");
+    }
+  };
+
+  return (
+    <main className="min-h-screen p-6 bg-white">
+      <Toaster />
+      <div className="max-w-3xl mx-auto">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-4">
+          <div>
+            <h1 className="text-3xl font-extrabold tracking-tight text-slate-900">
+              Your profile
+            </h1>
+            {!loading && (
+              <p className="mt-2 text-sm text-slate-600">
+                {profileName || "No name set"} · {profileEmail}
+              </p>
+            )}
+          </div>
+
+          <Link
+            href="/calendar"
+            className="text-sm font-semibold text-[#064789] hover:underline"
+          >
+            Back to calendar
+          </Link>
+        </div>
+
+        {loading || !prefs ? (
+          <p className="text-slate-700">Loading profile…</p>
+        ) : (
+          <div className="surface p-6">
+            <h2 className="text-xl font-semibold text-slate-900">Booking emails</h2>
+            <p className="mt-1 text-sm text-slate-600">
+              Choose which bookings you hear about and how often.
+            </p>
+
+            <label className="mt-5 flex items-center gap-3 text-sm text-slate-900">
+              <input
+                type="checkbox"
+                checked={!prefs.unsubscribed}
+                onChange={(e) => setPrefs({ ...prefs, unsubscribed: !e.target.checked })}
+              />
+              <span className="font-semibold">Send me booking emails</span>
+            </label>
+
+            <fieldset className="mt-5" disabled={prefs.unsubscribed}>
+              <legend className="text-sm font-semibold text-slate-900">Houses</legend>
+              <div className="mt-2 space-y-2">
+                {houses.map((h) => (
+                  <label key={h.id} className="flex items-center gap-3 text-sm text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={prefs.house_ids === null || prefs.house_ids.includes(h.id)}
+                      onChange={() => toggleHouse(h.id)}
+                    />
+                    {h.name}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <fieldset className="mt-5" disabled={prefs.unsubscribed}>
+              <legend className="text-sm font-semibold text-slate-900">Events</legend>
+              <div className="mt-2 space-y-2">
+                {NOTIFICATION_EVENTS.map((e) => (
+                  <label key={e.value} className="flex items-center gap-3 text-sm text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={prefs.events.includes(e.value)}
+                      onChange={() => toggleEvent(e.value)}
+                    />
+                    {e.label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <fieldset className="mt-5" disabled={prefs.unsubscribed}>
+              <legend className="text-sm font-semibold text-slate-900">Delivery</legend>
+              <div className="mt-2 space-y-2">
+                <label className="flex items-center gap-3 text-sm text-slate-700">
+                  <input
+                    type="radio"
+                    name="delivery"
+                    checked={prefs.delivery === "immediate"}
+                    onChange={() => setPrefs({ ...prefs, delivery: "immediate" })}
+                  />
+                  Right away — one email per booking change
+                </label>
+                <label className="flex items-center gap-3 text-sm text-slate-700">
+                  <input
+                    type="radio"
+                    name="delivery"
+                    checked={prefs.delivery === "digest"}
+                    onChange={() => setPrefs({ ...prefs, delivery: "digest" })}
+                  />
+                  Digest — the weekly summary lists the changes instead of one email each
+                </label>
+              </div>
+            </fieldset>
+
+            <div className="mt-7 flex justify-end">
+              <button
+                className="rounded-lg bg-[#679436] px-5 py-2.5 font-semibold text-white hover:brightness-95 disabled:opacity-60"
+                disabled={saving}
+                onClick={savePreferences}
+              >
+                {saving ? "Saving..." : "Save preferences"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {!loading && (
+          <div className="surface p-6 mt-6">
+            <h2 className="text-xl font-semibold text-slate-900">Calendar feeds</h2>
+            <p className="mt-1 text-sm text-slate-600">
+              Subscribe in Google or Apple Calendar with these links. Anyone with a link can
+              see the bookings in it, so keep them private.
+            </p>
+
+            {feedToken ? (
+              <ul className="mt-4 space-y-3">
+                {[
+                  { label: "My stays (all houses)", path: "me" },
+                  ...houses.map((h) => ({ label: h.name, path: String(h.id) })),
+                ].map((f) => (
+                  <li key={f.path}>
+                    <div className="text-sm font-semibold text-slate-900">{f.label}</div>
+                    <div className="mt-1 flex gap-2">
+                      <input
+                        readOnly
+                        className="w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-700"
+                        value={feedUrl(f.path)}
+                        onFocus={(e) => e.target.select()}
+                      />
+                      <button
+                        className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs font-semibold text-slate-700 hover:bg-slate-50"
+                        onClick={() => copyFeedUrl(feedUrl(f.path))}
+                      >
+                        Copy
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mt-4 text-sm text-slate-700">You don&apos;t have feed links yet.</p>
+            )}
+
+            <div className="mt-6 flex justify-end">
+              <button
+                className="rounded-lg bg-[#427aa1] px-5 py-2.5 font-semibold text-white hover:brightness-105 disabled:opacity-60"
+                disabled={rotating}
+                onClick={rotateFeedToken}
+              >
+                {rotating ? "Working..." : feedToken ? "Rotate secret" : "Create feed links"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
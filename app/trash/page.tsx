@@ -0,0 +1,277 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import toast, { Toaster } from "react-hot-toast";
+
+type House = { id: number; name: string };
+
+type RemovedBooking = {
+  id: number;
+  house_id: number;
+  created_by: string;
+  guest_count: number;
+  start_date: string;
+  end_date: string;
+  status: "archived" | "cancelled";
+  note: string | null;
+  cancelled_at: string | null;
+  archived_at: string | null;
+  archived_by: string | null;
+  archive_reason: string | null;
+};
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr + "T00:00:00").toLocaleDateString("en-US", {
+    month: "2-digit",
+    day: "2-digit",
+    year: "numeric",
+  });
+}
+
+function formatTimestamp(ts: string | null) {
+  if (!ts) return "";
+  return new Date(ts).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+}
+
+export default function TrashPage() {
+  const [loading, setLoading] = useState(true);
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const [houses, setHouses] = useState<House[]>([]);
+  const [bookings, setBookings] = useState<RemovedBooking[]>([]);
+  const [namesById, setNamesById] = useState<Map<string, string>>(new Map());
+  const [restoreBusyId, setRestoreBusyId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data: authData } = await supabase.auth.getUser();
+      if (!authData.user) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const { data: profile, error: profErr } = await supabase
+        .from("profiles")
+        .select("is_admin")
+        .eq("id", authData.user.id)
+        .maybeSingle();
+
+      if (profErr || !profile?.is_admin) {
+        if (profErr) toast.error(profErr.message);
+        setIsAdmin(false);
+        setLoading(false);
+        return;
+      }
+      setIsAdmin(true);
+
+      const [houseRes, bookingRes] = await Promise.all([
+        supabase.from("houses").select("id,name").order("name", { ascending: true }),
+        supabase
+          .from("bookings")
+          .select(
+            "id,house_id,created_by,guest_count,start_date,end_date,status,note,cancelled_at,archived_at,archived_by,archive_reason"
+          )
+          .in("status", ["archived", "cancelled"])
+          .order("start_date", { ascending: false }),
+      ]);
+
+      const err = houseRes.error ?? bookingRes.error;
+      if (err) {
+        toast.error(err.message);
+        setLoading(false);
+        return;
+      }
+
+      const rows = (bookingRes.data ?? []) as RemovedBooking[];
+      const userIds = new Set<string>();
+      rows.forEach((b) => {
+        userIds.add(b.created_by);
+        if (b.archived_by) userIds.add(b.archived_by);
+      });
+
+      const names = new Map<string, string>();
+      if (userIds.size) {
+        const { data: profileRows, error: namesErr } = await supabase
+          .from("profiles")
+          .select("id,name,email")
+          .in("id", Array.from(userIds));
+        if (namesErr) toast.error(namesErr.message);
+        (profileRows ?? []).forEach((p) => names.set(p.id, p.name || p.email || "Unknown"));
+      }
+
+      setHouses((houseRes.data ?? []) as House[]);
+      setBookings(rows);
+      setNamesById(names);
+      setLoading(false);
+    };
+
+    load();
+  }, [refreshKey]);
+
+  const houseName = (houseId: number) => houses.find((h) => h.id === houseId)?.name ?? "House";
+
+  // -------------------------------
+  // RESTORE
+  // -------------------------------
+  const restore = async (booking: RemovedBooking, force = false) => {
+    if (restoreBusyId !== null && !force) return;
+    setRestoreBusyId(booking.id);
+
+    try {
+      const session = (await supabase.auth.getSession()).data.session;
+      const accessToken = session?.access_token;
+      if (!accessToken) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const res = await fetch(`/api/bookings/${booking.id}/restore`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accessToken, force }),
+      });
+      const body = await res.json().catch(() => ({}));
+
+      // Over capacity is the one conflict an admin may knowingly accept
+      if (body?.code === "over_capacity") {
+        if (window.confirm(`${body.error} Restore anyway?`)) await restore(booking, true);
+        return;
+      }
+
+      if (!res.ok) {
+        toast.error(body?.error ?? "Restore failed");
+        return;
+      }
+
+      toast.success(
+        body?.status === "pending"
+          ? "Booking restored. It's waiting for peak-date approval again."
+          : "Booking restored."
+      );
+      setRefreshKey((k) => k + 1);
+    } finally {
+      setRestoreBusyId(null);
+    }
+  };
+
+  const archived = bookings.filter((b) => b.status === "archived");
+  const cancelled = bookings.filter((b) => b.status === "cancelled");
+
+  const renderList = (list: RemovedBooking[], empty: string) =>
+    list.length === 0 ? (
+      <p className="mt-4 text-sm text-slate-700">{empty}</p>
+    ) : (
+      <ul className="mt-4 space-y-3">
+        {list.map((b) => (
+          <li key={b.id} className="rounded-xl border border-slate-200 px-4 py-3">
+            <div className="flex flex-col sm:flex-row sm:justify-between gap-2">
+              <div className="text-sm">
+                <div className="font-semibold text-slate-900">
+                  {namesById.get(b.created_by) ?? "Unknown"} · {houseName(b.house_id)}
+                </div>
+                <div className="text-slate-600">
+                  {formatDate(b.start_date)} – {formatDate(b.end_date)} · {b.guest_count} guest
+                  {b.guest_count === 1 ? "" : "s"}
+                </div>
+                {b.status === "archived" ? (
+                  <div className="mt-1 text-slate-600">
+                    Archived {formatTimestamp(b.archived_at)}
+                    {b.archived_by && ` by ${namesById.get(b.archived_by) ?? "an admin"}`}
+                    {b.archive_reason && (
+                      <span className="text-slate-900"> · {b.archive_reason}</span>
+                    )}
+                  </div>
+                ) : (
+                  b.cancelled_at && (
+                    <div className="mt-1 text-slate-600">
+                      Cancelled {formatTimestamp(b.cancelled_at)}
+                    </div>
+                  )
+                )}
+              </div>
+
+              <div className="flex items-start">
+                <button
+                  className="rounded-lg bg-[#679436] px-3 py-1.5 text-xs font-semibold text-white hover:brightness-95 disabled:opacity-60"
+                  disabled={restoreBusyId !== null}
+                  onClick={() => restore(b)}
+                >
+                  {restoreBusyId === b.id ? "Restoring..." : "Restore"}
+                </button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    );
+
+  if (loading) {
+    return (
+      <main className="min-h-screen p-6 bg-white">
+        <Toaster />
+        <div className="max-w-4xl mx-auto">
+          <p className="text-slate-700">Loading trash…</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (isAdmin === false) {
+    return (
+      <main className="min-h-screen p-6 bg-white">
+        <Toaster />
+        <div className="max-w-4xl mx-auto">
+          <h1 className="text-2xl font-bold text-slate-900">Trash (admin only)</h1>
+          <p className="mt-2 text-slate-700">You must be an admin to restore bookings.</p>
+          <div className="mt-4">
+            <Link
+              href="/calendar"
+              className="text-sm font-semibold text-[#064789] hover:underline"
+            >
+              Back to calendar
+            </Link>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-6 bg-white">
+      <Toaster />
+      <div className="max-w-4xl mx-auto">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-4">
+          <div>
+            <h1 className="text-3xl font-extrabold tracking-tight text-slate-900">Trash</h1>
+            <p className="mt-2 text-sm text-slate-600">
+              Restoring re-checks the house policy and capacity, like a new booking.
+            </p>
+          </div>
+
+          <Link
+            href="/calendar"
+            className="text-sm font-semibold text-[#064789] hover:underline"
+          >
+            Back to calendar
+          </Link>
+        </div>
+
+        <div className="surface p-6">
+          <h2 className="text-xl font-semibold text-slate-900">Archived by an admin</h2>
+          <p className="mt-1 text-sm text-slate-600">
+            Archived bookings are deleted for good once the retention period passes.
+          </p>
+          {renderList(archived, "Nothing archived.")}
+        </div>
+
+        <div className="surface p-6 mt-6">
+          <h2 className="text-xl font-semibold text-slate-900">Cancelled</h2>
+          {renderList(cancelled, "No cancelled bookings.")}
+        </div>
+      </div>
+    </main>
+  );
+}
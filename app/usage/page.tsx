@@ -4,60 +4,179 @@ import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
 import toast, { Toaster } from "react-hot-toast";
+import { isIsoDate } from "@/lib/bookingRules";
+import {
+  USAGE_GRANULARITIES,
+  addDays,
+  firstOfMonth,
+  formatPeriodLabel,
+  type UsageGranularity,
+  type UsageResponse,
+} from "@/lib/usage";
 
-type UsageRow = {
-  houseId: number;
-  houseName: string;
-  month: string; // e.g. "2026-01"
-  daysWithBookings: number;
-  totalDays: number;
-  usageRate: number; // 0–1
-};
-
-type UsageResponse = {
-  month: string;
-  totalDays: number;
-  rows: UsageRow[];
-};
-
-function formatMonthLabel(month: string) {
-  const [year, monthNum] = month.split("-");
-  const d = new Date(`${year}-${monthNum}-01T00:00:00`);
-  return d.toLocaleDateString("en-US", {
-    month: "long",
-    year: "numeric",
-  });
-}
-
-function getPreviousMonthLabel() {
+// Default range: last 12 full months, e.g. Feb 1 last year -> Feb 1 this
+// year (exclusive)
+function getTrailing12MonthRange() {
   const now = new Date();
-  const prevMonth = now.getMonth() - 1;
-  const year = prevMonth < 0 ? now.getFullYear() - 1 : now.getFullYear();
-  const monthIndex = (prevMonth + 12) % 12;
-  return `${year}-${String(monthIndex + 1).padStart(2, "0")}`;
+  return {
+    from: firstOfMonth(now.getFullYear(), now.getMonth() - 12),
+    to: firstOfMonth(now.getFullYear(), now.getMonth()),
+  };
 }
 
-function getPast12Months() {
-  const months: string[] = [];
-  const now = new Date();
+type MemberSortKey =
+  | "memberName"
+  | "houseName"
+  | "year"
+  | "nights"
+  | "guestNights"
+  | "weekendNights"
+  | "holidayNights"
+  | "nightsAsGuest"
+  | "share";
 
-  for (let i = 1; i <= 12; i++) {
-    const d = new Date(now.getFullYear(), now.getMonth() - i, 1);
-    const label = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
-    months.push(label);
-  }
+const MEMBER_COLUMNS: { key: MemberSortKey; label: string }[] = [
+  { key: "memberName", label: "Member" },
+  { key: "houseName", label: "House" },
+  { key: "year", label: "Year" },
+  { key: "nights", label: "Nights" },
+  { key: "guestNights", label: "Guest-nights" },
+  { key: "weekendNights", label: "Weekend" },
+  { key: "holidayNights", label: "Holiday" },
+  { key: "nightsAsGuest", label: "As guest" },
+  { key: "share", label: "Share" },
+];
 
-  return months;
-}
+// Download buttons; each uses the same range + grouping as the page
+const EXPORTS: { key: string; label: string; path: string; extra: Record<string, string> }[] = [
+  { key: "bookings-csv", label: "Bookings CSV", path: "/api/usage/export/bookings", extra: {} },
+  {
+    key: "bookings-ics",
+    label: "Bookings iCal",
+    path: "/api/usage/export/bookings",
+    extra: { format: "ics" },
+  },
+  { key: "usage-csv", label: "Usage CSV", path: "/api/usage/export/summary", extra: {} },
+  {
+    key: "members-csv",
+    label: "Members CSV",
+    path: "/api/usage/export/summary",
+    extra: { table: "members" },
+  },
+];
+
+const GRANULARITY_LABELS: Record<UsageGranularity, string> = {
+  month: "Month",
+  week: "Week",
+  season: "Season",
+};
 
 export default function UsagePage() {
   const [loading, setLoading] = useState(true);
   const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [data, setData] = useState<UsageResponse | null>(null);
-  const [selectedMonth, setSelectedMonth] = useState(getPreviousMonthLabel());
+  const [granularity, setGranularity] = useState<UsageGranularity>("month");
+
+  // The picker shows the last day included; the API's `to` is the day after
+  const [fromInput, setFromInput] = useState(() => getTrailing12MonthRange().from);
+  const [throughInput, setThroughInput] = useState(() =>
+    addDays(getTrailing12MonthRange().to, -1)
+  );
+
+  // A half-typed or backwards range falls back to the default window
+  const rangeValid =
+    isIsoDate(fromInput) && isIsoDate(throughInput) && fromInput <= throughInput;
+  const range = useMemo(
+    () =>
+      rangeValid
+        ? { from: fromInput, to: addDays(throughInput, 1) }
+        : getTrailing12MonthRange(),
+    [rangeValid, fromInput, throughInput]
+  );
+
+  // Member breakdown filters + sort
+  const [memberHouseId, setMemberHouseId] = useState<number | "all">("all");
+  const [memberYear, setMemberYear] = useState<number | "all">("all");
+  const [memberQuery, setMemberQuery] = useState("");
+  const [memberSort, setMemberSort] = useState<{ key: MemberSortKey; desc: boolean }>({
+    key: "nights",
+    desc: true,
+  });
+
+  const memberYears = useMemo(
+    () => Array.from(new Set((data?.members ?? []).map((m) => m.year))).sort(),
+    [data]
+  );
+
+  const memberRows = useMemo(() => {
+    const query = memberQuery.trim().toLowerCase();
+    const rows = (data?.members ?? []).filter(
+      (m) =>
+        (memberHouseId === "all" || m.houseId === memberHouseId) &&
+        (memberYear === "all" || m.year === memberYear) &&
+        (!query || m.memberName.toLowerCase().includes(query))
+    );
+
+    const { key, desc } = memberSort;
+    return rows.sort((a, b) => {
+      const av = a[key];
+      const bv = b[key];
+      const cmp =
+        typeof av === "string" && typeof bv === "string"
+          ? av.localeCompare(bv)
+          : Number(av) - Number(bv);
+      return desc ? -cmp : cmp;
+    });
+  }, [data, memberHouseId, memberYear, memberQuery, memberSort]);
+
+  const toggleMemberSort = (key: MemberSortKey) =>
+    setMemberSort((s) =>
+      // Numbers start biggest-first, names start A–Z
+      s.key === key
+        ? { key, desc: !s.desc }
+        : { key, desc: key !== "memberName" && key !== "houseName" }
+    );
+
+  // Exports need the bearer token, so fetch them and hand the blob to the browser
+  const [exporting, setExporting] = useState<string | null>(null);
+
+  const downloadExport = async (key: string, path: string, extra: Record<string, string>) => {
+    setExporting(key);
+    try {
+      const session = (await supabase.auth.getSession()).data.session;
+      const accessToken = session?.access_token;
+      if (!accessToken) {
+        window.location.href = "/login";
+        return;
+      }
+
+      const params = new URLSearchParams({ ...range, granularity, ...extra });
+      const res = await fetch(`${path}?${params}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        toast.error(json?.error ?? "Export failed");
+        return;
+      }
+
+      const disposition = res.headers.get("Content-Disposition") ?? "";
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? "export";
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(null);
+    }
+  };
 
-  const monthOptions = useMemo(() => getPast12Months(), []);
 
   useEffect(() => {
     const checkAdminAndLoad = async () => {
@@ -107,8 +226,21 @@ export default function UsagePage() {
       setError(null);
 
       try {
-        const res = await fetch(`/api/usage?month=${selectedMonth}`, {
+        const params = new URLSearchParams({
+          from: range.from,
+          to: range.to,
+          granularity,
+        });
+        const session = (await supabase.auth.getSession()).data.session;
+        const accessToken = session?.access_token;
+        if (!accessToken) {
+          window.location.href = "/login";
+          return;
+        }
+
+        const res = await fetch(`/api/usage?${params}`, {
           method: "GET",
+          headers: { Authorization: `Bearer ${accessToken}` },
         });
 
         const json = await res.json();
@@ -127,7 +259,7 @@ export default function UsagePage() {
     };
 
     loadUsage();
-  }, [isAdmin, selectedMonth]);
+  }, [isAdmin, range, granularity]);
 
   useEffect(() => {
     if (error) {
@@ -173,7 +305,7 @@ export default function UsagePage() {
   return (
     <main className="min-h-screen p-6 bg-white">
       <Toaster />
-      <div className="max-w-4xl mx-auto">
+      <div className="max-w-5xl mx-auto">
         <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-4">
           <div>
             <h1 className="text-3xl font-extrabold tracking-tight text-slate-900">
@@ -181,27 +313,69 @@ export default function UsagePage() {
             </h1>
             {data && (
               <p className="mt-2 text-sm text-slate-600">
-                Month: {formatMonthLabel(data.month)}. Usage = booked nights / total nights.
+                {data.from} through {addDays(data.to, -1)} by{" "}
+                {GRANULARITY_LABELS[data.granularity].toLowerCase()}.
+                Usage = booked nights / total nights. Guests are summed across
+                overlapping stays; averages only count booked nights.
               </p>
             )}
           </div>
 
           <div className="flex flex-col items-start sm:items-end gap-2">
+            <div className="flex gap-2">
+              <div>
+                <label className="block text-sm font-semibold text-slate-900">From</label>
+                <input
+                  type="date"
+                  className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                  value={fromInput}
+                  onChange={(e) => setFromInput(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-slate-900">Through</label>
+                <input
+                  type="date"
+                  className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                  value={throughInput}
+                  onChange={(e) => setThroughInput(e.target.value)}
+                />
+              </div>
+            </div>
+            {!rangeValid && (
+              <p className="text-xs text-red-700">
+                Pick a start date on or before the end date. Showing the last 12 months.
+              </p>
+            )}
+
             <label className="text-sm font-semibold text-slate-900">
-              View month
+              Group by
             </label>
             <select
               className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
-              value={selectedMonth}
-              onChange={(e) => setSelectedMonth(e.target.value)}
+              value={granularity}
+              onChange={(e) => setGranularity(e.target.value as UsageGranularity)}
             >
-              {monthOptions.map((month) => (
-                <option key={month} value={month}>
-                  {formatMonthLabel(month)}
+              {USAGE_GRANULARITIES.map((g) => (
+                <option key={g} value={g}>
+                  {GRANULARITY_LABELS[g]}
                 </option>
               ))}
             </select>
 
+            <div className="flex flex-wrap gap-2 sm:justify-end">
+              {EXPORTS.map((x) => (
+                <button
+                  key={x.key}
+                  className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-60"
+                  disabled={exporting !== null}
+                  onClick={() => downloadExport(x.key, x.path, x.extra)}
+                >
+                  {exporting === x.key ? "Preparing…" : x.label}
+                </button>
+              ))}
+            </div>
+
             <Link
               href="/calendar"
               className="text-sm font-semibold text-[#064789] hover:underline"
@@ -211,40 +385,168 @@ export default function UsagePage() {
           </div>
         </div>
 
-        {data && data.rows.length > 0 ? (
-          <div className="surface p-4">
-            <table className="w-full text-sm text-left text-slate-700">
-              <thead>
-                <tr className="border-b border-slate-200">
-                  <th className="py-2 font-semibold text-slate-900">House</th>
-                  <th className="py-2 font-semibold text-slate-900">
-                    Booked nights
-                  </th>
-                  <th className="py-2 font-semibold text-slate-900">
-                    Total nights
-                  </th>
-                  <th className="py-2 font-semibold text-slate-900">Usage</th>
-                </tr>
-              </thead>
-              <tbody>
-                {data.rows.map((row) => (
-                  <tr key={row.houseId} className="border-b border-slate-100">
-                    <td className="py-2">{row.houseName}</td>
-                    <td className="py-2">{row.daysWithBookings}</td>
-                    <td className="py-2">{row.totalDays}</td>
-                    <td className="py-2">
-                      {(row.usageRate * 100).toFixed(1)}%
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+        {data && data.series.length > 0 ? (
+          <div className="space-y-4">
+            {data.series.map((house) => (
+              <div key={house.houseId} className="surface p-4">
+                <div className="flex items-baseline justify-between gap-3">
+                  <h2 className="text-lg font-bold text-slate-900">{house.houseName}</h2>
+                  <span className="text-xs text-slate-600">
+                    {house.maxGuests
+                      ? `Sleeps ${house.maxGuests}`
+                      : "Capacity not set"}
+                  </span>
+                </div>
+                <table className="mt-2 w-full text-sm text-left text-slate-700">
+                  <thead>
+                    <tr className="border-b border-slate-200">
+                      <th className="py-2 font-semibold text-slate-900">
+                        {GRANULARITY_LABELS[data.granularity]}
+                      </th>
+                      <th className="py-2 font-semibold text-slate-900 w-1/2">Trend</th>
+                      <th className="py-2 font-semibold text-slate-900">
+                        Booked / total nights
+                      </th>
+                      <th className="py-2 font-semibold text-slate-900">Usage</th>
+                      <th className="py-2 font-semibold text-slate-900">Peak guests</th>
+                      <th className="py-2 font-semibold text-slate-900">Avg guests</th>
+                      <th className="py-2 font-semibold text-slate-900">Over capacity</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {house.rows.map((row) => (
+                      <tr key={row.period} className="border-b border-slate-100">
+                        <td className="py-2 whitespace-nowrap">
+                          {formatPeriodLabel(row.period, data.granularity)}
+                        </td>
+                        <td className="py-2 pr-4">
+                          <div className="h-2 rounded-full bg-slate-100">
+                            <div
+                              className="h-2 rounded-full bg-[#427aa1]"
+                              style={{ width: `${Math.min(100, row.usageRate * 100)}%` }}
+                            />
+                          </div>
+                        </td>
+                        <td className="py-2">
+                          {row.daysWithBookings} / {row.totalDays}
+                        </td>
+                        <td className="py-2">
+                          {(row.usageRate * 100).toFixed(1)}%
+                        </td>
+                        <td className="py-2">{row.peakGuests}</td>
+                        <td className="py-2">{row.averageGuests.toFixed(1)}</td>
+                        <td
+                          className={`py-2 ${
+                            row.daysOverCapacity > 0 ? "font-semibold text-red-700" : ""
+                          }`}
+                        >
+                          {house.maxGuests
+                            ? `${row.daysOverCapacity} day${row.daysOverCapacity === 1 ? "" : "s"}`
+                            : "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
           </div>
         ) : (
           <p className="text-slate-700">
-            No usage data found for this month.
+            No usage data found for this period.
           </p>
         )}
+
+        {data && (
+          <div className="surface p-4 mt-6">
+            <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+              <div>
+                <h2 className="text-lg font-bold text-slate-900">Nights by member</h2>
+                <p className="mt-1 text-xs text-slate-600">
+                  Share = the member&apos;s nights / all booked nights in that house that year.
+                  Weekend = Fri &amp; Sat nights.
+                </p>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <input
+                  className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                  placeholder="Filter by name"
+                  value={memberQuery}
+                  onChange={(e) => setMemberQuery(e.target.value)}
+                />
+                <select
+                  className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                  value={memberHouseId}
+                  onChange={(e) =>
+                    setMemberHouseId(e.target.value === "all" ? "all" : Number(e.target.value))
+                  }
+                >
+                  <option value="all">All houses</option>
+                  {data.series.map((h) => (
+                    <option key={h.houseId} value={h.houseId}>
+                      {h.houseName}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-[#427aa1]/30"
+                  value={memberYear}
+                  onChange={(e) =>
+                    setMemberYear(e.target.value === "all" ? "all" : Number(e.target.value))
+                  }
+                >
+                  <option value="all">All years</option>
+                  {memberYears.map((y) => (
+                    <option key={y} value={y}>
+                      {y}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {memberRows.length > 0 ? (
+              <table className="mt-3 w-full text-sm text-left text-slate-700">
+                <thead>
+                  <tr className="border-b border-slate-200">
+                    {MEMBER_COLUMNS.map((c) => (
+                      <th key={c.key} className="py-2 font-semibold text-slate-900">
+                        <button
+                          className="hover:underline"
+                          onClick={() => toggleMemberSort(c.key)}
+                        >
+                          {c.label}
+                          {memberSort.key === c.key ? (memberSort.desc ? " ↓" : " ↑") : ""}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {memberRows.map((m) => (
+                    <tr
+                      key={`${m.userId}-${m.houseId}-${m.year}`}
+                      className="border-b border-slate-100"
+                    >
+                      <td className="py-2">{m.memberName}</td>
+                      <td className="py-2">{m.houseName}</td>
+                      <td className="py-2">{m.year}</td>
+                      <td className="py-2">{m.nights}</td>
+                      <td className="py-2">{m.guestNights}</td>
+                      <td className="py-2">{m.weekendNights}</td>
+                      <td className="py-2">{m.holidayNights}</td>
+                      <td className="py-2">{m.nightsAsGuest}</td>
+                      <td className="py-2">{(m.share * 100).toFixed(1)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="mt-3 text-sm text-slate-700">No bookings match these filters.</p>
+            )}
+          </div>
+        )}
       </div>
     </main>
   );
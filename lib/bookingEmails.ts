@@ -0,0 +1,587 @@
+import { Resend } from "resend";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  defaultPreferences,
+  wantsImmediateEmail,
+  type NotificationEvent,
+  type NotificationPreferences,
+} from "@/lib/notificationPreferences";
+import { supabaseAdminClient } from "@/lib/supabaseServer";
+import { loadLinkedGuests } from "@/lib/bookingGuests";
+
+/**
+ * Lazy Resend client factory so build doesn't explode
+ * when RESEND_API_KEY is missing/misconfigured.
+ */
+export function getResendClient() {
+  const apiKey = process.env.RESEND_API_KEY;
+  if (!apiKey) {
+    throw new Error("Missing RESEND_API_KEY");
+  }
+  return new Resend(apiKey);
+}
+
+export const EMAIL_FROM = "Bay Ave & Bear Ln <notifications@bayavebearln.com>";
+export const EMAIL_REPLY_TO = "notifications@bayavebearln.com";
+
+export function siteUrl() {
+  return (process.env.NEXT_PUBLIC_SITE_URL ?? "https://bayavebearln.com").replace(/\/$/, "");
+}
+
+export function unsubscribeUrl(token: string) {
+  return `${siteUrl()}/api/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+export function formatDate(dateStr: string) {
+  const d = new Date(`${dateStr}T00:00:00`);
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  const yyyy = d.getFullYear();
+  return `${mm}/${dd}/${yyyy}`;
+}
+
+export function escapeHtml(input: string) {
+  return input
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+export type BookingEmailDetails = {
+  houseId: number | null; // null = unknown, skips the per-house filter
+  houseName: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD (exclusive)
+  guestCount: number;
+  actorName: string; // who booked / cancelled / edited
+  memberName?: string | null; // set when an admin acted for this member
+  repeats?: string | null; // recurring series, e.g. "Every 2 weeks, 6 stays"
+  reservation?: string | null; // every house in a multi-house reservation
+  reason?: string | null; // why an admin archived the stay
+  note?: string | null;
+};
+
+export type BookingNotification =
+  | ({ kind: "booked" } & BookingEmailDetails)
+  | ({ kind: "cancelled" } & BookingEmailDetails)
+  | ({ kind: "deleted" } & BookingEmailDetails)
+  | ({
+      kind: "updated";
+      previousStartDate: string;
+      previousEndDate: string;
+    } & BookingEmailDetails);
+
+type EmailRow = [label: string, valueHtml: string];
+
+export function renderEmailRows(rows: EmailRow[]) {
+  return rows
+    .map(
+      ([label, value]) => `
+              <tr>
+                <td style="padding: 6px 0; color:#0f172a; font-weight:700;">${escapeHtml(label)}</td>
+                <td style="padding: 6px 0; color:#334155; text-align:right;">${value}</td>
+              </tr>`
+    )
+    .join("");
+}
+
+function renderNoteBlock(note?: string | null) {
+  const safeNote = (note ?? "").toString().trim();
+  if (!safeNote) return "";
+  return `
+        <tr>
+          <td style="padding: 12px 0; color: #0f172a; font-weight: 700;">Note</td>
+        </tr>
+        <tr>
+          <td style="padding: 0 0 12px; color: #334155; white-space: pre-wrap;">
+            ${escapeHtml(safeNote)}
+          </td>
+        </tr>
+      `;
+}
+
+// Shared card layout for every notification email
+export function renderEmailLayout(opts: {
+  accent: string;
+  headline: string;
+  bodyHtml: string;
+  footer: string;
+  unsubscribeUrl?: string;
+}) {
+  const unsubscribe = opts.unsubscribeUrl
+    ? `
+              <div style="margin-top:6px;">
+                <a href="${escapeHtml(opts.unsubscribeUrl)}" style="color:#64748b;">Unsubscribe</a>
+                from booking emails, or change what you get on your profile page.
+              </div>`
+    : "";
+
+  return `
+      <div style="background:#f8fafc;padding:24px;font-family:ui-sans-serif,system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial;line-height:1.4;">
+        <div style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #e2e8f0;border-radius:14px;overflow:hidden;">
+          <div style="padding:18px 20px;background:${opts.accent};color:#ffffff;">
+            <div style="font-size:18px;font-weight:800;">Bay Ave & Bear Ln</div>
+            <div style="opacity:.9;margin-top:4px;">${escapeHtml(opts.headline)}</div>
+          </div>
+
+          <div style="padding:18px 20px;">
+            ${opts.bodyHtml}
+
+            <div style="margin-top:16px;padding-top:14px;border-top:1px solid #e2e8f0;color:#64748b;font-size:12px;">
+              ${opts.footer}${unsubscribe}
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+}
+
+function renderBookingTable(rows: EmailRow[], note?: string | null) {
+  return `
+            <table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;">
+              ${renderEmailRows(rows)}
+              ${renderNoteBlock(note)}
+            </table>`;
+}
+
+export function renderBookingEmail(n: BookingNotification, unsubscribeUrl?: string) {
+  const house = escapeHtml(String(n.houseName));
+  const checkIn = formatDate(String(n.startDate));
+  const checkOut = formatDate(String(n.endDate));
+  const guests = escapeHtml(String(n.guestCount));
+  const actor = escapeHtml(String(n.actorName));
+  const forRow: EmailRow[] = n.memberName ? [["For", escapeHtml(n.memberName)]] : [];
+  const groupRows: EmailRow[] = [
+    ...(n.repeats ? ([["Repeats", escapeHtml(n.repeats)]] as EmailRow[]) : []),
+    ...(n.reservation ? ([["Reservation", escapeHtml(n.reservation)]] as EmailRow[]) : []),
+  ];
+  const range = `${formatDate(n.startDate)} → ${formatDate(n.endDate)}`;
+
+  switch (n.kind) {
+    case "booked":
+      return {
+        subject: `New booking: ${n.houseName} (${range})`,
+        html: renderEmailLayout({
+          accent: "#064789",
+          headline: "Booking created",
+          bodyHtml: renderBookingTable(
+            [
+              ["House", house],
+              ["Check-in", checkIn],
+              ["Check-out", checkOut],
+              ...groupRows,
+              ["Guests", guests],
+              ...forRow,
+              ["Booked by", actor],
+            ],
+            n.note
+          ),
+          footer: "This is an automated notification.",
+          unsubscribeUrl,
+        }),
+      };
+
+    case "cancelled":
+    case "deleted":
+      return {
+        subject: `Cancelled: ${n.houseName} (${range})`,
+        html: renderEmailLayout({
+          accent: "#b91c1c",
+          headline: n.kind === "deleted" ? "Booking removed by an admin" : "Booking cancelled",
+          bodyHtml: renderBookingTable(
+            [
+              ["House", house],
+              ["Check-in", checkIn],
+              ["Check-out", checkOut],
+              ...groupRows,
+              ["Guests", guests],
+              ...forRow,
+              [n.kind === "deleted" ? "Removed by" : "Cancelled by", actor],
+              ...(n.reason ? ([["Reason", escapeHtml(n.reason)]] as EmailRow[]) : []),
+            ],
+            n.note
+          ),
+          footer: "Dates may now be available.",
+          unsubscribeUrl,
+        }),
+      };
+
+    case "updated": {
+      const previous = `${formatDate(n.previousStartDate)} → ${formatDate(n.previousEndDate)}`;
+      return {
+        subject: `Updated booking: ${n.houseName} (${range})`,
+        html: renderEmailLayout({
+          accent: "#427aa1",
+          headline: "Booking updated",
+          bodyHtml: renderBookingTable(
+            [
+              ["House", house],
+              [
+                "Old dates",
+                `<span style="text-decoration:line-through;">${previous}</span>`,
+              ],
+              ["New dates", range],
+              ...groupRows,
+              ["Guests", guests],
+              ...forRow,
+              ["Updated by", actor],
+            ],
+            n.note
+          ),
+          footer:
+            n.previousStartDate === n.startDate && n.previousEndDate === n.endDate
+              ? "The dates did not change."
+              : "The old dates may now be available.",
+          unsubscribeUrl,
+        }),
+      };
+    }
+  }
+}
+
+// Peak-date approval emails. These go to specific people (admins for
+// "pending", the requester for the decision) unless they've unsubscribed.
+export type ReviewNotification = {
+  kind: "pending" | "approved" | "rejected";
+  peakLabel: string;
+  reviewNote?: string | null;
+} & BookingEmailDetails;
+
+export function renderReviewEmail(n: ReviewNotification, unsubscribeUrl?: string) {
+  const range = `${formatDate(n.startDate)} → ${formatDate(n.endDate)}`;
+  const rows: EmailRow[] = [
+    ["House", escapeHtml(String(n.houseName))],
+    ["Dates", range],
+    ["Guests", escapeHtml(String(n.guestCount))],
+    ["Peak period", escapeHtml(n.peakLabel)],
+  ];
+
+  if (n.kind === "pending") {
+    return {
+      subject: `Approval needed: ${n.houseName} (${range})`,
+      html: renderEmailLayout({
+        accent: "#d97706",
+        headline: "Booking request needs approval",
+        bodyHtml: renderBookingTable([...rows, ["Requested by", escapeHtml(n.actorName)]], n.note),
+        footer: `Review it on the <a href="${escapeHtml(siteUrl())}/approvals" style="color:#64748b;">approvals page</a>.`,
+        unsubscribeUrl,
+      }),
+    };
+  }
+
+  const approved = n.kind === "approved";
+  return {
+    subject: `${approved ? "Approved" : "Not approved"}: ${n.houseName} (${range})`,
+    html: renderEmailLayout({
+      accent: approved ? "#679436" : "#b91c1c",
+      headline: approved ? "Your booking was approved" : "Your booking request was not approved",
+      bodyHtml: renderBookingTable(
+        [...rows, [approved ? "Approved by" : "Reviewed by", escapeHtml(n.actorName)]],
+        n.reviewNote
+      ),
+      footer: approved
+        ? "The stay is now on the calendar."
+        : "The dates are still open to others. Reply to talk it over with the admins.",
+      unsubscribeUrl,
+    }),
+  };
+}
+
+export type WaitlistNotification = {
+  kind: "waitlist_offer";
+  claimHours: number;
+} & BookingEmailDetails;
+
+export function renderWaitlistEmail(n: WaitlistNotification, unsubscribeUrl?: string) {
+  const range = `${formatDate(n.startDate)} → ${formatDate(n.endDate)}`;
+
+  return {
+    subject: `Dates opened up: ${n.houseName} (${range})`,
+    html: renderEmailLayout({
+      accent: "#427aa1",
+      headline: "Your waitlisted dates are free",
+      bodyHtml: renderBookingTable(
+        [
+          ["House", escapeHtml(String(n.houseName))],
+          ["Dates", range],
+          ["Guests", escapeHtml(String(n.guestCount))],
+          ["Claim within", `${n.claimHours} hours`],
+        ],
+        n.note
+      ),
+      footer: `Claim them from <a href="${escapeHtml(siteUrl())}/calendar" style="color:#64748b;">the calendar</a> in time, or the next person on the waitlist gets the offer.`,
+      unsubscribeUrl,
+    }),
+  };
+}
+
+// Sent to a member when an admin books, edits or cancels a stay for them,
+// whatever houses and events they picked
+export type OnBehalfNotification = {
+  kind: "on_behalf";
+  action: "booked" | "updated" | "cancelled";
+} & BookingEmailDetails;
+
+const ON_BEHALF_HEADLINES: Record<OnBehalfNotification["action"], string> = {
+  booked: "An admin booked a stay for you",
+  updated: "An admin changed your stay",
+  cancelled: "An admin cancelled your stay",
+};
+
+export function renderOnBehalfEmail(n: OnBehalfNotification, unsubscribeUrl?: string) {
+  const range = `${formatDate(n.startDate)} → ${formatDate(n.endDate)}`;
+  const cancelled = n.action === "cancelled";
+
+  return {
+    subject: `${cancelled ? "Cancelled" : "Your stay"}: ${n.houseName} (${range})`,
+    html: renderEmailLayout({
+      accent: cancelled ? "#b91c1c" : "#064789",
+      headline: ON_BEHALF_HEADLINES[n.action],
+      bodyHtml: renderBookingTable(
+        [
+          ["House", escapeHtml(String(n.houseName))],
+          ["Dates", range],
+          ...(n.repeats ? ([["Repeats", escapeHtml(n.repeats)]] as EmailRow[]) : []),
+          ["Guests", escapeHtml(String(n.guestCount))],
+          ["Admin", escapeHtml(n.actorName)],
+          ...(n.reason ? ([["Reason", escapeHtml(n.reason)]] as EmailRow[]) : []),
+        ],
+        n.note
+      ),
+      footer: "Reply to this email if anything looks wrong.",
+      unsubscribeUrl,
+    }),
+  };
+}
+
+// Members named on someone else's guest list. actorName is whose stay it is.
+export type ParticipantNotification = {
+  kind: "participant";
+  action: "added" | "updated" | "cancelled" | "restored";
+} & BookingEmailDetails;
+
+const PARTICIPANT_HEADLINES: Record<ParticipantNotification["action"], string> = {
+  added: "You're on the guest list for a stay",
+  updated: "A stay you're a guest on has changed",
+  cancelled: "A stay you're a guest on was cancelled",
+  restored: "A stay you're a guest on is back on the calendar",
+};
+
+export function renderParticipantEmail(n: ParticipantNotification, unsubscribeUrl?: string) {
+  const range = `${formatDate(n.startDate)} → ${formatDate(n.endDate)}`;
+  const cancelled = n.action === "cancelled";
+
+  return {
+    subject: `${cancelled ? "Cancelled" : "Guest list"}: ${n.houseName} (${range})`,
+    html: renderEmailLayout({
+      accent: cancelled ? "#b91c1c" : "#064789",
+      headline: PARTICIPANT_HEADLINES[n.action],
+      bodyHtml: renderBookingTable(
+        [
+          ["House", escapeHtml(String(n.houseName))],
+          ["Dates", range],
+          ["Host", escapeHtml(n.actorName)],
+          ["Guests", escapeHtml(String(n.guestCount))],
+        ],
+        n.note
+      ),
+      footer: "You get this because you're named on the stay's guest list.",
+      unsubscribeUrl,
+    }),
+  };
+}
+
+export type DirectNotification =
+  | ReviewNotification
+  | WaitlistNotification
+  | OnBehalfNotification
+  | ParticipantNotification;
+
+function renderDirectEmail(n: DirectNotification, unsubscribeUrl?: string) {
+  switch (n.kind) {
+    case "waitlist_offer":
+      return renderWaitlistEmail(n, unsubscribeUrl);
+    case "on_behalf":
+      return renderOnBehalfEmail(n, unsubscribeUrl);
+    case "participant":
+      return renderParticipantEmail(n, unsubscribeUrl);
+    default:
+      return renderReviewEmail(n, unsubscribeUrl);
+  }
+}
+
+// Sends to the given members (or every admin), logging instead of throwing.
+// Per-house and per-event choices don't apply to these, but unsubscribing does.
+export async function notifyDirect(to: string[] | "admins", notification: DirectNotification) {
+  try {
+    const admin = supabaseAdminClient();
+    let userIds = to;
+    if (userIds === "admins") {
+      const { data, error } = await admin.from("profiles").select("id").eq("is_admin", true);
+      if (error) throw new Error(error.message);
+      userIds = (data ?? []).map((p: { id: string }) => p.id);
+    }
+    if (!userIds.length) return 0;
+
+    const ids = new Set(userIds);
+    const recipients = (await loadRecipients(admin)).filter(
+      (r) => ids.has(r.userId) && !r.preferences.unsubscribed
+    );
+
+    return await sendEmails(
+      recipients.map((r) => {
+        const url = unsubscribeUrl(r.unsubscribeToken);
+        const { subject, html } = renderDirectEmail(notification, url);
+        return { to: r.email, subject, html, unsubscribeUrl: url };
+      })
+    );
+  } catch (e) {
+    console.error(`Failed to send ${notification.kind} notification:`, e);
+    return 0;
+  }
+}
+
+// Emails the family members on a stay's guest list, except whoever booked it
+export async function notifyParticipants(
+  booking: { id: number; created_by: string },
+  notification: Omit<ParticipantNotification, "kind">
+) {
+  try {
+    const linked = await loadLinkedGuests(supabaseAdminClient(), [booking.id]);
+    const to = (linked.get(booking.id) ?? []).filter((id) => id !== booking.created_by);
+    if (!to.length) return 0;
+    return await notifyDirect(to, { kind: "participant", ...notification });
+  } catch (e) {
+    console.error(`Failed to notify guests of booking ${booking.id}:`, e);
+    return 0;
+  }
+}
+
+export async function getHouseName(supabase: SupabaseClient, houseId: number) {
+  const { data } = await supabase.from("houses").select("name").eq("id", houseId).maybeSingle();
+  return (data?.name as string | undefined) ?? "House";
+}
+
+export async function getMemberName(supabase: SupabaseClient, userId: string) {
+  const { data } = await supabase
+    .from("profiles")
+    .select("name,email")
+    .eq("id", userId)
+    .maybeSingle();
+  return (data?.name || data?.email || "A family member") as string;
+}
+
+export type Recipient = {
+  userId: string;
+  email: string;
+  preferences: NotificationPreferences;
+  unsubscribeToken: string;
+  digestSentAt: string | null;
+};
+
+// Every member with an email, with their preferences. Members who never saved
+// preferences get a default row so they have an unsubscribe token.
+export async function loadRecipients(admin: SupabaseClient): Promise<Recipient[]> {
+  const { data: profiles, error: profErr } = await admin.from("profiles").select("id,email");
+  if (profErr) throw new Error(profErr.message);
+
+  const { data: prefRows, error: prefErr } = await admin
+    .from("notification_preferences")
+    .select("user_id,house_ids,events,delivery,unsubscribed,unsubscribe_token,digest_sent_at");
+  if (prefErr) throw new Error(prefErr.message);
+
+  const prefsById = new Map<
+    string,
+    NotificationPreferences & { unsubscribe_token: string; digest_sent_at: string | null }
+  >();
+  (prefRows ?? []).forEach((p) => prefsById.set(p.user_id, p));
+
+  const missing = (profiles ?? []).filter((p) => p.email && !prefsById.has(p.id));
+  if (missing.length) {
+    const { data: created, error: insertErr } = await admin
+      .from("notification_preferences")
+      .upsert(missing.map((p) => ({ user_id: p.id })), { onConflict: "user_id" })
+      .select("user_id,house_ids,events,delivery,unsubscribed,unsubscribe_token,digest_sent_at");
+    if (insertErr) throw new Error(insertErr.message);
+    (created ?? []).forEach((p) => prefsById.set(p.user_id, p));
+  }
+
+  return (profiles ?? []).flatMap((p: { id: string; email: string | null }) => {
+    const prefs = prefsById.get(p.id);
+    if (!p.email || !prefs) return [];
+    return [
+      {
+        userId: p.id,
+        email: p.email,
+        preferences: { ...defaultPreferences(p.id), ...prefs },
+        unsubscribeToken: prefs.unsubscribe_token,
+        digestSentAt: prefs.digest_sent_at,
+      },
+    ];
+  });
+}
+
+// Resend caps batch sends at 100 emails
+export async function sendEmails(
+  emails: { to: string; subject: string; html: string; unsubscribeUrl?: string }[]
+) {
+  if (!emails.length) return 0;
+
+  const resend = getResendClient();
+
+  for (let i = 0; i < emails.length; i += 100) {
+    const { error } = await resend.batch.send(
+      emails.slice(i, i + 100).map((e) => ({
+        from: EMAIL_FROM,
+        to: e.to,
+        replyTo: EMAIL_REPLY_TO,
+        subject: e.subject,
+        html: e.html,
+        headers: e.unsubscribeUrl
+          ? {
+              "List-Unsubscribe": `<${e.unsubscribeUrl}>`,
+              "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+            }
+          : undefined,
+      }))
+    );
+    if (error) throw new Error(error.message);
+  }
+
+  return emails.length;
+}
+
+function notificationEvent(n: BookingNotification): NotificationEvent {
+  return n.kind === "deleted" ? "cancelled" : n.kind;
+}
+
+// Sends the notification to every member who asked for it right away
+export async function sendBookingNotification(notification: BookingNotification) {
+  const recipients = (await loadRecipients(supabaseAdminClient())).filter((r) =>
+    wantsImmediateEmail(r.preferences, notificationEvent(notification), notification.houseId)
+  );
+
+  const sent = await sendEmails(
+    recipients.map((r) => {
+      const url = unsubscribeUrl(r.unsubscribeToken);
+      const { subject, html } = renderBookingEmail(notification, url);
+      return { to: r.email, subject, html, unsubscribeUrl: url };
+    })
+  );
+
+  return { sent };
+}
+
+// Used by the booking routes after a write has succeeded. A failed send is
+// logged and swallowed so it never turns a saved booking into an error.
+export async function notifyAfterWrite(notification: BookingNotification) {
+  try {
+    const { sent } = await sendBookingNotification(notification);
+    return sent;
+  } catch (e) {
+    console.error(`Failed to send ${notification.kind} notification:`, e);
+    return 0;
+  }
+}
@@ -0,0 +1,134 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// booking_events: who changed which booking, and how. Recorded by the /api
+// routes after each write; read by the booking modal and ActivityPage.
+
+export type BookingEventAction =
+  | "created"
+  | "updated"
+  | "cancelled"
+  | "deleted"
+  | "approved"
+  | "rejected"
+  | "archived"
+  | "restored"
+  | "purged";
+
+// The booking columns kept in before/after snapshots
+export type BookingSnapshot = {
+  start_date: string;
+  end_date: string;
+  guest_count: number;
+  status: string;
+  note: string | null;
+  created_by?: string;
+};
+
+export type BookingEvent = {
+  id: number;
+  booking_id: number;
+  house_id: number | null;
+  actor_id: string | null;
+  action: BookingEventAction;
+  before: BookingSnapshot | null;
+  after: BookingSnapshot | null;
+  created_at: string;
+};
+
+export const BOOKING_EVENT_COLUMNS =
+  "id,booking_id,house_id,actor_id,action,before,after,created_at";
+
+function snapshot(row: BookingSnapshot | null | undefined): BookingSnapshot | null {
+  if (!row) return null;
+  return {
+    start_date: row.start_date,
+    end_date: row.end_date,
+    guest_count: row.guest_count,
+    status: row.status,
+    note: row.note ?? null,
+    created_by: row.created_by,
+  };
+}
+
+// Logs instead of throwing: the booking write itself has already succeeded
+export async function recordBookingEvent(
+  admin: SupabaseClient,
+  event: {
+    bookingId: number;
+    houseId: number;
+    actorId: string | null;
+    action: BookingEventAction;
+    before?: BookingSnapshot | null;
+    after?: BookingSnapshot | null;
+  }
+) {
+  const { error } = await admin.from("booking_events").insert({
+    booking_id: event.bookingId,
+    house_id: event.houseId,
+    actor_id: event.actorId,
+    action: event.action,
+    before: snapshot(event.before),
+    after: snapshot(event.after),
+  });
+
+  if (error) console.error(`Failed to record ${event.action} for booking ${event.bookingId}:`, error);
+}
+
+const ACTION_LABELS: Record<BookingEventAction, string> = {
+  created: "Booked",
+  updated: "Edited",
+  cancelled: "Cancelled",
+  deleted: "Deleted by an admin",
+  approved: "Approved",
+  rejected: "Rejected",
+  archived: "Archived by an admin",
+  restored: "Restored",
+  purged: "Purged from the archive",
+};
+
+export function bookingEventLabel(action: BookingEventAction) {
+  return ACTION_LABELS[action];
+}
+
+function shortDate(dateStr: string) {
+  return new Date(`${dateStr}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// Human-readable lines for what changed, e.g. "Dates: Jul 3 – Jul 6 → Jul 4 – Jul 7"
+export function describeBookingChanges(event: BookingEvent) {
+  const { before, after } = event;
+  const stay = before ?? after;
+  if (!stay) return [];
+
+  if (!before || !after) {
+    return [
+      `${shortDate(stay.start_date)} – ${shortDate(stay.end_date)}, ${stay.guest_count} guest${
+        stay.guest_count === 1 ? "" : "s"
+      }`,
+    ];
+  }
+
+  const lines: string[] = [];
+  if (before.start_date !== after.start_date || before.end_date !== after.end_date) {
+    lines.push(
+      `Dates: ${shortDate(before.start_date)} – ${shortDate(before.end_date)} → ${shortDate(
+        after.start_date
+      )} – ${shortDate(after.end_date)}`
+    );
+  }
+  if (before.guest_count !== after.guest_count) {
+    lines.push(`Guests: ${before.guest_count} → ${after.guest_count}`);
+  }
+  if ((before.note ?? "") !== (after.note ?? "")) {
+    lines.push(after.note ? `Note: “${after.note}”` : "Note removed");
+  }
+  if (before.status !== after.status && event.action === "updated") {
+    lines.push(`Status: ${before.status} → ${after.status}`);
+  }
+  return lines;
+}
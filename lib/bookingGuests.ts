@@ -0,0 +1,108 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Named guest lists on bookings, shared by /api/bookings/[id]/guests, the
+// calendar and the usage report. The list is optional; guest_count stays
+// the number every limit is checked against.
+
+export type GuestKind = "adult" | "child" | "pet";
+
+export const GUEST_KINDS: { value: GuestKind; label: string }[] = [
+  { value: "adult", label: "Adult" },
+  { value: "child", label: "Child" },
+  { value: "pet", label: "Pet" },
+];
+
+export const MAX_GUEST_LIST = 30;
+
+export type BookingGuest = {
+  name: string;
+  kind: GuestKind;
+  profile_id: string | null; // set when the guest is a family member
+};
+
+export type StoredBookingGuest = BookingGuest & { id: number; booking_id: number };
+
+export const BOOKING_GUEST_COLUMNS = "id,booking_id,name,kind,profile_id";
+
+// People on the list; pets don't count toward guest_count
+export function countPeople(guests: BookingGuest[]) {
+  return guests.filter((g) => g.kind !== "pet").length;
+}
+
+// A list as a client sent it, cleaned up, or why it can't be saved
+export function parseGuestList(
+  raw: unknown,
+  guestCount: number
+): { guests: BookingGuest[] } | { error: string } {
+  if (!Array.isArray(raw)) return { error: "guests must be a list." };
+  if (raw.length > MAX_GUEST_LIST) {
+    return { error: `A guest list can have at most ${MAX_GUEST_LIST} entries.` };
+  }
+
+  const guests: BookingGuest[] = [];
+  for (const entry of raw) {
+    const name = typeof entry?.name === "string" ? entry.name.trim() : "";
+    if (!name) return { error: "Every guest needs a name." };
+
+    const kind = GUEST_KINDS.find((k) => k.value === entry.kind)?.value;
+    if (!kind) return { error: `Pick adult, child or pet for ${name}.` };
+
+    const profileId =
+      kind !== "pet" && typeof entry.profile_id === "string" && entry.profile_id
+        ? entry.profile_id
+        : null;
+    guests.push({ name, kind, profile_id: profileId });
+  }
+
+  const linked = guests.map((g) => g.profile_id).filter((id): id is string => !!id);
+  if (new Set(linked).size !== linked.length) {
+    return { error: "The same family member is on the list twice." };
+  }
+
+  const people = countPeople(guests);
+  if (people > guestCount) {
+    return {
+      error: `The list names ${people} people but the stay is for ${guestCount} guest${
+        guestCount === 1 ? "" : "s"
+      }.`,
+    };
+  }
+
+  return { guests };
+}
+
+export async function loadGuestList(
+  supabase: SupabaseClient,
+  bookingId: number
+): Promise<StoredBookingGuest[]> {
+  const { data, error } = await supabase
+    .from("booking_guests")
+    .select(BOOKING_GUEST_COLUMNS)
+    .eq("booking_id", bookingId)
+    .order("id", { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return (data ?? []) as StoredBookingGuest[];
+}
+
+// Family members on the guest lists of these bookings, by booking id
+export async function loadLinkedGuests(
+  supabase: SupabaseClient,
+  bookingIds: number[]
+): Promise<Map<number, string[]>> {
+  const linked = new Map<number, string[]>();
+  if (!bookingIds.length) return linked;
+
+  const { data, error } = await supabase
+    .from("booking_guests")
+    .select("booking_id,profile_id")
+    .in("booking_id", bookingIds)
+    .not("profile_id", "is", null);
+
+  if (error) throw new Error(error.message);
+
+  (data ?? []).forEach((row) => {
+    linked.set(row.booking_id, [...(linked.get(row.booking_id) ?? []), row.profile_id]);
+  });
+  return linked;
+}
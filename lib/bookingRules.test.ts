@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { isIsoDate, restoredStatus } from "@/lib/bookingRules";
+
+describe("isIsoDate", () => {
+  // Browsers ahead of UTC used to reject every date
+  const originalTz = process.env.TZ;
+  beforeEach(() => {
+    process.env.TZ = "Europe/Berlin";
+  });
+  afterEach(() => {
+    if (originalTz === undefined) delete process.env.TZ;
+    else process.env.TZ = originalTz;
+  });
+
+  it("accepts real dates in a timezone ahead of UTC", () => {
+    expect(new Date(2026, 0, 1).getTimezoneOffset()).toBe(-60);
+    expect(isIsoDate("2026-07-03")).toBe(true);
+    expect(isIsoDate("2028-02-29")).toBe(true);
+  });
+
+  it("rejects impossible or malformed dates", () => {
+    expect(isIsoDate("2026-02-30")).toBe(false);
+    expect(isIsoDate("2026-7-3")).toBe(false);
+    expect(isIsoDate(20260703)).toBe(false);
+  });
+});
+
+describe("restoredStatus", () => {
+  it("keeps an approved or pending stay as it was", () => {
+    expect(restoredStatus("active", true)).toBe("active");
+    expect(restoredStatus("pending", false)).toBe("pending");
+  });
+
+  it("sends a rejected stay back for approval instead of approving it", () => {
+    expect(restoredStatus("rejected", false)).toBe("pending");
+    expect(restoredStatus("rejected", true)).toBe("pending");
+  });
+
+  it("treats a cancelled stay like a new booking", () => {
+    expect(restoredStatus("cancelled", false)).toBe("active");
+    expect(restoredStatus(null, true)).toBe("pending");
+  });
+});
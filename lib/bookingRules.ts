@@ -0,0 +1,243 @@
+// Booking rules shared by the calendar UI and the /api/bookings routes.
+// Keep this module free of browser/server-only imports so both sides can use it.
+
+// Default max stay for houses without a house_policies row
+export const MAX_NIGHTS = 7;
+
+export type BookingInput = {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD (exclusive)
+  guestCount: number;
+};
+
+// A house_policies row. Null limits are "no limit".
+export type BookingPolicy = {
+  min_nights: number;
+  max_nights: number;
+  max_advance_days: number | null; // latest check-in = today + this
+  max_future_bookings: number | null; // per member, upcoming or in progress
+  min_gap_days: number | null; // between one member's stays
+  max_guests_per_booking: number | null;
+};
+
+export const DEFAULT_POLICY: BookingPolicy = {
+  min_nights: 1,
+  max_nights: MAX_NIGHTS,
+  max_advance_days: null,
+  max_future_bookings: null,
+  min_gap_days: null,
+  max_guests_per_booking: null,
+};
+
+export type Blackout = {
+  id: number;
+  house_id: number;
+  start_date: string;
+  end_date: string; // exclusive
+  reason: string | null;
+};
+
+export type MemberStay = { id: number; start_date: string; end_date: string };
+
+export type PolicyContext = {
+  policy: BookingPolicy;
+  blackouts: Blackout[];
+  // The member's other active/pending stays at the house, not counting the
+  // booking being edited
+  memberStays: MemberStay[];
+  today: string; // YYYY-MM-DD
+};
+
+export type BookingRuleViolation = {
+  code:
+    | "invalid_date"
+    | "invalid_range"
+    | "invalid_guest_count"
+    | "min_nights"
+    | "max_nights"
+    | "max_guests"
+    | "too_far_ahead"
+    | "blackout"
+    | "max_future_bookings"
+    | "min_gap";
+  field: "dates" | "guestCount";
+  message: string;
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isIsoDate(value: unknown): value is string {
+  if (typeof value !== "string" || !ISO_DATE.test(value)) return false;
+  const d = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === value;
+}
+
+// Status an archived or cancelled booking comes back with. An approved or
+// pending stay keeps it; a rejected one goes back to the approval queue so
+// restoring it doesn't overturn the rejection; anything else is treated like
+// a new booking and waits for approval only on peak dates.
+export function restoredStatus(previous: string | null, onPeak: boolean) {
+  if (previous === "active" || previous === "pending") return previous;
+  if (previous === "rejected") return "pending";
+  return onPeak ? "pending" : "active";
+}
+
+// Number of nights in [start, end), using the exclusive end_date convention
+export function nightsBetween(startDate: string, endDate: string) {
+  const start = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+  return Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+// Today in UTC, so the browser and the server agree on the date
+export function todayIso() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function formatDay(dateStr: string) {
+  return new Date(`${dateStr}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function plural(n: number, word: string) {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+// One line per limit, for help text under the booking forms
+export function describePolicy(policy: BookingPolicy) {
+  const lines = [
+    policy.min_nights > 1
+      ? `Stays are ${policy.min_nights}–${policy.max_nights} nights.`
+      : `Max stay: ${plural(policy.max_nights, "night")}.`,
+  ];
+  if (policy.max_guests_per_booking) {
+    lines.push(`Up to ${plural(policy.max_guests_per_booking, "guest")} per booking.`);
+  }
+  if (policy.max_advance_days) {
+    lines.push(`Book up to ${plural(policy.max_advance_days, "day")} ahead.`);
+  }
+  if (policy.max_future_bookings) {
+    lines.push(`At most ${plural(policy.max_future_bookings, "upcoming booking")} per member.`);
+  }
+  if (policy.min_gap_days) {
+    lines.push(`Leave ${plural(policy.min_gap_days, "day")} between your stays.`);
+  }
+  return lines;
+}
+
+// Returns the first broken rule, or null if the booking is allowed. Without
+// a context only the basic shape and the default max stay are checked.
+export function validateBooking(
+  input: BookingInput,
+  context?: PolicyContext
+): BookingRuleViolation | null {
+  const policy = context?.policy ?? DEFAULT_POLICY;
+
+  if (!isIsoDate(input.startDate) || !isIsoDate(input.endDate)) {
+    return {
+      code: "invalid_date",
+      field: "dates",
+      message: "Please select both check-in and check-out.",
+    };
+  }
+
+  if (!Number.isInteger(input.guestCount) || input.guestCount < 1) {
+    return {
+      code: "invalid_guest_count",
+      field: "guestCount",
+      message: "Guest count must be a number ≥ 1.",
+    };
+  }
+
+  const nights = nightsBetween(input.startDate, input.endDate);
+
+  if (nights <= 0) {
+    return { code: "invalid_range", field: "dates", message: "Invalid date range." };
+  }
+  if (nights < policy.min_nights) {
+    return {
+      code: "min_nights",
+      field: "dates",
+      message: `This house has a ${policy.min_nights}-night minimum stay.`,
+    };
+  }
+  if (nights > policy.max_nights) {
+    return {
+      code: "max_nights",
+      field: "dates",
+      message: `Max stay is ${policy.max_nights} nights.`,
+    };
+  }
+  if (policy.max_guests_per_booking && input.guestCount > policy.max_guests_per_booking) {
+    return {
+      code: "max_guests",
+      field: "guestCount",
+      message: `Bookings here are limited to ${plural(policy.max_guests_per_booking, "guest")}.`,
+    };
+  }
+
+  if (!context) return null;
+
+  if (
+    policy.max_advance_days &&
+    nightsBetween(context.today, input.startDate) > policy.max_advance_days
+  ) {
+    return {
+      code: "too_far_ahead",
+      field: "dates",
+      message: `You can book up to ${plural(policy.max_advance_days, "day")} ahead. Check back closer to the date.`,
+    };
+  }
+
+  const blackout = context.blackouts.find(
+    (b) => b.start_date < input.endDate && b.end_date > input.startDate
+  );
+  if (blackout) {
+    return {
+      code: "blackout",
+      field: "dates",
+      message: `The house is unavailable ${formatDay(blackout.start_date)} – ${formatDay(
+        blackout.end_date
+      )}${blackout.reason ? ` (${blackout.reason})` : ""}.`,
+    };
+  }
+
+  const upcoming = context.memberStays.filter((s) => s.end_date > context.today);
+  if (
+    policy.max_future_bookings &&
+    input.endDate > context.today &&
+    upcoming.length >= policy.max_future_bookings
+  ) {
+    return {
+      code: "max_future_bookings",
+      field: "dates",
+      message: `You already have ${plural(upcoming.length, "upcoming booking")} here — the limit is ${policy.max_future_bookings}.`,
+    };
+  }
+
+  if (policy.min_gap_days) {
+    const tooClose = context.memberStays.find((s) => {
+      if (s.end_date <= input.startDate) {
+        return nightsBetween(s.end_date, input.startDate) < policy.min_gap_days!;
+      }
+      if (input.endDate <= s.start_date) {
+        return nightsBetween(input.endDate, s.start_date) < policy.min_gap_days!;
+      }
+      return true; // overlaps another of your stays
+    });
+    if (tooClose) {
+      return {
+        code: "min_gap",
+        field: "dates",
+        message: `Leave at least ${plural(policy.min_gap_days, "day")} between your stays — you're already here ${formatDay(
+          tooClose.start_date
+        )} – ${formatDay(tooClose.end_date)}.`,
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import {
+  expandSeries,
+  MAX_SERIES_OCCURRENCES,
+  seriesRuleError,
+  type SeriesRule,
+} from "@/lib/bookingSeries";
+
+const first = { start_date: "2026-01-05", end_date: "2026-01-07" };
+const weekly: SeriesRule = { frequency: "weekly", interval: 1, until: null, count: null };
+
+describe("seriesRuleError", () => {
+  it("accepts an end date that fits the longest series", () => {
+    const rule = { ...weekly, until: "2026-12-28" };
+    expect(seriesRuleError(rule, first.start_date)).toBeNull();
+    expect(expandSeries(first, rule)).toHaveLength(MAX_SERIES_OCCURRENCES);
+  });
+
+  it("rejects an end date that would need more stays than a series allows", () => {
+    expect(seriesRuleError({ ...weekly, until: "2027-01-04" }, first.start_date)).toMatch(
+      /more than 52 stays/
+    );
+  });
+
+  it("explains an end date that leaves a single stay", () => {
+    expect(seriesRuleError({ ...weekly, until: "2026-01-11" }, first.start_date)).toMatch(
+      /only one stay/
+    );
+    expect(seriesRuleError({ ...weekly, until: "2026-01-12" }, first.start_date)).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+// Recurring booking series, shared by the create modal and
+// /api/bookings/series. Each occurrence is saved as its own bookings row;
+// this module only works out the dates and checks them.
+
+import {
+  isIsoDate,
+  nightsBetween,
+  validateBooking,
+  type BookingRuleViolation,
+  type PolicyContext,
+} from "@/lib/bookingRules";
+import { addDays } from "@/lib/usage";
+
+export type SeriesFrequency = "weekly" | "monthly" | "yearly";
+
+export const SERIES_FREQUENCIES: { value: SeriesFrequency; label: string; unit: string }[] = [
+  { value: "weekly", label: "Weekly", unit: "week" },
+  { value: "monthly", label: "Monthly", unit: "month" },
+  { value: "yearly", label: "Yearly", unit: "year" },
+];
+
+export const MAX_SERIES_OCCURRENCES = 52;
+
+export type SeriesRule = {
+  frequency: SeriesFrequency;
+  interval: number; // every N weeks / months / years
+  until: string | null; // last allowed check-in (inclusive)
+  count: number | null;
+};
+
+export type Occurrence = { start_date: string; end_date: string };
+
+export type OccurrenceCheck = Occurrence & { violation: BookingRuleViolation | null };
+
+// "this" = just the picked stay; "following" = it and every later one
+export type SeriesScope = "this" | "following";
+
+// Day-of-month is kept, clamped to the month's length (Jan 31 -> Feb 28)
+function addMonths(dateStr: string, months: number) {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + months, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(d, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+function nthStart(first: string, rule: SeriesRule, n: number) {
+  const steps = n * rule.interval;
+  switch (rule.frequency) {
+    case "weekly":
+      return addDays(first, steps * 7);
+    case "monthly":
+      return addMonths(first, steps);
+    case "yearly":
+      return addMonths(first, steps * 12);
+  }
+}
+
+// Null when the rule is usable for a series whose first check-in is
+// firstStart
+export function seriesRuleError(rule: SeriesRule, firstStart: string) {
+  if (!SERIES_FREQUENCIES.some((f) => f.value === rule.frequency)) {
+    return "Pick how often the stay repeats.";
+  }
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 52) {
+    return "Repeat every 1–52 weeks, months or years.";
+  }
+  if ((rule.until === null) === (rule.count === null)) {
+    return "Choose an end date or a number of stays.";
+  }
+  if (rule.until !== null && !isIsoDate(rule.until)) {
+    return "Pick a valid end date for the series.";
+  }
+  if (
+    rule.count !== null &&
+    (!Number.isInteger(rule.count) || rule.count < 2 || rule.count > MAX_SERIES_OCCURRENCES)
+  ) {
+    return `A series has 2–${MAX_SERIES_OCCURRENCES} stays.`;
+  }
+  if (rule.until !== null && nthStart(firstStart, rule, 1) > rule.until) {
+    return "That end date leaves only one stay. Pick a later end date, or don't repeat the stay.";
+  }
+  // Refused rather than cut short, so the last stays don't go missing unseen
+  if (
+    rule.until !== null &&
+    nthStart(firstStart, rule, MAX_SERIES_OCCURRENCES) <= rule.until
+  ) {
+    return `That end date makes more than ${MAX_SERIES_OCCURRENCES} stays. Pick an earlier end date or repeat less often.`;
+  }
+  return null;
+}
+
+// Every occurrence, the first stay included. Each one keeps the first stay's
+// length; months step from the first check-in so short months don't drift.
+export function expandSeries(first: Occurrence, rule: SeriesRule): Occurrence[] {
+  const nights = nightsBetween(first.start_date, first.end_date);
+  const occurrences: Occurrence[] = [];
+
+  for (let n = 0; occurrences.length < MAX_SERIES_OCCURRENCES; n++) {
+    if (rule.count !== null && occurrences.length >= rule.count) break;
+    const start = nthStart(first.start_date, rule, n);
+    if (rule.until !== null && start > rule.until) break;
+    occurrences.push({ start_date: start, end_date: addDays(start, nights) });
+  }
+
+  return occurrences;
+}
+
+// e.g. "Every 2 weeks, 6 stays"
+export function describeSeries(rule: SeriesRule, occurrences: number) {
+  const unit = SERIES_FREQUENCIES.find((f) => f.value === rule.frequency)?.unit ?? "week";
+  const every = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  return `${every}, ${occurrences} stay${occurrences === 1 ? "" : "s"}`;
+}
+
+// Checks each stay in order, counting the earlier ones as the member's own
+// stays so per-member limits (gap, upcoming count) see the whole series
+export function checkOccurrences(
+  occurrences: Occurrence[],
+  guestCount: number,
+  context: PolicyContext
+): OccurrenceCheck[] {
+  const memberStays = [...context.memberStays];
+
+  return occurrences.map((o, i) => {
+    const violation = validateBooking(
+      { startDate: o.start_date, endDate: o.end_date, guestCount },
+      { ...context, memberStays }
+    );
+    memberStays.push({ id: -(i + 1), ...o });
+    return { ...o, violation };
+  });
+}
@@ -0,0 +1,501 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { validateBooking } from "@/lib/bookingRules";
+import { formatDate, notifyAfterWrite, notifyDirect } from "@/lib/bookingEmails";
+import { recordBookingEvent } from "@/lib/bookingEvents";
+import {
+  checkOccurrences,
+  describeSeries,
+  expandSeries,
+  seriesRuleError,
+  type SeriesRule,
+} from "@/lib/bookingSeries";
+import { loadPolicyContext } from "@/lib/housePolicies";
+import { findPeakPeriod } from "@/lib/peakPeriods";
+import { callerDisplayName, type Caller } from "@/lib/supabaseServer";
+
+// Server-side booking writes shared by the /api routes. Callers have already
+// authenticated; `admin` is the service-role client.
+
+export const BOOKING_COLUMNS =
+  "id,house_id,created_by,guest_count,start_date,end_date,status,note,series_id,reservation_id,version";
+
+export type BookingRow = {
+  id: number;
+  house_id: number;
+  created_by: string;
+  guest_count: number;
+  start_date: string;
+  end_date: string;
+  status: "active" | "pending" | "rejected" | "cancelled" | "archived";
+  note: string | null;
+  series_id: number | null;
+  reservation_id: number | null;
+  version: number; // bumped by a trigger on every update
+};
+
+export type NewBooking = {
+  houseId: number;
+  startDate: unknown;
+  endDate: unknown;
+  guestCount: unknown;
+  note?: unknown;
+  memberId?: string; // admins booking for someone else; defaults to the caller
+};
+
+export type WriteFailure = {
+  ok: false;
+  status: number;
+  error: string;
+  code?: string;
+  field?: string;
+};
+
+// JSON body for a failed write, matching what the routes returned before
+export function failureBody(failure: WriteFailure) {
+  return { error: failure.error, code: failure.code, field: failure.field };
+}
+
+type BookingMember = {
+  ok: true;
+  memberId: string;
+  onBehalf: boolean;
+  memberName: string | null;
+};
+
+// The member the stay is for. Only admins may name someone other than
+// themselves.
+async function resolveMember(
+  admin: SupabaseClient,
+  caller: Caller,
+  requestedId?: string
+): Promise<BookingMember | WriteFailure> {
+  const memberId = requestedId || caller.userId;
+  const onBehalf = memberId !== caller.userId;
+  if (!onBehalf) return { ok: true, memberId, onBehalf, memberName: null };
+
+  if (!caller.isAdmin) {
+    return { ok: false, status: 403, error: "Only admins can book for someone else." };
+  }
+  const { data: member, error: memberErr } = await admin
+    .from("profiles")
+    .select("name,email")
+    .eq("id", memberId)
+    .maybeSingle();
+  if (memberErr) return { ok: false, status: 500, error: memberErr.message };
+  if (!member) return { ok: false, status: 404, error: "Member not found" };
+
+  return {
+    ok: true,
+    memberId,
+    onBehalf,
+    memberName: member.name || member.email || "A family member",
+  };
+}
+
+type BookingTarget = BookingMember & { house: { id: number; name: string } };
+
+// The house being booked plus the member it's for
+async function resolveTarget(
+  admin: SupabaseClient,
+  caller: Caller,
+  fields: NewBooking
+): Promise<BookingTarget | WriteFailure> {
+  const { data: house, error: houseErr } = await admin
+    .from("houses")
+    .select("id,name")
+    .eq("id", fields.houseId)
+    .maybeSingle();
+
+  if (houseErr) return { ok: false, status: 500, error: houseErr.message };
+  if (!house) return { ok: false, status: 404, error: "House not found" };
+
+  const member = await resolveMember(admin, caller, fields.memberId);
+  if (!member.ok) return member;
+  return { ...member, house };
+}
+
+export type CreateBookingResult =
+  | { ok: true; booking: BookingRow; pendingApproval: string | null }
+  | WriteFailure;
+
+// Validates against the house policy, sends peak dates for approval, inserts
+// and notifies. Never throws for rule violations; returns them instead.
+// When an admin books for another member the stay belongs to that member:
+// their policy limits apply and they get a direct email.
+export async function createBooking(
+  admin: SupabaseClient,
+  caller: Caller,
+  fields: NewBooking
+): Promise<CreateBookingResult> {
+  const target = await resolveTarget(admin, caller, fields);
+  if (!target.ok) return target;
+  const { house, memberId, onBehalf, memberName } = target;
+
+  const input = {
+    startDate: fields.startDate as string,
+    endDate: fields.endDate as string,
+    guestCount: Number(fields.guestCount),
+  };
+  const violation = validateBooking(
+    input,
+    await loadPolicyContext(admin, house.id, memberId)
+  );
+  if (violation) {
+    return {
+      ok: false,
+      status: 422,
+      error: violation.message,
+      code: violation.code,
+      field: violation.field,
+    };
+  }
+
+  const noteClean = (fields.note ?? "").toString().trim() || null;
+
+  // Peak dates need an admin's OK unless an admin is booking
+  const peak = caller.isAdmin
+    ? null
+    : await findPeakPeriod(admin, house.id, input.startDate, input.endDate);
+
+  const { data: booking, error: insertErr } = await admin
+    .from("bookings")
+    .insert({
+      house_id: house.id,
+      created_by: memberId,
+      booked_by: onBehalf ? caller.userId : null,
+      guest_count: input.guestCount,
+      start_date: input.startDate,
+      end_date: input.endDate,
+      status: peak ? "pending" : "active",
+      note: noteClean,
+    })
+    .select(BOOKING_COLUMNS)
+    .single();
+
+  if (insertErr) return { ok: false, status: 500, error: insertErr.message };
+
+  await recordBookingEvent(admin, {
+    bookingId: booking.id,
+    houseId: house.id,
+    actorId: caller.userId,
+    action: "created",
+    after: booking,
+  });
+
+  const details = {
+    houseId: house.id,
+    houseName: house.name,
+    startDate: booking.start_date,
+    endDate: booking.end_date,
+    guestCount: booking.guest_count,
+    actorName: callerDisplayName(caller),
+    memberName,
+    note: booking.note,
+  };
+
+  if (peak) {
+    await notifyDirect("admins", { kind: "pending", peakLabel: peak.label, ...details });
+  } else {
+    await notifyAfterWrite({ kind: "booked", ...details });
+  }
+  if (onBehalf) {
+    await notifyDirect([memberId], { kind: "on_behalf", action: "booked", ...details });
+  }
+
+  return { ok: true, booking: booking as BookingRow, pendingApproval: peak?.label ?? null };
+}
+
+export type CreateSeriesResult =
+  | { ok: true; bookings: BookingRow[]; seriesId: number; pendingCount: number }
+  | WriteFailure;
+
+// Books every occurrence of a recurring stay, or nothing: each one is checked
+// against the member's policy first and the first failure is returned with
+// its dates. Peak occurrences wait for approval like single bookings. The
+// family gets one email for the whole series.
+export async function createSeries(
+  admin: SupabaseClient,
+  caller: Caller,
+  fields: NewBooking & { rule: SeriesRule }
+): Promise<CreateSeriesResult> {
+  const target = await resolveTarget(admin, caller, fields);
+  if (!target.ok) return target;
+  const { house, memberId, onBehalf, memberName } = target;
+
+  const input = {
+    startDate: fields.startDate as string,
+    endDate: fields.endDate as string,
+    guestCount: Number(fields.guestCount),
+  };
+  const shapeViolation = validateBooking(input);
+  if (shapeViolation) {
+    return {
+      ok: false,
+      status: 422,
+      error: shapeViolation.message,
+      code: shapeViolation.code,
+      field: shapeViolation.field,
+    };
+  }
+
+  const ruleError = seriesRuleError(fields.rule, input.startDate);
+  if (ruleError) return { ok: false, status: 400, error: ruleError, field: "repeat" };
+
+  const occurrences = expandSeries(
+    { start_date: input.startDate, end_date: input.endDate },
+    fields.rule
+  );
+
+  const checks = checkOccurrences(
+    occurrences,
+    input.guestCount,
+    await loadPolicyContext(admin, house.id, memberId)
+  );
+  const failed = checks.find((c) => c.violation);
+  if (failed?.violation) {
+    return {
+      ok: false,
+      status: 422,
+      error: `${formatDate(failed.start_date)}: ${failed.violation.message}`,
+      code: failed.violation.code,
+      field: failed.violation.field,
+    };
+  }
+
+  const peaks = caller.isAdmin
+    ? occurrences.map(() => null)
+    : await Promise.all(
+        occurrences.map((o) => findPeakPeriod(admin, house.id, o.start_date, o.end_date))
+      );
+
+  const noteClean = (fields.note ?? "").toString().trim() || null;
+
+  // The series row and its stays are written together or not at all
+  const { data: inserted, error: insertErr } = await admin
+    .rpc("create_booking_series", {
+      series: {
+        house_id: house.id,
+        created_by: memberId,
+        booked_by: onBehalf ? caller.userId : null,
+        frequency: fields.rule.frequency,
+        interval: fields.rule.interval,
+        until: fields.rule.until,
+        occurrence_count: fields.rule.count,
+      },
+      occurrences: occurrences.map((o, i) => ({
+        house_id: house.id,
+        created_by: memberId,
+        booked_by: onBehalf ? caller.userId : null,
+        guest_count: input.guestCount,
+        start_date: o.start_date,
+        end_date: o.end_date,
+        status: peaks[i] ? "pending" : "active",
+        note: noteClean,
+      })),
+    })
+    .select(BOOKING_COLUMNS);
+
+  if (insertErr) return { ok: false, status: 500, error: insertErr.message };
+
+  const bookings = (inserted ?? []) as BookingRow[];
+  for (const booking of bookings) {
+    await recordBookingEvent(admin, {
+      bookingId: booking.id,
+      houseId: house.id,
+      actorId: caller.userId,
+      action: "created",
+      after: booking,
+    });
+  }
+
+  const repeats = describeSeries(fields.rule, bookings.length);
+  const details = (booking: BookingRow) => ({
+    houseId: house.id,
+    houseName: house.name,
+    startDate: booking.start_date,
+    endDate: booking.end_date,
+    guestCount: booking.guest_count,
+    actorName: callerDisplayName(caller),
+    memberName,
+    note: booking.note,
+  });
+
+  const pending = bookings.filter((b) => b.status === "pending");
+  for (const booking of pending) {
+    const peak = peaks[occurrences.findIndex((o) => o.start_date === booking.start_date)];
+    await notifyDirect("admins", {
+      kind: "pending",
+      peakLabel: peak?.label ?? "Peak dates",
+      ...details(booking),
+    });
+  }
+
+  const firstActive = bookings.find((b) => b.status === "active");
+  if (firstActive) {
+    await notifyAfterWrite({ kind: "booked", repeats, ...details(firstActive) });
+  }
+  if (onBehalf) {
+    await notifyDirect([memberId], {
+      kind: "on_behalf",
+      action: "booked",
+      repeats,
+      ...details(bookings[0]),
+    });
+  }
+
+  return {
+    ok: true,
+    bookings,
+    seriesId: bookings[0].series_id as number,
+    pendingCount: pending.length,
+  };
+}
+
+export type NewReservation = {
+  houses: { houseId: number; guestCount: unknown }[];
+  startDate: unknown;
+  endDate: unknown;
+  note?: unknown;
+  memberId?: string;
+};
+
+export type CreateReservationResult =
+  | { ok: true; bookings: BookingRow[]; reservationId: number; pendingCount: number }
+  | WriteFailure;
+
+// Books several houses for the same dates, all or nothing: every house is
+// checked against its own policy before anything is written, and the rows go
+// in with one database call. Each house still gets its own booked email so
+// per-house notification preferences keep working.
+export async function createReservation(
+  admin: SupabaseClient,
+  caller: Caller,
+  fields: NewReservation
+): Promise<CreateReservationResult> {
+  const houseIds = Array.from(new Set(fields.houses.map((h) => Number(h.houseId))));
+  if (houseIds.length < 2 || houseIds.length !== fields.houses.length) {
+    return { ok: false, status: 400, error: "Pick at least two different houses." };
+  }
+
+  const { data: houseRows, error: houseErr } = await admin
+    .from("houses")
+    .select("id,name")
+    .in("id", houseIds);
+
+  if (houseErr) return { ok: false, status: 500, error: houseErr.message };
+  if ((houseRows ?? []).length !== houseIds.length) {
+    return { ok: false, status: 404, error: "House not found" };
+  }
+  const housesById = new Map((houseRows ?? []).map((h) => [h.id as number, h.name as string]));
+
+  const member = await resolveMember(admin, caller, fields.memberId);
+  if (!member.ok) return member;
+  const { memberId, onBehalf, memberName } = member;
+
+  const stays = fields.houses.map((h) => ({
+    houseId: Number(h.houseId),
+    houseName: housesById.get(Number(h.houseId)) ?? "House",
+    input: {
+      startDate: fields.startDate as string,
+      endDate: fields.endDate as string,
+      guestCount: Number(h.guestCount),
+    },
+  }));
+
+  for (const stay of stays) {
+    const violation = validateBooking(
+      stay.input,
+      await loadPolicyContext(admin, stay.houseId, memberId)
+    );
+    if (violation) {
+      return {
+        ok: false,
+        status: 422,
+        error: `${stay.houseName}: ${violation.message}`,
+        code: violation.code,
+        field: violation.field,
+      };
+    }
+  }
+
+  // Peak dates need an admin's OK unless an admin is booking
+  const peaks = caller.isAdmin
+    ? stays.map(() => null)
+    : await Promise.all(
+        stays.map((s) =>
+          findPeakPeriod(admin, s.houseId, s.input.startDate, s.input.endDate)
+        )
+      );
+
+  const noteClean = (fields.note ?? "").toString().trim() || null;
+
+  // The reservation row and its houses' bookings are written together or
+  // not at all
+  const { data: inserted, error: insertErr } = await admin
+    .rpc("create_reservation", {
+      reservation: { created_by: memberId, booked_by: onBehalf ? caller.userId : null },
+      stays: stays.map((s, i) => ({
+        house_id: s.houseId,
+        created_by: memberId,
+        booked_by: onBehalf ? caller.userId : null,
+        guest_count: s.input.guestCount,
+        start_date: s.input.startDate,
+        end_date: s.input.endDate,
+        status: peaks[i] ? "pending" : "active",
+        note: noteClean,
+      })),
+    })
+    .select(BOOKING_COLUMNS);
+
+  if (insertErr) return { ok: false, status: 500, error: insertErr.message };
+
+  const bookings = (inserted ?? []) as BookingRow[];
+  for (const booking of bookings) {
+    await recordBookingEvent(admin, {
+      bookingId: booking.id,
+      houseId: booking.house_id,
+      actorId: caller.userId,
+      action: "created",
+      after: booking,
+    });
+  }
+
+  const allHouses = stays.map((s) => s.houseName).join(" + ");
+  const details = (booking: BookingRow) => ({
+    houseId: booking.house_id,
+    houseName: housesById.get(booking.house_id) ?? "House",
+    startDate: booking.start_date,
+    endDate: booking.end_date,
+    guestCount: booking.guest_count,
+    actorName: callerDisplayName(caller),
+    memberName,
+    reservation: allHouses,
+    note: booking.note,
+  });
+
+  for (const booking of bookings) {
+    const peak = peaks[stays.findIndex((s) => s.houseId === booking.house_id)];
+    if (peak) {
+      await notifyDirect("admins", { kind: "pending", peakLabel: peak.label, ...details(booking) });
+    } else {
+      await notifyAfterWrite({ kind: "booked", ...details(booking) });
+    }
+  }
+  if (onBehalf) {
+    await notifyDirect([memberId], {
+      kind: "on_behalf",
+      action: "booked",
+      ...details(bookings[0]),
+      houseId: null,
+      houseName: allHouses,
+      guestCount: bookings.reduce((sum, b) => sum + b.guest_count, 0),
+    });
+  }
+
+  return {
+    ok: true,
+    bookings,
+    reservationId: bookings[0].reservation_id as number,
+    pendingCount: bookings.filter((b) => b.status === "pending").length,
+  };
+}
@@ -0,0 +1,29 @@
+import { randomBytes } from "crypto";
+import { supabaseAdminClient } from "@/lib/supabaseServer";
+
+// Server-only helpers for the /api/ical feeds.
+
+export function newFeedToken() {
+  return randomBytes(24).toString("hex");
+}
+
+// Feed token -> member id, or null if the token is unknown
+export async function feedTokenOwner(token: string | null) {
+  if (!token || !/^[0-9a-f]{48}$/.test(token)) return null;
+
+  const { data, error } = await supabaseAdminClient()
+    .from("calendar_feed_tokens")
+    .select("user_id")
+    .eq("token", token)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return (data?.user_id as string | undefined) ?? null;
+}
+
+// Feeds go back a year so recent stays stay visible in calendar apps
+export function feedWindowStart() {
+  const d = new Date();
+  d.setUTCFullYear(d.getUTCFullYear() - 1);
+  return d.toISOString().slice(0, 10);
+}
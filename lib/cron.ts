@@ -0,0 +1,6 @@
+// Cron callers (e.g. Vercel Cron) send "Authorization: Bearer <CRON_SECRET>"
+export function isCronAuthorized(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  return req.headers.get("authorization") === `Bearer ${secret}`;
+}
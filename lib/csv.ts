@@ -0,0 +1,24 @@
+// Minimal RFC 4180 CSV writer for the admin exports.
+
+type CsvValue = string | number | boolean | null | undefined;
+
+function csvCell(value: CsvValue) {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  // Keep spreadsheets from running notes like "=HYPERLINK(...)" as formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: CsvValue[][]) {
+  return [headers, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+export function csvResponse(filename: string, csv: string) {
+  return new Response(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
@@ -0,0 +1,139 @@
+// Draws for high-demand weeks, shared by /api/draws and DrawsPage.
+// runDraw is pure: the same seed, entries and history always give the same
+// outcome, which is what lets anyone replay a past draw.
+
+export type DrawMethod = "lottery" | "rotation";
+
+export const DRAW_METHODS: { value: DrawMethod; label: string }[] = [
+  { value: "lottery", label: "Lottery — random, fewer past wins = better odds" },
+  { value: "rotation", label: "Rotation — longest since last win goes first" },
+];
+
+export type Draw = {
+  id: number;
+  house_id: number;
+  label: string;
+  window_start: string; // YYYY-MM-DD
+  window_end: string; // YYYY-MM-DD (exclusive)
+  requests_close_at: string; // ISO timestamp
+  method: DrawMethod;
+  status: "open" | "drawn";
+  seed: string | null;
+  drawn_at: string | null;
+};
+
+export type DrawSlot = {
+  id: number;
+  draw_id: number;
+  label: string;
+  start_date: string;
+  end_date: string; // exclusive
+};
+
+export type DrawEntry = {
+  user_id: string;
+  preferences: number[]; // slot ids, most wanted first
+  guest_count: number;
+};
+
+// Wins in earlier draws for the same house
+export type DrawHistory = {
+  user_id: string;
+  past_wins: number;
+  last_won: string | null; // window_start of the most recent win
+};
+
+export type DrawOutcome = {
+  user_id: string;
+  position: number; // 1 = picked first
+  ticket: number; // 0–1 from the seeded generator
+  past_wins: number;
+  last_won: string | null;
+  slot_id: number | null; // null = every ranked slot was already taken
+};
+
+export function drawIsOpen(draw: Draw, now = new Date()) {
+  return draw.status === "open" && new Date(draw.requests_close_at) > now;
+}
+
+// 32-bit FNV-1a, to turn the seed string into a generator state
+function hashSeed(seed: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// mulberry32: small, fast and identical in every JS runtime
+function seededRandom(seed: string) {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function runDraw(input: {
+  method: DrawMethod;
+  seed: string;
+  slots: DrawSlot[];
+  entries: DrawEntry[];
+  history: DrawHistory[];
+}): DrawOutcome[] {
+  const random = seededRandom(input.seed);
+  const historyByUser = new Map(input.history.map((h) => [h.user_id, h]));
+  const slotIds = new Set(input.slots.map((s) => s.id));
+
+  // Tickets are handed out in user id order so row order from the database
+  // can't change the result
+  const entrants = [...input.entries]
+    .sort((a, b) => a.user_id.localeCompare(b.user_id))
+    .map((entry) => {
+      const history = historyByUser.get(entry.user_id);
+      return {
+        entry,
+        ticket: random(),
+        pastWins: history?.past_wins ?? 0,
+        lastWon: history?.last_won ?? null,
+      };
+    });
+
+  if (input.method === "rotation") {
+    // Never won first, then whoever won longest ago; the ticket breaks ties
+    entrants.sort((a, b) => {
+      if (a.lastWon !== b.lastWon) {
+        if (a.lastWon === null) return -1;
+        if (b.lastWon === null) return 1;
+        return a.lastWon < b.lastWon ? -1 : 1;
+      }
+      return a.ticket - b.ticket;
+    });
+  } else {
+    // Weighted shuffle (Efraimidis–Spirakis): weight 1 / (1 + past wins),
+    // highest key goes first
+    const key = (e: (typeof entrants)[number]) => Math.pow(e.ticket, 1 + e.pastWins);
+    entrants.sort((a, b) => key(b) - key(a));
+  }
+
+  const taken = new Set<number>();
+
+  return entrants.map((e, i) => {
+    const slotId =
+      e.entry.preferences.find((id) => slotIds.has(id) && !taken.has(id)) ?? null;
+    if (slotId !== null) taken.add(slotId);
+
+    return {
+      user_id: e.entry.user_id,
+      position: i + 1,
+      ticket: e.ticket,
+      past_wins: e.pastWins,
+      last_won: e.lastWon,
+      slot_id: slotId,
+    };
+  });
+}
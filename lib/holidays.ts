@@ -0,0 +1,64 @@
+// US holidays the family treats as high-demand, as "nights" (YYYY-MM-DD of
+// the night's check-in day). A stay over the night of Jul 3 → Jul 4 counts.
+
+function iso(year: number, monthIndex: number, day: number) {
+  return new Date(Date.UTC(year, monthIndex, day)).toISOString().slice(0, 10);
+}
+
+// nth weekday (0 = Sunday) of a month; n = -1 for the last one
+function nthWeekday(year: number, monthIndex: number, weekday: number, n: number) {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, monthIndex, 1)).getUTCDay();
+    return 1 + ((weekday - first + 7) % 7) + (n - 1) * 7;
+  }
+  const lastDate = new Date(Date.UTC(year, monthIndex + 1, 0));
+  return lastDate.getUTCDate() - ((lastDate.getUTCDay() - weekday + 7) % 7);
+}
+
+const cache = new Map<number, Set<string>>();
+
+export function holidayNights(year: number) {
+  const cached = cache.get(year);
+  if (cached) return cached;
+
+  const memorial = nthWeekday(year, 4, 1, -1);
+  const labor = nthWeekday(year, 8, 1, 1);
+  const thanksgiving = nthWeekday(year, 10, 4, 4);
+
+  const nights = new Set<string>([
+    // New Year's Eve
+    iso(year, 11, 31),
+    // Memorial Day weekend: Fri–Sun nights
+    iso(year, 4, memorial - 3),
+    iso(year, 4, memorial - 2),
+    iso(year, 4, memorial - 1),
+    // Fourth of July
+    iso(year, 6, 3),
+    iso(year, 6, 4),
+    // Labor Day weekend: Fri–Sun nights
+    iso(year, 8, labor - 3),
+    iso(year, 8, labor - 2),
+    iso(year, 8, labor - 1),
+    // Thanksgiving: Wed–Sat nights
+    iso(year, 10, thanksgiving - 1),
+    iso(year, 10, thanksgiving),
+    iso(year, 10, thanksgiving + 1),
+    iso(year, 10, thanksgiving + 2),
+    // Christmas Eve / Christmas
+    iso(year, 11, 24),
+    iso(year, 11, 25),
+  ]);
+
+  cache.set(year, nights);
+  return nights;
+}
+
+export function isHolidayNight(dateStr: string) {
+  return holidayNights(Number(dateStr.slice(0, 4))).has(dateStr);
+}
+
+// Friday and Saturday nights
+export function isWeekendNight(dateStr: string) {
+  const day = new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+  return day === 5 || day === 6;
+}
@@ -0,0 +1,64 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  DEFAULT_POLICY,
+  todayIso,
+  type Blackout,
+  type BookingPolicy,
+  type PolicyContext,
+} from "@/lib/bookingRules";
+
+// Loaders for the per-house booking policy. They take the client as an
+// argument so the calendar (browser) and /api/bookings (service role) read
+// the same rows.
+
+export async function loadHousePolicy(
+  supabase: SupabaseClient,
+  houseId: number
+): Promise<{ policy: BookingPolicy; blackouts: Blackout[] }> {
+  const [policyRes, blackoutRes] = await Promise.all([
+    supabase
+      .from("house_policies")
+      .select(
+        "min_nights,max_nights,max_advance_days,max_future_bookings,min_gap_days,max_guests_per_booking"
+      )
+      .eq("house_id", houseId)
+      .maybeSingle(),
+    supabase
+      .from("house_blackouts")
+      .select("id,house_id,start_date,end_date,reason")
+      .eq("house_id", houseId)
+      .gt("end_date", todayIso())
+      .order("start_date", { ascending: true }),
+  ]);
+
+  const err = policyRes.error ?? blackoutRes.error;
+  if (err) throw new Error(err.message);
+
+  return {
+    policy: (policyRes.data as BookingPolicy | null) ?? DEFAULT_POLICY,
+    blackouts: (blackoutRes.data ?? []) as Blackout[],
+  };
+}
+
+// Everything validateBooking needs to check a stay for one member
+export async function loadPolicyContext(
+  supabase: SupabaseClient,
+  houseId: number,
+  memberId: string,
+  excludeBookingId?: number
+): Promise<PolicyContext> {
+  const { policy, blackouts } = await loadHousePolicy(supabase, houseId);
+
+  let query = supabase
+    .from("bookings")
+    .select("id,start_date,end_date")
+    .eq("house_id", houseId)
+    .eq("created_by", memberId)
+    .in("status", ["active", "pending"]);
+  if (excludeBookingId !== undefined) query = query.neq("id", excludeBookingId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+
+  return { policy, blackouts, memberStays: data ?? [], today: todayIso() };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { roomClaimProblem, type HouseRoom } from "@/lib/houseRooms";
+
+const rooms: HouseRoom[] = [
+  { id: 1, house_id: 1, name: "Master", beds: 1, sleeps: 2, sort_order: 0 },
+  { id: 2, house_id: 1, name: "Bunk room", beds: 2, sleeps: 2, sort_order: 1 },
+];
+
+const stay = {
+  bookingId: 10,
+  rooms,
+  startDate: "2026-07-03",
+  endDate: "2026-07-06",
+  claims: [],
+};
+
+describe("roomClaimProblem", () => {
+  it("checks guests against beds, not sleeps", () => {
+    expect(roomClaimProblem({ ...stay, roomIds: [1], guestCount: 2 })?.code).toBe(
+      "rooms_too_small"
+    );
+    expect(roomClaimProblem({ ...stay, roomIds: [1, 2], guestCount: 3 })).toBeNull();
+  });
+
+  it("rejects a room another overlapping stay holds", () => {
+    const problem = roomClaimProblem({
+      ...stay,
+      roomIds: [2],
+      guestCount: 1,
+      claims: [
+        {
+          room_id: 2,
+          booking_id: 11,
+          created_by: "someone",
+          start_date: "2026-07-05",
+          end_date: "2026-07-08",
+        },
+      ],
+    });
+    expect(problem?.code).toBe("room_taken");
+  });
+});
@@ -0,0 +1,174 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addDays } from "@/lib/usage";
+
+// Room inventory per house and the rooms each booking claims for all of its
+// nights. Loaders take the client as an argument so the calendar (browser)
+// and the /api routes (service role) read the same rows.
+
+export type HouseRoom = {
+  id: number;
+  house_id: number;
+  name: string;
+  beds: number;
+  sleeps: number;
+  sort_order: number;
+};
+
+export const HOUSE_ROOM_COLUMNS = "id,house_id,name,beds,sleeps,sort_order";
+
+// A room claimed by an active or pending stay, with that stay's dates
+export type RoomClaim = {
+  room_id: number;
+  booking_id: number;
+  created_by: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD (exclusive)
+};
+
+export type RoomProblem = {
+  code: "unknown_room" | "room_taken" | "rooms_too_small";
+  message: string;
+};
+
+export async function loadHouseRooms(
+  supabase: SupabaseClient,
+  houseId: number
+): Promise<HouseRoom[]> {
+  const { data, error } = await supabase
+    .from("house_rooms")
+    .select(HOUSE_ROOM_COLUMNS)
+    .eq("house_id", houseId)
+    .order("sort_order", { ascending: true })
+    .order("name", { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return (data ?? []) as HouseRoom[];
+}
+
+// Every claim on the house's rooms by a stay overlapping these dates
+export async function loadRoomClaims(
+  supabase: SupabaseClient,
+  houseId: number,
+  startDate: string,
+  endDate: string
+): Promise<RoomClaim[]> {
+  const { data, error } = await supabase
+    .from("booking_rooms")
+    .select("room_id,booking_id,bookings!inner(house_id,created_by,start_date,end_date,status)")
+    .eq("bookings.house_id", houseId)
+    .in("bookings.status", ["active", "pending"])
+    .lt("bookings.start_date", endDate)
+    .gt("bookings.end_date", startDate);
+
+  if (error) throw new Error(error.message);
+
+  const rows = (data ?? []) as unknown as {
+    room_id: number;
+    booking_id: number;
+    bookings: { created_by: string; start_date: string; end_date: string };
+  }[];
+
+  return rows.map((r) => ({
+    room_id: r.room_id,
+    booking_id: r.booking_id,
+    created_by: r.bookings.created_by,
+    start_date: r.bookings.start_date,
+    end_date: r.bookings.end_date,
+  }));
+}
+
+// Total beds in the rooms; a stay's guests are checked against this
+export function roomBeds(rooms: HouseRoom[], roomIds: number[]) {
+  return rooms.filter((r) => roomIds.includes(r.id)).reduce((sum, r) => sum + r.beds, 0);
+}
+
+// Why a stay can't have these rooms, or null. `claims` are the overlapping
+// claims already stored; the stay's own are skipped.
+export function roomClaimProblem(input: {
+  bookingId: number;
+  rooms: HouseRoom[];
+  roomIds: number[];
+  guestCount: number;
+  startDate: string;
+  endDate: string;
+  claims: RoomClaim[];
+}): RoomProblem | null {
+  if (!input.roomIds.length) return null;
+
+  const unknown = input.roomIds.find((id) => !input.rooms.some((r) => r.id === id));
+  if (unknown !== undefined) {
+    return { code: "unknown_room", message: "That room isn't in this house." };
+  }
+
+  const taken = input.claims.find(
+    (c) =>
+      c.booking_id !== input.bookingId &&
+      input.roomIds.includes(c.room_id) &&
+      c.start_date < input.endDate &&
+      c.end_date > input.startDate
+  );
+  if (taken) {
+    const room = input.rooms.find((r) => r.id === taken.room_id);
+    return {
+      code: "room_taken",
+      message: `${room?.name ?? "That room"} is already claimed for some of these nights.`,
+    };
+  }
+
+  const beds = roomBeds(input.rooms, input.roomIds);
+  if (input.guestCount > beds) {
+    return {
+      code: "rooms_too_small",
+      message: `Those rooms have ${beds} bed${beds === 1 ? "" : "s"}; this stay has ${
+        input.guestCount
+      } guests.`,
+    };
+  }
+
+  return null;
+}
+
+// Checks a stay against the rooms it claims (or is about to claim). Used
+// when claiming and when an edit moves the stay or changes its guests.
+export async function checkRoomClaims(
+  supabase: SupabaseClient,
+  input: {
+    bookingId: number;
+    houseId: number;
+    startDate: string;
+    endDate: string;
+    guestCount: number;
+    roomIds?: number[]; // defaults to the rooms the stay claims now
+  }
+): Promise<RoomProblem | null> {
+  let roomIds = input.roomIds;
+  if (!roomIds) {
+    const { data, error } = await supabase
+      .from("booking_rooms")
+      .select("room_id")
+      .eq("booking_id", input.bookingId);
+    if (error) throw new Error(error.message);
+    roomIds = (data ?? []).map((r) => r.room_id as number);
+  }
+  if (!roomIds.length) return null;
+
+  const [rooms, claims] = await Promise.all([
+    loadHouseRooms(supabase, input.houseId),
+    loadRoomClaims(supabase, input.houseId, input.startDate, input.endDate),
+  ]);
+
+  return roomClaimProblem({ ...input, rooms, roomIds, claims });
+}
+
+// One entry per night of the stay: which claim holds each room that night
+export function roomNights(startDate: string, endDate: string, claims: RoomClaim[]) {
+  const nights: { night: string; byRoom: Map<number, RoomClaim> }[] = [];
+  for (let night = startDate; night < endDate; night = addDays(night, 1)) {
+    const byRoom = new Map<number, RoomClaim>();
+    claims.forEach((c) => {
+      if (c.start_date <= night && c.end_date > night) byRoom.set(c.room_id, c);
+    });
+    nights.push({ night, byRoom });
+  }
+  return nights;
+}
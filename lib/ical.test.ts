@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { icalStatus, renderCalendar } from "@/lib/ical";
+
+describe("icalStatus", () => {
+  it("confirms only active bookings", () => {
+    expect(icalStatus("active")).toBe("CONFIRMED");
+  });
+
+  it("marks pending requests tentative", () => {
+    expect(icalStatus("pending")).toBe("TENTATIVE");
+  });
+
+  it("cancels stays that won't happen", () => {
+    for (const status of ["cancelled", "rejected", "archived"]) {
+      expect(icalStatus(status)).toBe("CANCELLED");
+    }
+  });
+
+  it("writes the mapped status into the event", () => {
+    const ics = renderCalendar({
+      name: "Test",
+      events: [
+        {
+          uid: "booking-1@test",
+          start: "2026-07-03",
+          end: "2026-07-06",
+          summary: "Bay Ave",
+          status: icalStatus("pending"),
+        },
+      ],
+    });
+    expect(ics).toContain("STATUS:TENTATIVE");
+  });
+});
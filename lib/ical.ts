@@ -0,0 +1,101 @@
+// RFC 5545 VCALENDAR writer for all-day booking events.
+
+export type IcalEvent = {
+  uid: string;
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD (exclusive, same as bookings.end_date)
+  summary: string;
+  description?: string | null;
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  lastModified?: string | null; // ISO timestamp
+};
+
+// Booking status -> VEVENT STATUS. Pending requests aren't approved yet;
+// rejected and archived stays won't happen, same as cancelled ones.
+export function icalStatus(bookingStatus: string): NonNullable<IcalEvent["status"]> {
+  switch (bookingStatus) {
+    case "active":
+      return "CONFIRMED";
+    case "pending":
+      return "TENTATIVE";
+    default:
+      return "CANCELLED";
+  }
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets are folded with CRLF + space
+function foldLine(line: string) {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const ch of line) {
+    const size = new TextEncoder().encode(ch).length;
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += ch;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function icalDate(dateStr: string) {
+  return dateStr.replace(/-/g, "");
+}
+
+function icalTimestamp(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export function renderCalendar(opts: { name: string; events: IcalEvent[] }) {
+  const now = icalTimestamp(new Date());
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Bay Ave & Bear Ln//Family House Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(opts.name)}`,
+    ...opts.events.flatMap((e) => [
+      "BEGIN:VEVENT",
+      `UID:${e.uid}`,
+      `DTSTAMP:${now}`,
+      `DTSTART;VALUE=DATE:${icalDate(e.start)}`,
+      `DTEND;VALUE=DATE:${icalDate(e.end)}`,
+      `SUMMARY:${escapeText(e.summary)}`,
+      ...(e.description ? [`DESCRIPTION:${escapeText(e.description)}`] : []),
+      ...(e.lastModified ? [`LAST-MODIFIED:${icalTimestamp(new Date(e.lastModified))}`] : []),
+      `STATUS:${e.status ?? "CONFIRMED"}`,
+      "TRANSP:OPAQUE",
+      "END:VEVENT",
+    ]),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export function icalResponse(filename: string, body: string, download = true) {
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `${download ? "attachment" : "inline"}; filename="${filename}"`,
+    },
+  });
+}
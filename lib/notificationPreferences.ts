@@ -0,0 +1,61 @@
+// Notification preference shape shared by the profile page and the email senders.
+
+export type NotificationEvent = "booked" | "cancelled" | "updated";
+
+export type NotificationDelivery = "immediate" | "digest";
+
+export type NotificationPreferences = {
+  user_id: string;
+  house_ids: number[] | null; // null = every house
+  events: NotificationEvent[];
+  delivery: NotificationDelivery;
+  unsubscribed: boolean;
+};
+
+export const NOTIFICATION_EVENTS: { value: NotificationEvent; label: string }[] = [
+  { value: "booked", label: "New bookings" },
+  { value: "cancelled", label: "Cancellations" },
+  { value: "updated", label: "Edited bookings" },
+];
+
+export function defaultPreferences(userId: string): NotificationPreferences {
+  return {
+    user_id: userId,
+    house_ids: null,
+    events: NOTIFICATION_EVENTS.map((e) => e.value),
+    delivery: "immediate",
+    unsubscribed: false,
+  };
+}
+
+// Does an event in this house match the houses and events the member picked?
+function matchesPreferences(
+  prefs: NotificationPreferences,
+  event: NotificationEvent,
+  houseId: number | null
+) {
+  if (prefs.unsubscribed) return false;
+  if (!prefs.events.includes(event)) return false;
+  if (houseId !== null && prefs.house_ids && !prefs.house_ids.includes(houseId)) {
+    return false;
+  }
+  return true;
+}
+
+// Should this member get an email right away for this event?
+export function wantsImmediateEmail(
+  prefs: NotificationPreferences,
+  event: NotificationEvent,
+  houseId: number | null
+) {
+  return prefs.delivery === "immediate" && matchesPreferences(prefs, event, houseId);
+}
+
+// Should the weekly digest list this change for the member instead?
+export function wantsDigestChange(
+  prefs: NotificationPreferences,
+  event: NotificationEvent,
+  houseId: number | null
+) {
+  return prefs.delivery === "digest" && matchesPreferences(prefs, event, houseId);
+}
@@ -0,0 +1,44 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type PeakPeriod = {
+  id: number;
+  house_id: number | null; // null = every house
+  label: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD (exclusive)
+};
+
+export function overlapsPeak(
+  periods: PeakPeriod[],
+  houseId: number,
+  startDate: string,
+  endDate: string
+) {
+  return (
+    periods.find(
+      (p) =>
+        (p.house_id === null || p.house_id === houseId) &&
+        p.start_date < endDate &&
+        p.end_date > startDate
+    ) ?? null
+  );
+}
+
+// First peak period the stay touches, or null. Non-admin bookings that touch
+// one need admin approval.
+export async function findPeakPeriod(
+  supabase: SupabaseClient,
+  houseId: number,
+  startDate: string,
+  endDate: string
+) {
+  const { data, error } = await supabase
+    .from("peak_periods")
+    .select("id,house_id,label,start_date,end_date")
+    .or(`house_id.is.null,house_id.eq.${houseId}`)
+    .lt("start_date", endDate)
+    .gt("end_date", startDate);
+
+  if (error) throw new Error(error.message);
+  return overlapsPeak((data ?? []) as PeakPeriod[], houseId, startDate, endDate);
+}
@@ -0,0 +1,78 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// Acts as the calling user (RLS applies)
+export function supabaseServerClient(accessToken: string) {
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+  });
+}
+
+// Bypasses RLS. Only use after the route has checked who is calling.
+export function supabaseAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY");
+  }
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+}
+
+// "Authorization: Bearer <access token>" -> token, for GET routes
+export function getBearerToken(req: Request) {
+  const header = req.headers.get("authorization") ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  return match ? match[1].trim() : null;
+}
+
+export type Caller = {
+  userId: string;
+  email: string | null;
+  name: string | null;
+  isAdmin: boolean;
+};
+
+// Resolves the access token to a user + profile, or null if the token is invalid
+export async function getCaller(supabase: SupabaseClient): Promise<Caller | null> {
+  const { data: auth } = await supabase.auth.getUser();
+  const user = auth.user;
+  if (!user) return null;
+
+  const { data: prof, error } = await supabase
+    .from("profiles")
+    .select("name,email,is_admin")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+
+  return {
+    userId: user.id,
+    email: prof?.email ?? user.email ?? null,
+    name: prof?.name ?? null,
+    isAdmin: !!prof?.is_admin,
+  };
+}
+
+// Name used in emails ("Booked by", "Cancelled by", ...)
+export function callerDisplayName(caller: Caller) {
+  return caller.name || caller.email || "A family member";
+}
+
+// For admin GET routes: checks the bearer token and the is_admin flag
+export async function requireAdmin(
+  req: Request
+): Promise<{ supabase: SupabaseClient; caller: Caller } | { error: string; status: number }> {
+  const accessToken = getBearerToken(req);
+  if (!accessToken) return { error: "Not authenticated", status: 401 };
+
+  const supabase = supabaseServerClient(accessToken);
+  const caller = await getCaller(supabase);
+  if (!caller) return { error: "Not authenticated", status: 401 };
+  if (!caller.isAdmin) return { error: "Forbidden", status: 403 };
+
+  return { supabase, caller };
+}
@@ -0,0 +1,182 @@
+// Usage report types and period math, shared by /api/usage and UsagePage.
+// All date math is done in UTC on YYYY-MM-DD strings so the server's time
+// zone can't shift a booking into the wrong day.
+
+export type UsageGranularity = "month" | "week" | "season";
+
+export const USAGE_GRANULARITIES: UsageGranularity[] = ["month", "week", "season"];
+
+export type UsagePeriod = {
+  label: string; // e.g. "2026-01", "2026-W03", "Summer 2026"
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD (exclusive)
+  totalDays: number;
+};
+
+export type UsageRow = {
+  houseId: number;
+  houseName: string;
+  period: string; // UsagePeriod.label
+  daysWithBookings: number;
+  totalDays: number;
+  usageRate: number; // 0–1
+  peakGuests: number; // highest daily headcount
+  averageGuests: number; // mean headcount over booked days
+  daysOverCapacity: number; // 0 when the house has no max_guests
+};
+
+export type UsageSeries = {
+  houseId: number;
+  houseName: string;
+  maxGuests: number | null;
+  rows: UsageRow[]; // one per period, in order
+};
+
+// One member's nights in one house in one calendar year of the range
+export type MemberUsageRow = {
+  userId: string;
+  memberName: string;
+  houseId: number;
+  houseName: string;
+  year: number;
+  nights: number;
+  guestNights: number; // nights × guest_count
+  weekendNights: number; // Fri + Sat nights
+  holidayNights: number; // see lib/holidays.ts
+  nightsAsGuest: number; // on someone else's guest list
+  share: number; // 0–1 of all booked nights in that house + year
+};
+
+export type UsageResponse = {
+  from: string;
+  to: string; // exclusive
+  granularity: UsageGranularity;
+  periods: UsagePeriod[];
+  series: UsageSeries[];
+  members: MemberUsageRow[];
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export function parseUtcDate(dateStr: string) {
+  return new Date(`${dateStr}T00:00:00Z`);
+}
+
+export function toDateString(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+export function addDays(dateStr: string, days: number) {
+  return toDateString(new Date(parseUtcDate(dateStr).getTime() + days * DAY_MS));
+}
+
+export function daysBetween(startStr: string, endStr: string) {
+  return Math.round((parseUtcDate(endStr).getTime() - parseUtcDate(startStr).getTime()) / DAY_MS);
+}
+
+export function monthLabel(dateStr: string) {
+  return dateStr.slice(0, 7);
+}
+
+export function firstOfMonth(year: number, monthIndex: number) {
+  return toDateString(new Date(Date.UTC(year, monthIndex, 1)));
+}
+
+// [start, end) of a "YYYY-MM" month
+export function monthWindow(month: string) {
+  const [y, m] = month.split("-").map(Number);
+  return { start: firstOfMonth(y, m - 1), end: firstOfMonth(y, m) };
+}
+
+// ISO 8601 week label (weeks start Monday)
+function isoWeekLabel(dateStr: string) {
+  const d = parseUtcDate(dateStr);
+  const dayNum = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - dayNum); // Thursday decides the week's year
+  const yearStart = Date.UTC(d.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((d.getTime() - yearStart) / DAY_MS + 1) / 7);
+  return `${d.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+const SEASONS = ["Winter", "Spring", "Summer", "Fall"] as const;
+
+// Meteorological seasons: Dec–Feb, Mar–May, Jun–Aug, Sep–Nov
+function seasonOf(dateStr: string) {
+  const d = parseUtcDate(dateStr);
+  const m = d.getUTCMonth();
+  const y = d.getUTCFullYear();
+  const index = Math.floor(((m + 1) % 12) / 3); // Dec,Jan,Feb -> 0
+  const startYear = m === 11 ? y : index === 0 ? y - 1 : y;
+  const start = firstOfMonth(startYear, index === 0 ? 11 : index * 3 - 1);
+  const end = firstOfMonth(startYear, index === 0 ? 14 : index * 3 + 2);
+  const label =
+    index === 0
+      ? `Winter ${startYear}–${String(startYear + 1).slice(2)}`
+      : `${SEASONS[index]} ${startYear}`;
+  return { start, end, label };
+}
+
+function nextBoundary(dateStr: string, granularity: UsageGranularity) {
+  if (granularity === "week") {
+    const dayNum = (parseUtcDate(dateStr).getUTCDay() + 6) % 7;
+    return { end: addDays(dateStr, 7 - dayNum), label: isoWeekLabel(dateStr) };
+  }
+  if (granularity === "season") {
+    const s = seasonOf(dateStr);
+    return { end: s.end, label: s.label };
+  }
+  const d = parseUtcDate(dateStr);
+  return {
+    end: firstOfMonth(d.getUTCFullYear(), d.getUTCMonth() + 1),
+    label: monthLabel(dateStr),
+  };
+}
+
+// Splits [from, to) into calendar periods, clipping the first and last
+export function buildPeriods(from: string, to: string, granularity: UsageGranularity) {
+  const periods: UsagePeriod[] = [];
+  let cursor = from;
+
+  while (cursor < to) {
+    const next = nextBoundary(cursor, granularity);
+    const end = next.end < to ? next.end : to;
+    periods.push({ label: next.label, start: cursor, end, totalDays: daysBetween(cursor, end) });
+    cursor = end;
+  }
+
+  return periods;
+}
+
+// Guests in the house per day, summing every booking that covers the day.
+// Only days inside [from, to) with at least one booking are present.
+export function dailyHeadcount(
+  bookings: { start_date: string; end_date: string; guest_count: number }[],
+  from: string,
+  to: string
+) {
+  const headcount = new Map<string, number>();
+
+  bookings.forEach((b) => {
+    const start = b.start_date < from ? from : b.start_date;
+    const end = b.end_date > to ? to : b.end_date;
+    for (let day = start; day < end; day = addDays(day, 1)) {
+      headcount.set(day, (headcount.get(day) ?? 0) + b.guest_count);
+    }
+  });
+
+  return headcount;
+}
+
+// e.g. the previous full month if today is in February -> January
+export function previousMonth(now = new Date()) {
+  return monthLabel(firstOfMonth(now.getFullYear(), now.getMonth() - 1));
+}
+
+export function formatPeriodLabel(label: string, granularity: UsageGranularity) {
+  if (granularity !== "month") return label;
+  return new Date(`${label}-01T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
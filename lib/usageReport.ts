@@ -0,0 +1,229 @@
+// Builds the admin usage report. Shared by /api/usage and its CSV exports so
+// the downloads always match what the page shows for the same range.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { loadLinkedGuests } from "@/lib/bookingGuests";
+import { isIsoDate } from "@/lib/bookingRules";
+import { isHolidayNight, isWeekendNight } from "@/lib/holidays";
+import {
+  USAGE_GRANULARITIES,
+  addDays,
+  buildPeriods,
+  dailyHeadcount,
+  daysBetween,
+  monthWindow,
+  previousMonth,
+  type MemberUsageRow,
+  type UsageGranularity,
+  type UsageResponse,
+  type UsageSeries,
+} from "@/lib/usage";
+
+// Keeps a single request from asking for decades of weekly rows
+const MAX_RANGE_DAYS = 366 * 5;
+
+export type UsageWindow = { from: string; to: string; granularity: UsageGranularity };
+
+// Accepts ?month=YYYY-MM, or ?from=YYYY-MM-DD&to=YYYY-MM-DD (to is exclusive),
+// plus an optional ?granularity=month|week|season. Defaults to the previous month.
+export function parseUsageWindow(params: URLSearchParams): UsageWindow | { error: string } {
+  const granularity = (params.get("granularity") ?? "month") as UsageGranularity;
+  if (!USAGE_GRANULARITIES.includes(granularity)) {
+    return { error: `granularity must be one of ${USAGE_GRANULARITIES.join(", ")}` };
+  }
+
+  const from = params.get("from");
+  const to = params.get("to");
+
+  if (from || to) {
+    if (!isIsoDate(from) || !isIsoDate(to)) {
+      return { error: "from and to must both be YYYY-MM-DD" };
+    }
+    if (from >= to) return { error: "from must be before to" };
+    if (daysBetween(from, to) > MAX_RANGE_DAYS) {
+      return { error: `Range is limited to ${MAX_RANGE_DAYS} days` };
+    }
+    return { from, to, granularity };
+  }
+
+  const month = params.get("month") ?? previousMonth();
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+    return { error: "month must be YYYY-MM" };
+  }
+
+  const { start, end } = monthWindow(month);
+  return { from: start, to: end, granularity };
+}
+
+// Per-member fairness breakdown: every night of every booking is attributed
+// to its creator, split by house and calendar year. Family members named on
+// someone else's guest list also get those nights as nightsAsGuest.
+async function buildMemberRows(
+  supabase: SupabaseClient,
+  houses: { id: number; name: string }[],
+  bookings: {
+    id: number;
+    house_id: number;
+    created_by: string;
+    guest_count: number;
+    start_date: string;
+    end_date: string;
+  }[],
+  from: string,
+  to: string
+): Promise<MemberUsageRow[]> {
+  const byKey = new Map<string, MemberUsageRow>();
+  const totalsByHouseYear = new Map<string, number>();
+  const houseNames = new Map(houses.map((h) => [h.id, h.name]));
+  const linkedGuests = await loadLinkedGuests(supabase, bookings.map((b) => b.id));
+
+  const rowFor = (userId: string, houseId: number, year: number) => {
+    const key = `${userId}|${houseId}|${year}`;
+    let row = byKey.get(key);
+    if (!row) {
+      row = {
+        userId,
+        memberName: "",
+        houseId,
+        houseName: houseNames.get(houseId) ?? "House",
+        year,
+        nights: 0,
+        guestNights: 0,
+        weekendNights: 0,
+        holidayNights: 0,
+        nightsAsGuest: 0,
+        share: 0,
+      };
+      byKey.set(key, row);
+    }
+    return row;
+  };
+
+  bookings.forEach((b) => {
+    const start = b.start_date < from ? from : b.start_date;
+    const end = b.end_date > to ? to : b.end_date;
+    const guests = (linkedGuests.get(b.id) ?? []).filter((id) => id !== b.created_by);
+
+    for (let day = start; day < end; day = addDays(day, 1)) {
+      const year = Number(day.slice(0, 4));
+
+      const row = rowFor(b.created_by, b.house_id, year);
+      row.nights++;
+      row.guestNights += b.guest_count;
+      if (isWeekendNight(day)) row.weekendNights++;
+      if (isHolidayNight(day)) row.holidayNights++;
+
+      guests.forEach((id) => rowFor(id, b.house_id, year).nightsAsGuest++);
+
+      const houseYear = `${b.house_id}|${year}`;
+      totalsByHouseYear.set(houseYear, (totalsByHouseYear.get(houseYear) ?? 0) + 1);
+    }
+  });
+
+  const rows = Array.from(byKey.values());
+  const userIds = Array.from(new Set(rows.map((r) => r.userId)));
+  const namesById = new Map<string, string>();
+
+  if (userIds.length) {
+    const { data: profileRows, error: profErr } = await supabase
+      .from("profiles")
+      .select("id,name,email")
+      .in("id", userIds);
+
+    if (profErr) throw new Error(profErr.message);
+
+    (profileRows ?? []).forEach((p) => namesById.set(p.id, p.name || p.email || "Unknown"));
+  }
+
+  return rows.map((r) => ({
+    ...r,
+    memberName: namesById.get(r.userId) ?? "Unknown",
+    share: r.nights / (totalsByHouseYear.get(`${r.houseId}|${r.year}`) || 1),
+  }));
+}
+
+export async function buildUsageReport(
+  supabase: SupabaseClient,
+  window: UsageWindow
+): Promise<UsageResponse> {
+  const { from, to, granularity } = window;
+  const periods = buildPeriods(from, to, granularity);
+
+  // 1) Get all houses
+  const { data: houseRows, error: houseErr } = await supabase
+    .from("houses")
+    .select("id,name,max_guests")
+    .order("name", { ascending: true });
+
+  if (houseErr) throw new Error(houseErr.message);
+
+  const houses = (houseRows ?? []) as {
+    id: number;
+    name: string;
+    max_guests: number | null;
+  }[];
+
+  // 2) Get all active bookings that touch the range
+  const { data: bookingRows, error: bookingErr } = await supabase
+    .from("bookings")
+    .select("id,house_id,created_by,guest_count,start_date,end_date,status")
+    .eq("status", "active")
+    .lt("start_date", to) // start < to
+    .gt("end_date", from); // end   > from
+
+  if (bookingErr) throw new Error(bookingErr.message);
+
+  const bookings = (bookingRows ?? []) as {
+    id: number;
+    house_id: number;
+    created_by: string;
+    guest_count: number;
+    start_date: string;
+    end_date: string;
+  }[];
+
+  // 3) Per house per period: booked days (a day counts once even if several
+  //    bookings overlap it) and the daily headcount summed across bookings.
+  const series: UsageSeries[] = houses.map((h) => {
+    const headcount = dailyHeadcount(
+      bookings.filter((b) => b.house_id === h.id),
+      from,
+      to
+    );
+
+    return {
+      houseId: h.id,
+      houseName: h.name,
+      maxGuests: h.max_guests,
+      rows: periods.map((p) => {
+        let daysWithBookings = 0;
+        let guestDays = 0;
+        let peakGuests = 0;
+        let daysOverCapacity = 0;
+
+        headcount.forEach((guests, day) => {
+          if (day < p.start || day >= p.end) return;
+          daysWithBookings++;
+          guestDays += guests;
+          peakGuests = Math.max(peakGuests, guests);
+          if (h.max_guests && guests > h.max_guests) daysOverCapacity++;
+        });
+
+        return {
+          houseId: h.id,
+          houseName: h.name,
+          period: p.label,
+          daysWithBookings,
+          totalDays: p.totalDays,
+          usageRate: p.totalDays > 0 ? daysWithBookings / p.totalDays : 0,
+          peakGuests,
+          averageGuests: daysWithBookings > 0 ? guestDays / daysWithBookings : 0,
+          daysOverCapacity,
+        };
+      }),
+    };
+  });
+
+  const members = await buildMemberRows(supabase, houses, bookings, from, to);
+
+  return { from, to, granularity, periods, series, members };
+}
@@ -0,0 +1,143 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getHouseName, notifyDirect } from "@/lib/bookingEmails";
+import { dailyHeadcount } from "@/lib/usage";
+
+// Waitlist offers. Server-only: called with the service-role client after a
+// booking is cancelled or deleted, and by the /api/waitlist/expire cron.
+
+export const CLAIM_WINDOW_HOURS = 24;
+
+export type WaitlistEntry = {
+  id: number;
+  house_id: number;
+  user_id: string;
+  start_date: string;
+  end_date: string; // exclusive
+  guest_count: number;
+  note: string | null;
+  status: "waiting" | "offered" | "claimed" | "expired" | "withdrawn";
+  offered_at: string | null;
+  offer_expires_at: string | null;
+  booking_id: number | null;
+  created_at: string;
+};
+
+export const WAITLIST_COLUMNS =
+  "id,house_id,user_id,start_date,end_date,guest_count,note,status,offered_at,offer_expires_at,booking_id,created_at";
+
+// Whether the entry's dates are still taken by someone else's stay, or the
+// house would be over capacity with the entry's guests added
+async function datesStillBlocked(admin: SupabaseClient, entry: WaitlistEntry) {
+  const [{ data: stays, error }, { data: house, error: houseErr }] = await Promise.all([
+    admin
+      .from("bookings")
+      .select("created_by,status,guest_count,start_date,end_date")
+      .eq("house_id", entry.house_id)
+      .in("status", ["active", "pending"])
+      .lt("start_date", entry.end_date)
+      .gt("end_date", entry.start_date),
+    admin.from("houses").select("max_guests").eq("id", entry.house_id).maybeSingle(),
+  ]);
+
+  if (error) throw new Error(error.message);
+  if (houseErr) throw new Error(houseErr.message);
+
+  if ((stays ?? []).some((s) => s.created_by !== entry.user_id)) return true;
+
+  const maxGuests = house?.max_guests as number | null | undefined;
+  if (!maxGuests) return false;
+
+  const headcount = dailyHeadcount(
+    [...(stays ?? []).filter((s) => s.status === "active"), entry],
+    entry.start_date,
+    entry.end_date
+  );
+  return Array.from(headcount.values()).some((count) => count > maxGuests);
+}
+
+// Offers [startDate, endDate) at the house to whoever has waited longest for
+// overlapping dates that are now actually free. Logs instead of throwing:
+// the cancellation that freed the dates has already gone through.
+export async function offerFreedDates(
+  admin: SupabaseClient,
+  houseId: number,
+  startDate: string,
+  endDate: string
+) {
+  try {
+    const { data: waiting, error } = await admin
+      .from("waitlist_entries")
+      .select(WAITLIST_COLUMNS)
+      .eq("house_id", houseId)
+      .eq("status", "waiting")
+      .lt("start_date", endDate)
+      .gt("end_date", startDate)
+      .order("created_at", { ascending: true });
+
+    if (error) throw new Error(error.message);
+
+    // Someone waiting for a longer stretch may still find part of it taken;
+    // they keep their place and the next person is offered instead
+    let next: WaitlistEntry | null = null;
+    for (const entry of (waiting ?? []) as WaitlistEntry[]) {
+      if (!(await datesStillBlocked(admin, entry))) {
+        next = entry;
+        break;
+      }
+    }
+    if (!next) return null;
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + CLAIM_WINDOW_HOURS * 60 * 60 * 1000);
+
+    const { data: offered, error: offerErr } = await admin
+      .from("waitlist_entries")
+      .update({
+        status: "offered",
+        offered_at: now.toISOString(),
+        offer_expires_at: expiresAt.toISOString(),
+      })
+      .eq("id", next.id)
+      .eq("status", "waiting")
+      .select("id");
+
+    if (offerErr) throw new Error(offerErr.message);
+    if (!offered?.length) return null;
+
+    await notifyDirect([next.user_id], {
+      kind: "waitlist_offer",
+      claimHours: CLAIM_WINDOW_HOURS,
+      houseId,
+      houseName: await getHouseName(admin, houseId),
+      startDate: next.start_date,
+      endDate: next.end_date,
+      guestCount: next.guest_count,
+      actorName: "",
+      note: next.note,
+    });
+
+    return next.id as number;
+  } catch (e) {
+    console.error("Failed to offer waitlisted dates:", e);
+    return null;
+  }
+}
+
+// Expires offers whose claim window has passed and moves each one on to the
+// next person waiting for those dates
+export async function expireOffers(admin: SupabaseClient) {
+  const { data: expired, error } = await admin
+    .from("waitlist_entries")
+    .update({ status: "expired" })
+    .eq("status", "offered")
+    .lt("offer_expires_at", new Date().toISOString())
+    .select(WAITLIST_COLUMNS);
+
+  if (error) throw new Error(error.message);
+
+  for (const entry of (expired ?? []) as WaitlistEntry[]) {
+    await offerFreedDates(admin, entry.house_id, entry.start_date, entry.end_date);
+  }
+
+  return expired?.length ?? 0;
+}
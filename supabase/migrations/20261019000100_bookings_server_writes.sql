@@ -0,0 +1,4 @@
+-- Bookings are now created and edited only through /api/bookings, which
+-- validates the family rules and writes with the service role key.
+-- Reads stay as they are so the calendar can keep querying the table.
+revoke insert, update on table public.bookings from anon, authenticated;
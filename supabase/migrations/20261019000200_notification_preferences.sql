@@ -0,0 +1,26 @@
+-- Per-member choices for booking emails. Members without a row get the
+-- defaults (every house, every event, sent right away).
+create table if not exists public.notification_preferences (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  house_ids bigint[], -- null = every house
+  events text[] not null default '{booked,cancelled,updated}',
+  delivery text not null default 'immediate' check (delivery in ('immediate', 'digest')),
+  unsubscribed boolean not null default false,
+  unsubscribe_token uuid not null unique default gen_random_uuid(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.notification_preferences enable row level security;
+
+create policy "Members read their own preferences"
+  on public.notification_preferences for select
+  using (auth.uid() = user_id);
+
+create policy "Members insert their own preferences"
+  on public.notification_preferences for insert
+  with check (auth.uid() = user_id);
+
+create policy "Members update their own preferences"
+  on public.notification_preferences for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,3 @@
+-- How many guests a house sleeps. Null = unknown (no capacity warnings).
+alter table public.houses
+  add column if not exists max_guests integer check (max_guests is null or max_guests > 0);
@@ -0,0 +1,15 @@
+-- Secret per member for subscribing to iCal feeds from calendar apps, which
+-- can't send a Supabase session. Rotating replaces the token, so old feed
+-- URLs stop working.
+create table if not exists public.calendar_feed_tokens (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  token text not null unique,
+  created_at timestamptz not null default now()
+);
+
+alter table public.calendar_feed_tokens enable row level security;
+
+-- Written only by /api/ical/token with the service role
+create policy "Members read their own feed token"
+  on public.calendar_feed_tokens for select
+  using (auth.uid() = user_id);
@@ -0,0 +1,35 @@
+-- Peak periods: date ranges admins mark as high-demand. Bookings that touch
+-- one start as 'pending' until an admin approves or rejects them.
+create table if not exists public.peak_periods (
+  id bigint generated always as identity primary key,
+  house_id bigint references public.houses (id) on delete cascade, -- null = every house
+  label text not null,
+  start_date date not null,
+  end_date date not null, -- exclusive, like bookings.end_date
+  created_by uuid references public.profiles (id),
+  created_at timestamptz not null default now(),
+  check (end_date > start_date)
+);
+
+alter table public.peak_periods enable row level security;
+
+create policy "Members read peak periods"
+  on public.peak_periods for select
+  to authenticated
+  using (true);
+
+create policy "Admins manage peak periods"
+  on public.peak_periods for all
+  to authenticated
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin))
+  with check (exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin));
+
+alter table public.bookings drop constraint if exists bookings_status_check;
+alter table public.bookings
+  add constraint bookings_status_check
+  check (status in ('active', 'pending', 'rejected', 'cancelled'));
+
+alter table public.bookings
+  add column if not exists reviewed_by uuid references public.profiles (id),
+  add column if not exists reviewed_at timestamptz,
+  add column if not exists review_note text;
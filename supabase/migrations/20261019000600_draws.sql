@@ -0,0 +1,85 @@
+-- Draws: fair allocation of high-demand weeks. Admins define a window per
+-- house split into slots; members rank the slots they want until requests
+-- close; a seeded lottery or rotation then picks winners and books them.
+create table if not exists public.draws (
+  id bigint generated always as identity primary key,
+  house_id bigint not null references public.houses (id) on delete cascade,
+  label text not null,
+  window_start date not null,
+  window_end date not null, -- exclusive
+  requests_close_at timestamptz not null,
+  method text not null default 'lottery' check (method in ('lottery', 'rotation')),
+  status text not null default 'open' check (status in ('open', 'drawn')),
+  seed text, -- set when drawn; replaying with it gives the same result
+  drawn_at timestamptz,
+  drawn_by uuid references public.profiles (id),
+  created_by uuid references public.profiles (id),
+  created_at timestamptz not null default now(),
+  check (window_end > window_start)
+);
+
+-- One winner per slot
+create table if not exists public.draw_slots (
+  id bigint generated always as identity primary key,
+  draw_id bigint not null references public.draws (id) on delete cascade,
+  label text not null,
+  start_date date not null,
+  end_date date not null, -- exclusive
+  check (end_date > start_date)
+);
+
+create table if not exists public.draw_entries (
+  id bigint generated always as identity primary key,
+  draw_id bigint not null references public.draws (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  preferences bigint[] not null, -- draw_slots.id, most wanted first
+  guest_count integer not null check (guest_count > 0),
+  note text,
+  updated_at timestamptz not null default now(),
+  unique (draw_id, user_id)
+);
+
+-- Everything needed to replay a draw: each entrant's place in line, the
+-- random ticket and the history that weighted it, and what they won.
+create table if not exists public.draw_results (
+  draw_id bigint not null references public.draws (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  position integer not null,
+  ticket double precision not null,
+  past_wins integer not null,
+  last_won date,
+  slot_id bigint references public.draw_slots (id),
+  booking_id bigint references public.bookings (id) on delete set null,
+  primary key (draw_id, user_id)
+);
+
+alter table public.draws enable row level security;
+alter table public.draw_slots enable row level security;
+alter table public.draw_entries enable row level security;
+alter table public.draw_results enable row level security;
+
+create policy "Members read draws"
+  on public.draws for select to authenticated using (true);
+
+create policy "Admins manage draws"
+  on public.draws for all
+  to authenticated
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin))
+  with check (exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin));
+
+create policy "Members read draw slots"
+  on public.draw_slots for select to authenticated using (true);
+
+create policy "Admins manage draw slots"
+  on public.draw_slots for all
+  to authenticated
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin))
+  with check (exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin));
+
+-- Entries and results are written only by /api/draws with the service role
+create policy "Members read their own draw entries"
+  on public.draw_entries for select
+  using (auth.uid() = user_id);
+
+create policy "Members read draw results"
+  on public.draw_results for select to authenticated using (true);
@@ -0,0 +1,45 @@
+-- Booking policy per house. No row = DEFAULT_POLICY in lib/bookingRules.ts.
+-- Null limits are "no limit".
+create table if not exists public.house_policies (
+  house_id bigint primary key references public.houses (id) on delete cascade,
+  min_nights integer not null default 1 check (min_nights >= 1),
+  max_nights integer not null default 7 check (max_nights >= min_nights),
+  max_advance_days integer check (max_advance_days is null or max_advance_days > 0),
+  max_future_bookings integer check (max_future_bookings is null or max_future_bookings > 0),
+  min_gap_days integer check (min_gap_days is null or min_gap_days > 0),
+  max_guests_per_booking integer check (max_guests_per_booking is null or max_guests_per_booking > 0),
+  updated_at timestamptz not null default now()
+);
+
+-- Dates nobody can book (maintenance, owners' weekends, ...)
+create table if not exists public.house_blackouts (
+  id bigint generated always as identity primary key,
+  house_id bigint not null references public.houses (id) on delete cascade,
+  start_date date not null,
+  end_date date not null, -- exclusive, like bookings.end_date
+  reason text,
+  created_by uuid references public.profiles (id),
+  created_at timestamptz not null default now(),
+  check (end_date > start_date)
+);
+
+alter table public.house_policies enable row level security;
+alter table public.house_blackouts enable row level security;
+
+create policy "Members read house policies"
+  on public.house_policies for select to authenticated using (true);
+
+create policy "Admins manage house policies"
+  on public.house_policies for all
+  to authenticated
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin))
+  with check (exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin));
+
+create policy "Members read house blackouts"
+  on public.house_blackouts for select to authenticated using (true);
+
+create policy "Admins manage house blackouts"
+  on public.house_blackouts for all
+  to authenticated
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin))
+  with check (exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin));
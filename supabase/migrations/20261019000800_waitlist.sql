@@ -0,0 +1,29 @@
+-- Waitlist for dates a member couldn't get. When an overlapping booking is
+-- cancelled or deleted, the longest-waiting member is offered the dates and
+-- has a claim window before the offer moves to the next person.
+create table if not exists public.waitlist_entries (
+  id bigint generated always as identity primary key,
+  house_id bigint not null references public.houses (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  start_date date not null,
+  end_date date not null, -- exclusive, like bookings.end_date
+  guest_count integer not null check (guest_count > 0),
+  note text,
+  status text not null default 'waiting'
+    check (status in ('waiting', 'offered', 'claimed', 'expired', 'withdrawn')),
+  offered_at timestamptz,
+  offer_expires_at timestamptz,
+  booking_id bigint references public.bookings (id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (end_date > start_date)
+);
+
+create index if not exists waitlist_entries_house_status_idx
+  on public.waitlist_entries (house_id, status, created_at);
+
+alter table public.waitlist_entries enable row level security;
+
+-- Written only by /api/waitlist with the service role
+create policy "Members read their own waitlist entries"
+  on public.waitlist_entries for select
+  using (auth.uid() = user_id);
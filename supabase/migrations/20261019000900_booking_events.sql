@@ -0,0 +1,24 @@
+-- Audit log of booking changes. booking_id has no foreign key on purpose:
+-- the history of a hard-deleted booking has to outlive the row.
+create table if not exists public.booking_events (
+  id bigint generated always as identity primary key,
+  booking_id bigint not null,
+  house_id bigint references public.houses (id) on delete cascade,
+  actor_id uuid references public.profiles (id) on delete set null,
+  action text not null
+    check (action in ('created', 'updated', 'cancelled', 'deleted', 'approved', 'rejected')),
+  before jsonb, -- booking row before the change (null for created)
+  after jsonb, -- booking row after the change (null for deleted)
+  created_at timestamptz not null default now()
+);
+
+create index if not exists booking_events_booking_idx
+  on public.booking_events (booking_id, created_at);
+create index if not exists booking_events_created_idx
+  on public.booking_events (created_at desc);
+
+alter table public.booking_events enable row level security;
+
+-- Written only by the /api routes with the service role; never updated
+create policy "Members read booking history"
+  on public.booking_events for select to authenticated using (true);
@@ -0,0 +1,25 @@
+-- Admin deletes become an archive that can be restored. Archived rows are
+-- purged by /api/bookings/purge after ARCHIVE_RETENTION_DAYS.
+alter table public.bookings drop constraint if exists bookings_status_check;
+alter table public.bookings
+  add constraint bookings_status_check
+  check (status in ('active', 'pending', 'rejected', 'cancelled', 'archived'));
+
+alter table public.bookings
+  add column if not exists archived_at timestamptz,
+  add column if not exists archived_by uuid references public.profiles (id),
+  add column if not exists archive_reason text;
+
+create index if not exists bookings_archived_at_idx
+  on public.bookings (archived_at)
+  where status = 'archived';
+
+alter table public.booking_events drop constraint if exists booking_events_action_check;
+alter table public.booking_events
+  add constraint booking_events_action_check
+  check (
+    action in (
+      'created', 'updated', 'cancelled', 'deleted', 'approved', 'rejected',
+      'archived', 'restored', 'purged'
+    )
+  );
@@ -0,0 +1,5 @@
+-- Admins can book and cancel for other members. created_by stays the member
+-- the stay is for; these record the admin who acted for them.
+alter table public.bookings
+  add column if not exists booked_by uuid references public.profiles (id),
+  add column if not exists cancelled_by uuid references public.profiles (id);
@@ -0,0 +1,25 @@
+-- Recurring stays. Each occurrence is its own bookings row pointing at the
+-- series; the series row only records how the dates were generated.
+create table if not exists public.booking_series (
+  id bigint generated always as identity primary key,
+  house_id bigint not null references public.houses (id) on delete cascade,
+  created_by uuid not null references public.profiles (id),
+  booked_by uuid references public.profiles (id),
+  frequency text not null check (frequency in ('weekly', 'monthly', 'yearly')),
+  interval integer not null default 1 check (interval between 1 and 52),
+  until date,
+  occurrence_count integer check (occurrence_count > 0),
+  created_at timestamptz not null default now(),
+  check ((until is null) <> (occurrence_count is null))
+);
+
+alter table public.bookings
+  add column if not exists series_id bigint references public.booking_series (id) on delete set null;
+
+create index if not exists bookings_series_id_idx on public.bookings (series_id);
+
+alter table public.booking_series enable row level security;
+
+-- Written only by the /api routes with the service role
+create policy "Members read booking series"
+  on public.booking_series for select to authenticated using (true);
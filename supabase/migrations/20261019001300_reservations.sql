@@ -0,0 +1,19 @@
+-- Several houses booked for the same dates in one go. Each house is its own
+-- bookings row pointing at the reservation, so it can be cancelled as a unit.
+create table if not exists public.reservations (
+  id bigint generated always as identity primary key,
+  created_by uuid not null references public.profiles (id),
+  booked_by uuid references public.profiles (id),
+  created_at timestamptz not null default now()
+);
+
+alter table public.bookings
+  add column if not exists reservation_id bigint references public.reservations (id) on delete set null;
+
+create index if not exists bookings_reservation_id_idx on public.bookings (reservation_id);
+
+alter table public.reservations enable row level security;
+
+-- Written only by the /api routes with the service role
+create policy "Members read reservations"
+  on public.reservations for select to authenticated using (true);
@@ -0,0 +1,20 @@
+-- Optimistic concurrency for booking edits. Every update bumps version, and
+-- /api/bookings/[id] rejects an edit made against an older one.
+alter table public.bookings
+  add column if not exists version integer not null default 1;
+
+create or replace function public.bump_booking_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.version := old.version + 1;
+  return new;
+end;
+$$;
+
+drop trigger if exists bookings_bump_version on public.bookings;
+
+create trigger bookings_bump_version
+  before update on public.bookings
+  for each row execute function public.bump_booking_version();
@@ -0,0 +1,38 @@
+-- Room inventory per house, and which rooms each booking claims for all of
+-- its nights. Two overlapping stays can't claim the same room; the /api
+-- routes check that, since the overlap depends on the bookings' dates.
+create table if not exists public.house_rooms (
+  id bigint generated always as identity primary key,
+  house_id bigint not null references public.houses (id) on delete cascade,
+  name text not null,
+  beds integer not null default 1 check (beds >= 1),
+  sleeps integer not null default 2 check (sleeps >= 1),
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  unique (house_id, name)
+);
+
+create table if not exists public.booking_rooms (
+  booking_id bigint not null references public.bookings (id) on delete cascade,
+  room_id bigint not null references public.house_rooms (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (booking_id, room_id)
+);
+
+create index if not exists booking_rooms_room_id_idx on public.booking_rooms (room_id);
+
+alter table public.house_rooms enable row level security;
+alter table public.booking_rooms enable row level security;
+
+create policy "Members read house rooms"
+  on public.house_rooms for select to authenticated using (true);
+
+create policy "Admins manage house rooms"
+  on public.house_rooms for all
+  to authenticated
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin))
+  with check (exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin));
+
+-- Written only by the /api routes with the service role
+create policy "Members read booking rooms"
+  on public.booking_rooms for select to authenticated using (true);
@@ -0,0 +1,20 @@
+-- Optional named guest list per booking. A guest linked to a profile is a
+-- family member: the stay shows in their upcoming list, they're emailed as a
+-- participant, and usage reports count their nights as a guest.
+create table if not exists public.booking_guests (
+  id bigint generated always as identity primary key,
+  booking_id bigint not null references public.bookings (id) on delete cascade,
+  name text not null,
+  kind text not null default 'adult' check (kind in ('adult', 'child', 'pet')),
+  profile_id uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists booking_guests_booking_id_idx on public.booking_guests (booking_id);
+create index if not exists booking_guests_profile_id_idx on public.booking_guests (profile_id);
+
+alter table public.booking_guests enable row level security;
+
+-- Written only by the /api routes with the service role
+create policy "Members read booking guests"
+  on public.booking_guests for select to authenticated using (true);
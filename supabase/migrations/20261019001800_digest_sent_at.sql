@@ -0,0 +1,4 @@
+-- When each member's weekly digest last went out, so the next one can list
+-- the booking changes their "digest" delivery held back since then.
+alter table public.notification_preferences
+  add column if not exists digest_sent_at timestamptz;
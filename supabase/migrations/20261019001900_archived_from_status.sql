@@ -0,0 +1,5 @@
+-- The status a booking had when an admin archived it, so restoring puts it
+-- back the way it was (a pending request stays pending) instead of approving it.
+alter table public.bookings
+  add column if not exists archived_from_status text
+    check (archived_from_status in ('active', 'pending', 'rejected', 'cancelled'));
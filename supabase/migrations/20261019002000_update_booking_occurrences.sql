@@ -0,0 +1,39 @@
+-- Saves an edit to a recurring stay and its later occurrences in one
+-- transaction. Each change carries the version the edit was checked against;
+-- if any of those rows has changed since, nothing is saved and the error's
+-- detail lists the stale booking ids.
+create or replace function public.update_booking_occurrences(changes jsonb)
+returns setof public.bookings
+language plpgsql
+as $$
+declare
+  change jsonb;
+  saved public.bookings;
+  stale bigint[] := '{}';
+begin
+  for change in select value from jsonb_array_elements(changes) loop
+    update public.bookings
+       set start_date = (change ->> 'start_date')::date,
+           end_date = (change ->> 'end_date')::date,
+           guest_count = (change ->> 'guest_count')::integer,
+           note = change ->> 'note',
+           status = change ->> 'status'
+     where id = (change ->> 'id')::bigint
+       and version = (change ->> 'version')::integer
+    returning * into saved;
+
+    if found then
+      return next saved;
+    else
+      stale := stale || (change ->> 'id')::bigint;
+    end if;
+  end loop;
+
+  if cardinality(stale) > 0 then
+    raise exception 'stale_bookings' using detail = array_to_string(stale, ',');
+  end if;
+end;
+$$;
+
+-- Called only by the /api routes with the service role
+revoke execute on function public.update_booking_occurrences(jsonb) from public, anon, authenticated;
@@ -0,0 +1,31 @@
+-- Writes a recurring stay's series row and every occurrence in one
+-- transaction, so a failed insert leaves neither behind. The occurrences
+-- have already been checked by /api/bookings/series.
+create or replace function public.create_booking_series(series jsonb, occurrences jsonb)
+returns setof public.bookings
+language plpgsql
+as $$
+declare
+  new_series_id bigint;
+begin
+  insert into public.booking_series
+    (house_id, created_by, booked_by, frequency, "interval", until, occurrence_count)
+  select s.house_id, s.created_by, s.booked_by, s.frequency, s."interval", s.until, s.occurrence_count
+    from jsonb_populate_record(null::public.booking_series, series) s
+  returning id into new_series_id;
+
+  return query
+    with inserted as (
+      insert into public.bookings
+        (house_id, created_by, booked_by, guest_count, start_date, end_date, status, note, series_id)
+      select o.house_id, o.created_by, o.booked_by, o.guest_count, o.start_date, o.end_date,
+             o.status, o.note, new_series_id
+        from jsonb_populate_recordset(null::public.bookings, occurrences) o
+      returning *
+    )
+    select * from inserted order by start_date;
+end;
+$$;
+
+-- Called only by the /api routes with the service role
+revoke execute on function public.create_booking_series(jsonb, jsonb) from public, anon, authenticated;
@@ -0,0 +1,30 @@
+-- Writes a multi-house reservation and one booking per house in one
+-- transaction, so a failed insert leaves neither behind. The houses have
+-- already been checked by /api/reservations.
+create or replace function public.create_reservation(reservation jsonb, stays jsonb)
+returns setof public.bookings
+language plpgsql
+as $$
+declare
+  new_reservation_id bigint;
+begin
+  insert into public.reservations (created_by, booked_by)
+  select r.created_by, r.booked_by
+    from jsonb_populate_record(null::public.reservations, reservation) r
+  returning id into new_reservation_id;
+
+  return query
+    with inserted as (
+      insert into public.bookings
+        (house_id, created_by, booked_by, guest_count, start_date, end_date, status, note, reservation_id)
+      select s.house_id, s.created_by, s.booked_by, s.guest_count, s.start_date, s.end_date,
+             s.status, s.note, new_reservation_id
+        from jsonb_populate_recordset(null::public.bookings, stays) s
+      returning *
+    )
+    select * from inserted;
+end;
+$$;
+
+-- Called only by the /api routes with the service role
+revoke execute on function public.create_reservation(jsonb, jsonb) from public, anon, authenticated;
@@ -0,0 +1,43 @@
+-- Replaces the rooms a booking claims in one transaction. The wanted rooms
+-- are locked first, so two stays claiming the same room at the same time
+-- take turns and the second one sees the first one's claim. A room an
+-- overlapping active or pending stay holds raises room_taken with the room
+-- id as the detail, and nothing changes.
+create or replace function public.set_booking_rooms(target_booking_id bigint, room_ids bigint[])
+returns void
+language plpgsql
+as $$
+declare
+  stay public.bookings;
+  taken_room_id bigint;
+begin
+  select * into stay from public.bookings where id = target_booking_id;
+
+  perform 1 from public.house_rooms where id = any (room_ids) order by id for update;
+
+  select br.room_id into taken_room_id
+    from public.booking_rooms br
+    join public.bookings b on b.id = br.booking_id
+   where br.room_id = any (room_ids)
+     and br.booking_id <> target_booking_id
+     and b.status in ('active', 'pending')
+     and b.start_date < stay.end_date
+     and b.end_date > stay.start_date
+   limit 1;
+
+  if taken_room_id is not null then
+    raise exception 'room_taken' using detail = taken_room_id::text;
+  end if;
+
+  insert into public.booking_rooms (booking_id, room_id)
+  select target_booking_id, unnest(room_ids)
+  on conflict (booking_id, room_id) do nothing;
+
+  delete from public.booking_rooms
+   where booking_id = target_booking_id
+     and room_id <> all (room_ids);
+end;
+$$;
+
+-- Called only by the /api routes with the service role
+revoke execute on function public.set_booking_rooms(bigint, bigint[]) from public, anon, authenticated;
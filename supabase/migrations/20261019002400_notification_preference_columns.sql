@@ -0,0 +1,10 @@
+-- Members may only write their own choices. The unsubscribe token (and when
+-- the last digest went out) are set by the database and the /api routes, so
+-- a member can't swap in a token of their choosing.
+revoke insert, update on table public.notification_preferences from anon, authenticated;
+
+-- The profile page saves with an upsert, which writes user_id on both paths;
+-- the row policies still tie it to the member
+grant insert (user_id, house_ids, events, delivery, unsubscribed, updated_at),
+  update (user_id, house_ids, events, delivery, unsubscribed, updated_at)
+  on table public.notification_preferences to authenticated;